@@ -0,0 +1,160 @@
+// CHANGE: Summarise how a plugin source changed since its previous announcement.
+// WHY: Update embeds only showed the new version, not what changed in the `.cs` file.
+// QUOTE(TЗ): "include a unified diff summary of the `.cs` (lines added/removed, changed method names) against the previously stored content."
+// REF: REQ-29
+// SOURCE: user request
+
+import { stripComments } from "./csharp.js";
+
+/**
+ * Line and method level summary of a source change.
+ *
+ * @property added - Lines present only in the current source.
+ * @property removed - Lines present only in the previous source.
+ * @property methods - Method names that were added, removed or whose body changed.
+ */
+export interface SourceChangeSummary {
+  readonly added: number;
+  readonly removed: number;
+  readonly methods: {
+    readonly added: readonly string[];
+    readonly removed: readonly string[];
+    readonly changed: readonly string[];
+  };
+}
+
+const MAX_LCS_CELLS = 4_000_000;
+
+const METHOD_SIGNATURE =
+  /(?:^|[\s;{}\]])(?:(?:private|protected|internal|public|static|override|virtual|async|sealed|abstract|unsafe|extern)\s+)*([A-Za-z_][\w.]*(?:<[^<>();{}]*(?:<[^<>();{}]*>[^<>();{}]*)*>)?(?:\[\])*\??)\s+([A-Za-z_]\w*)\s*\([^;{}]*?\)\s*(\{|=>)/g;
+
+const NOT_RETURN_TYPES = new Set(["return", "else", "new", "await", "throw", "case", "in", "out", "ref", "yield", "goto"]);
+
+function commonLines(before: readonly string[], after: readonly string[]): number {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+  const left = before.slice(prefix, before.length - suffix);
+  const right = after.slice(prefix, after.length - suffix);
+  if (left.length * right.length > MAX_LCS_CELLS) {
+    const counts = new Map<string, number>();
+    for (const line of left) {
+      counts.set(line, (counts.get(line) ?? 0) + 1);
+    }
+    let shared = 0;
+    for (const line of right) {
+      const count = counts.get(line) ?? 0;
+      if (count > 0) {
+        counts.set(line, count - 1);
+        shared += 1;
+      }
+    }
+    return prefix + suffix + shared;
+  }
+  let previous = new Uint32Array(right.length + 1);
+  let current = new Uint32Array(right.length + 1);
+  for (const line of left) {
+    for (let column = 1; column <= right.length; column += 1) {
+      current[column] = line === right[column - 1] ? previous[column - 1] + 1 : Math.max(previous[column], current[column - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return prefix + suffix + previous[right.length];
+}
+
+function skipLiteral(code: string, index: number): number {
+  if (code[index] === "@" && code[index + 1] === "\"") {
+    let end = index + 2;
+    while (end < code.length && !(code[end] === "\"" && code[end + 1] !== "\"")) {
+      end += code[end] === "\"" ? 2 : 1;
+    }
+    return end + 1;
+  }
+  const quote = code[index];
+  let end = index + 1;
+  while (end < code.length && code[end] !== quote && code[end] !== "\n") {
+    end += code[end] === "\\" ? 2 : 1;
+  }
+  return end + 1;
+}
+
+function bodyEnd(code: string, start: number, opener: string): number {
+  const closer = opener === "{" ? "}" : ";";
+  let depth = 0;
+  let index = start;
+  while (index < code.length) {
+    const char = code[index];
+    if (char === "\"" || char === "'" || (char === "@" && code[index + 1] === "\"")) {
+      index = skipLiteral(code, index);
+      continue;
+    }
+    if (opener === "{" && char === "{") {
+      depth += 1;
+    } else if (char === closer && (opener !== "{" || --depth === 0)) {
+      return index + 1;
+    }
+    index += 1;
+  }
+  return code.length;
+}
+
+/**
+ * Extract method bodies keyed by method name; overloads share one entry.
+ *
+ * @param source - C# source text.
+ * @returns Map of method name to whitespace-normalised declaration and body.
+ */
+export function extractMethods(source: string): Map<string, string> {
+  const code = stripComments(source);
+  const methods = new Map<string, string>();
+  METHOD_SIGNATURE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = METHOD_SIGNATURE.exec(code)) !== null) {
+    const [whole, returnType, name, opener] = match;
+    if (NOT_RETURN_TYPES.has(returnType)) {
+      continue;
+    }
+    const start = match.index + whole.length - opener.length;
+    const end = bodyEnd(code, start, opener);
+    const text = code.slice(match.index, end).replace(/\s+/g, " ").trim();
+    methods.set(name, methods.has(name) ? `${methods.get(name)}\n${text}` : text);
+    METHOD_SIGNATURE.lastIndex = end;
+  }
+  return methods;
+}
+
+/**
+ * Summarise the difference between two versions of a plugin source.
+ *
+ * Invariant: `added`/`removed` equal the counts of a minimal unified diff, except for very
+ * large rewrites where the changed region is compared as unordered lines.
+ *
+ * @param previous - Previously announced source.
+ * @param current - Source being announced.
+ * @returns Line counts and method names added, removed or changed.
+ */
+export function summariseSourceChange(previous: string, current: string): SourceChangeSummary {
+  const before = previous.split(/\r?\n/);
+  const after = current.split(/\r?\n/);
+  const shared = commonLines(before, after);
+  const oldMethods = extractMethods(previous);
+  const newMethods = extractMethods(current);
+  return {
+    added: after.length - shared,
+    removed: before.length - shared,
+    methods: {
+      added: [...newMethods.keys()].filter(name => !oldMethods.has(name)),
+      removed: [...oldMethods.keys()].filter(name => !newMethods.has(name)),
+      changed: [...newMethods.keys()].filter(name => oldMethods.has(name) && oldMethods.get(name) !== newMethods.get(name))
+    }
+  };
+}
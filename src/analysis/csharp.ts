@@ -0,0 +1,171 @@
+// CHANGE: Extract Oxide/uMod metadata from C# plugin sources.
+// WHY: The downloaded `.cs` buffer was only hashed although it declares name, author, permissions, commands and hooks.
+// QUOTE(TЗ): "We want a lightweight C# source analyser that extracts this metadata, fills missing `plugin_name`/`plugin_author`/`plugin_version` fields, and adds permissions/commands/hooks to the embed."
+// REF: REQ-27
+// SOURCE: user request
+
+import { IndexedPlugin, PluginSourceInfo } from "../types.js";
+
+const STRING_LITERAL = /@"((?:[^"]|"")*)"|\$?"((?:[^"\\\n]|\\.)*)"/g;
+
+const HOOK_DECLARATION =
+  /(?:^|[\s;{}\]])(?:(?:private|protected|internal|public|static|override|virtual|async)\s+)*(?:void|(?:object|bool|int|float|string|[A-Z]\w*(?:<[^>()]*>)?)(?:\[\])?\??)\s+(On[A-Z]\w*|Can[A-Z]\w*|Init|Loaded|Unload)\s*\(/g;
+
+/**
+ * Replace comments with spaces while keeping string and character literals intact.
+ *
+ * @param source - C# source text.
+ * @returns Source without comments.
+ */
+export function stripComments(source: string): string {
+  let output = "";
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    const next = source[index + 1];
+    if (char === "/" && next === "/") {
+      while (index < source.length && source[index] !== "\n") {
+        index += 1;
+      }
+    } else if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", index + 2);
+      index = end === -1 ? source.length : end + 2;
+      output += " ";
+    } else if (char === "@" && next === "\"") {
+      let end = index + 2;
+      while (end < source.length && !(source[end] === "\"" && source[end + 1] !== "\"")) {
+        end += source[end] === "\"" ? 2 : 1;
+      }
+      output += source.slice(index, end + 1);
+      index = end + 1;
+    } else if (char === "\"" || char === "'") {
+      let end = index + 1;
+      while (end < source.length && source[end] !== char && source[end] !== "\n") {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      output += source.slice(index, end + 1);
+      index = end + 1;
+    } else {
+      output += char;
+      index += 1;
+    }
+  }
+  return output;
+}
+
+function unescape(literal: string): string {
+  return literal.replace(/\\(.)/g, (_match, escaped: string) =>
+    escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped
+  );
+}
+
+function literals(text: string): string[] {
+  return Array.from(text.matchAll(STRING_LITERAL), match =>
+    match[1] !== undefined ? match[1].replace(/""/g, "\"") : unescape(match[2] ?? "")
+  );
+}
+
+function constants(code: string): Map<string, string> {
+  const found = new Map<string, string>();
+  const pattern = /\b(?:const|static\s+readonly)\s+string\s+(\w+)\s*=\s*(@"(?:[^"]|"")*"|"(?:[^"\\\n]|\\.)*")\s*;/g;
+  for (const match of code.matchAll(pattern)) {
+    const [value] = literals(match[2]);
+    if (value !== undefined) {
+      found.set(match[1], value);
+    }
+  }
+  return found;
+}
+
+function resolveArgument(argument: string, known: ReadonlyMap<string, string>): string[] {
+  const trimmed = argument.trim();
+  const direct = literals(trimmed);
+  if (direct.length > 0 && /^(?:new\s*(?:string)?\s*\[\]\s*\{[^}]*\}|@?"[\s\S]*")$/.test(trimmed)) {
+    return direct;
+  }
+  const constant = known.get(trimmed);
+  return constant ? [constant] : [];
+}
+
+function unique(values: readonly string[]): string[] {
+  return [...new Set(values.filter(value => value.length > 0))];
+}
+
+/**
+ * Analyse a C# plugin source.
+ *
+ * Invariant: only literal values or `const`/`static readonly` string fields are resolved;
+ * computed names (concatenations, method calls) are ignored.
+ *
+ * @param source - C# source text.
+ * @returns Extracted metadata.
+ */
+export function analyseCSharpSource(source: string): PluginSourceInfo {
+  const code = stripComments(source);
+  const known = constants(code);
+  const info = /\[\s*Info\s*\(([^\]]*)\)\s*\]/.exec(code);
+  const [name, author, version] = info ? literals(info[1]) : [];
+  const description = /\[\s*Description\s*\(([^\]]*)\)\s*\]/.exec(code);
+
+  const permissions = Array.from(code.matchAll(/permission\.RegisterPermission\s*\(\s*([^,)]+)/g), match =>
+    resolveArgument(match[1], known)
+  ).flat();
+
+  const commands = [
+    ...Array.from(code.matchAll(/\[\s*(Chat|Console)Command\s*\(\s*([^,)\]]+)/g), match =>
+      resolveArgument(match[2], known).map(command => (match[1] === "Chat" ? `/${command}` : command))
+    ),
+    ...Array.from(code.matchAll(/\[\s*Command\s*\(([^\]]*)\)\s*\]/g), match => literals(match[1])),
+    ...Array.from(code.matchAll(/\bcmd\.Add(Chat|Console)Command\s*\(\s*([^,)]+)/g), match =>
+      resolveArgument(match[2], known).map(command => (match[1] === "Chat" ? `/${command}` : command))
+    ),
+    ...Array.from(code.matchAll(/\bAddCovalenceCommand\s*\(\s*(new\s*(?:string)?\s*\[\]\s*\{[^}]*\}|[^,)]+)/g), match =>
+      resolveArgument(match[1], known)
+    )
+  ].flat();
+
+  const hooks = Array.from(code.matchAll(HOOK_DECLARATION), match => match[1]);
+
+  return {
+    name,
+    author,
+    version,
+    description: description ? literals(description[1])[0] : undefined,
+    permissions: unique(permissions),
+    commands: unique(commands),
+    hooks: unique(hooks)
+  };
+}
+
+/**
+ * Whether the plugin file is a C# source.
+ *
+ * @param plugin - Indexed plugin.
+ * @returns True for `.cs` paths or raw URLs.
+ */
+export function isCSharpFile(plugin: IndexedPlugin): boolean {
+  return (plugin.file.path ?? plugin.file.raw_url ?? "").toLowerCase().endsWith(".cs");
+}
+
+/**
+ * Attach source metadata to a plugin, filling name, author, version and description the
+ * index left empty. Non-C# files and missing buffers leave the plugin unchanged.
+ *
+ * @param plugin - Indexed plugin.
+ * @param buffer - Downloaded plugin file.
+ * @returns Plugin carrying `source` metadata.
+ */
+export function enrichPlugin(plugin: IndexedPlugin, buffer: Buffer | undefined): IndexedPlugin {
+  if (!buffer || !isCSharpFile(plugin)) {
+    return plugin;
+  }
+  const source = analyseCSharpSource(buffer.toString("utf8"));
+  return {
+    ...plugin,
+    plugin_name: plugin.plugin_name || source.name,
+    plugin_author: plugin.plugin_author || source.author,
+    plugin_version: plugin.plugin_version || source.version,
+    plugin_description: plugin.plugin_description || source.description,
+    source
+  };
+}
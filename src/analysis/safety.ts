@@ -0,0 +1,112 @@
+// CHANGE: Scan C# plugin sources for risky patterns before they are redistributed.
+// WHY: Announcements attach the `.cs` file, so the community receives whatever the upstream repository contains.
+// QUOTE(TЗ): "we need a scanner over the downloaded buffer that flags risky patterns: `System.Diagnostics.Process`, raw `System.Net` / `WebClient` calls, file IO outside the data directory, reflection, obfuscated base64 blobs, `Assembly.Load`."
+// REF: REQ-28
+// SOURCE: user request
+
+import { IndexedPlugin, SafetyFinding, SafetyReport, SafetyRule } from "../types.js";
+import { isCSharpFile, stripComments } from "./csharp.js";
+
+interface SafetyPattern {
+  readonly rule: SafetyRule;
+  readonly pattern: RegExp;
+  readonly allowed?: RegExp;
+}
+
+const MIN_BASE64_BLOB_LENGTH = 120;
+
+/**
+ * Risk points per rule, in the order findings are reported.
+ */
+export const RULE_WEIGHTS: Readonly<Record<SafetyRule, number>> = {
+  process: 5,
+  "assembly-load": 5,
+  network: 3,
+  reflection: 3,
+  "base64-blob": 3,
+  "file-io": 2
+};
+
+const PATTERNS: readonly SafetyPattern[] = [
+  {
+    rule: "process",
+    pattern: /\bSystem\.Diagnostics\.Process\b|\bProcess\.Start\s*\(|\bnew\s+ProcessStartInfo\b/
+  },
+  {
+    rule: "assembly-load",
+    pattern: /\bAssembly\.(?:Load|LoadFrom|LoadFile|UnsafeLoadFrom)\s*\(|\bAppDomain\.CurrentDomain\.Load\s*\(/
+  },
+  {
+    rule: "network",
+    pattern: /\bSystem\.Net\b|\b(?:WebClient|HttpClient|TcpClient|UdpClient|HttpWebRequest)\b|\bWebRequest\.Create\s*\(/
+  },
+  {
+    rule: "reflection",
+    pattern:
+      /\bSystem\.Reflection\b|\bBindingFlags\b|\bActivator\.CreateInstance\s*\(|\.(?:GetMethod|GetField|GetProperty|InvokeMember)\s*\(/
+  },
+  {
+    rule: "file-io",
+    pattern: /\b(?:System\.IO\.)?(?:File|Directory)\.\w+\s*\(|\bnew\s+(?:FileStream|StreamWriter|StreamReader|FileInfo|DirectoryInfo)\s*\(/,
+    allowed: /\bDataDirectory\b|\bDataFileSystem\b/
+  },
+  {
+    rule: "base64-blob",
+    pattern: new RegExp(`"[A-Za-z0-9+/]{${MIN_BASE64_BLOB_LENGTH},}={0,2}"`)
+  }
+];
+
+/**
+ * Scan a C# plugin source for risky patterns.
+ *
+ * Invariant: comments are ignored; file IO is only flagged on lines that do not reference
+ * the Oxide data directory, and base64 is only flagged for literals of at least
+ * 120 characters.
+ *
+ * @param source - C# source text.
+ * @returns Findings grouped by rule with the accumulated risk score.
+ */
+export function scanCSharpSource(source: string): SafetyReport {
+  const lines = stripComments(source).split("\n");
+  const matches = new Map<SafetyRule, number[]>();
+  const record = (rule: SafetyRule, line: number): void => {
+    matches.set(rule, [...(matches.get(rule) ?? []), line]);
+  };
+  lines.forEach((text, index) => {
+    for (const { rule, pattern, allowed } of PATTERNS) {
+      if (pattern.test(text) && !allowed?.test(text)) {
+        record(rule, index + 1);
+      }
+    }
+  });
+  const findings: SafetyFinding[] = (Object.keys(RULE_WEIGHTS) as SafetyRule[])
+    .filter(rule => matches.has(rule))
+    .map(rule => ({ rule, weight: RULE_WEIGHTS[rule], lines: matches.get(rule) ?? [] }));
+  return { score: findings.reduce((total, finding) => total + finding.weight, 0), findings };
+}
+
+/**
+ * Attach the safety scan of a downloaded C# source to a plugin. Non-C# files and missing
+ * buffers leave the plugin unchanged.
+ *
+ * @param plugin - Indexed plugin.
+ * @param buffer - Downloaded plugin file.
+ * @returns Plugin carrying the `safety` report.
+ */
+export function scanPlugin(plugin: IndexedPlugin, buffer: Buffer | undefined): IndexedPlugin {
+  if (!buffer || !isCSharpFile(plugin)) {
+    return plugin;
+  }
+  return { ...plugin, safety: scanCSharpSource(buffer.toString("utf8")) };
+}
+
+/**
+ * Decide whether a scanned plugin must not be announced.
+ *
+ * @param report - Safety scan result, absent for unscanned files.
+ * @param threshold - Blocking score; 0 or less disables blocking.
+ * @returns True when the score reaches the threshold.
+ */
+export function exceedsRiskThreshold(report: SafetyReport | undefined, threshold: number): boolean {
+  return threshold > 0 && report !== undefined && report.score >= threshold;
+}
@@ -4,112 +4,169 @@
 // REF: REQ-1
 // SOURCE: internal reasoning
 
-import { SOURCES } from "./config.js";
-import { debug } from "./logger.js";
-import { getBinary, getJson, head } from "./utils/http.js";
+import fs from "fs-extra";
+import { SOURCES, VALIDATION } from "./config.js";
+import { debug, info } from "./logger.js";
+import { isRemoteLocation, SourcesConfig } from "./sources.js";
+import { getBinary, getJsonConditional, head, readHttpCache } from "./utils/http.js";
 import { IndexedPlugin, DeletedRepositoriesList, JsonValue, PluginIndex } from "./types.js";
+import { snapshotEntryPath } from "./utils/snapshot-path.js";
 import { normalizeRawUrl } from "./utils/url.js";
-
-const RESERVED_KEYS = new Set([
-  "plugin_name",
-  "plugin_author",
-  "plugin_version",
-  "plugin_description",
-  "plugin_resource_id",
-  "categories",
-  "file",
-  "repository"
-]);
+import { formatProblem, validatePluginIndex, ValidationMode } from "./validation.js";
 
 function isRecord(value: JsonValue): value is { readonly [key: string]: JsonValue } {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
-function assertHasItems(value: JsonValue, url: string): asserts value is {
-  readonly items: readonly JsonValue[];
-  readonly count?: number;
-  readonly generated_at?: string;
-  readonly query?: JsonValue;
-} {
-  if (!isRecord(value) || !Array.isArray(value.items)) {
-    throw new Error(`Malformed index: ${url}`);
+/**
+ * Validate and normalise a parsed index document.
+ *
+ * @param value - Parsed JSON document.
+ * @param url - Source location used in error messages.
+ * @param mode - `strict` throws on any problem; `lenient` skips invalid items.
+ * @returns Normalised plugin index.
+ * @throws Error if the document lacks `items`, or on any problem in strict mode.
+ */
+export function toPluginIndex(value: JsonValue, url: string, mode: ValidationMode = VALIDATION.MODE): PluginIndex {
+  // CHANGE: Collect every item problem, failing only in strict mode.
+  // WHY: A single malformed item must not abort a run over 31k entries.
+  // QUOTE(TЗ): "skips only invalid items in lenient mode, fails in strict mode"
+  // REF: REQ-25
+  // SOURCE: user request
+  const { index, problems, rejected } = validatePluginIndex(value, url);
+  if (problems.length > 0 && mode === "strict") {
+    throw new Error(
+      `Index ${url} failed strict validation with ${problems.length} problems, first: ${formatProblem(problems[0])}. Run "plugins validate" for the full report.`
+    );
+  }
+  if (problems.length > 0) {
+    info(`Index ${url}: ${problems.length} schema problems, ${rejected} items skipped. Run "plugins validate" for the full report.`);
   }
+  return index;
 }
 
-function toPluginIndex(value: JsonValue, url: string): PluginIndex {
-  assertHasItems(value, url);
-  const items = value.items.map(raw => {
-    if (!isRecord(raw)) {
-      throw new Error(`Malformed plugin item in ${url}`);
-    }
-    if (!isRecord(raw.file)) {
-      throw new Error(`Missing file reference in ${url}`);
+// CHANGE: Redirect index, deleted list and plugin file reads into a local snapshot.
+// WHY: Runs must be reproducible without network.
+// QUOTE(TЗ): "Please add an option to `fetchIndex`/`fetchDeleted` to read indices from a local directory"
+// REF: REQ-22
+// SOURCE: user request
+let offlineDirectory: string | undefined;
+
+/**
+ * Serve every subsequent read from a snapshot directory, or restore network reads.
+ *
+ * @param directory - Snapshot directory written by `plugins snapshot`; omit to go online.
+ */
+export function setOfflineDirectory(directory?: string): void {
+  offlineDirectory = directory || undefined;
+}
+
+/**
+ * Active snapshot directory, if running offline.
+ *
+ * @returns Snapshot directory or undefined when online.
+ */
+export function getOfflineDirectory(): string | undefined {
+  return offlineDirectory;
+}
+
+// CHANGE: Read index documents from remote URLs or local file paths.
+// WHY: Sources may point to a local mirror instead of raw.githubusercontent.
+// QUOTE(TЗ): "We want a sources config listing any number of indices (remote URLs or local file paths)"
+// REF: REQ-21
+// SOURCE: user request
+
+/**
+ * Read a JSON document from a URL or file path, or from the snapshot when offline.
+ *
+ * @param location - Source URL or local file path.
+ * @returns Parsed document.
+ */
+export async function fetchJsonDocument(location: string): Promise<JsonValue> {
+  if (offlineDirectory) {
+    const file = snapshotEntryPath(offlineDirectory, "indices", location);
+    if (!(await fs.pathExists(file))) {
+      throw new Error(`Snapshot ${offlineDirectory} has no copy of ${location}`);
     }
-    return {
-      plugin_name: typeof raw.plugin_name === "string" ? raw.plugin_name : undefined,
-      plugin_author: typeof raw.plugin_author === "string" ? raw.plugin_author : undefined,
-      plugin_version: typeof raw.plugin_version === "string" ? raw.plugin_version : undefined,
-      plugin_description: typeof raw.plugin_description === "string" ? raw.plugin_description : undefined,
-      plugin_resource_id:
-        typeof raw.plugin_resource_id === "string" || typeof raw.plugin_resource_id === "number"
-          ? raw.plugin_resource_id
-          : undefined,
-      categories: Array.isArray(raw.categories) ? (raw.categories.filter(item => typeof item === "string") as string[]) : undefined,
-      file: {
-        path: typeof raw.file.path === "string" ? raw.file.path : undefined,
-        raw_url: typeof raw.file.raw_url === "string" ? raw.file.raw_url : undefined,
-        sha: typeof raw.file.sha === "string" ? raw.file.sha : undefined,
-        size: typeof raw.file.size === "number" ? raw.file.size : undefined
-      },
-      repository: isRecord(raw.repository)
-        ? {
-            name: typeof raw.repository.name === "string" ? raw.repository.name : undefined,
-            full_name: typeof raw.repository.full_name === "string" ? raw.repository.full_name : undefined,
-            html_url: typeof raw.repository.html_url === "string" ? raw.repository.html_url : undefined,
-            description: typeof raw.repository.description === "string" ? raw.repository.description : undefined,
-            stargazers_count:
-              typeof raw.repository.stargazers_count === "number" ? raw.repository.stargazers_count : undefined,
-            archived: typeof raw.repository.archived === "boolean" ? raw.repository.archived : undefined
-          }
-        : undefined,
-      extra: Object.fromEntries(Object.entries(raw).filter(([key]) => !RESERVED_KEYS.has(key)))
-    };
-  });
-  return {
-    generated_at: typeof value.generated_at === "string" ? value.generated_at : new Date().toISOString(),
-    query: typeof value.query === "string" ? value.query : undefined,
-    count: typeof value.count === "number" ? value.count : items.length,
-    items
-  };
+    return (await fs.readJson(file)) as JsonValue;
+  }
+  if (!isRemoteLocation(location)) {
+    const data = (await fs.readJson(location)) as JsonValue;
+    debug(`Read ${location} from disk`);
+    return data;
+  }
+  const response = await getJsonConditional<JsonValue>(location);
+  debug(
+    response.notModified ? `Served ${location} from HTTP cache (not modified)` : `Fetched ${location} with status ${response.status}`
+  );
+  return response.data;
 }
 
+// CHANGE: Identify the current revision of every index source.
+// WHY: Notify skips the run entirely when no index changed since the last one.
+// QUOTE(TЗ): "and `notify` can short-circuit entirely when no index changed since the last run."
+// REF: REQ-23
+// SOURCE: user request
+
 /**
- * Download index file and enforce schema constraints.
+ * Revision of the last fetched copy of a source: HTTP validators for URLs, mtime and size for files.
  *
- * @param url - Source URL.
+ * @param location - Source URL or local file path.
+ * @returns Revision string, or undefined when it cannot be determined (no validators, offline).
+ */
+export async function sourceRevision(location: string): Promise<string | undefined> {
+  if (offlineDirectory) {
+    return undefined;
+  }
+  if (!isRemoteLocation(location)) {
+    const stats = await fs.stat(location).catch(() => undefined);
+    return stats ? `${stats.mtimeMs}:${stats.size}` : undefined;
+  }
+  const cached = await readHttpCache(location);
+  return cached?.etag ?? cached?.lastModified;
+}
+
+/**
+ * Combined revision of all configured sources.
+ *
+ * @param sources - Configured sources.
+ * @returns Revision string, or undefined when any source lacks one.
+ */
+export async function sourcesRevision(sources: SourcesConfig): Promise<string | undefined> {
+  const locations = [...sources.indices.map(source => source.location), ...(sources.deleted ? [sources.deleted] : [])];
+  const revisions = await Promise.all(locations.map(sourceRevision));
+  if (revisions.some(revision => revision === undefined)) {
+    return undefined;
+  }
+  return locations.map((location, index) => `${location}=${revisions[index]}`).join("\n");
+}
+
+/**
+ * Download or read index file and enforce schema constraints. Offline, the snapshot copy is read.
+ *
+ * @param location - Source URL or local file path.
  * @returns Normalised plugin index.
  */
-export async function fetchIndex(url: string): Promise<PluginIndex> {
-  const response = await getJson<JsonValue>(url);
-  debug(`Fetched index ${url} with status ${response.status}`);
-  return toPluginIndex(response.data, url);
+export async function fetchIndex(location: string): Promise<PluginIndex> {
+  return toPluginIndex(await fetchJsonDocument(location), location);
 }
 
 /**
  * Retrieve optional deleted repositories list.
  *
+ * @param location - Source URL or local file path.
  * @returns Parsed list or null if unavailable.
  */
-export async function fetchDeleted(): Promise<DeletedRepositoriesList | null> {
+export async function fetchDeleted(location: string = SOURCES.DELETED): Promise<DeletedRepositoriesList | null> {
   try {
-    const response = await getJson<JsonValue>(SOURCES.DELETED);
-    if (!isRecord(response.data) || !Array.isArray(response.data.repositories)) {
+    const data = await fetchJsonDocument(location);
+    if (!isRecord(data) || !Array.isArray(data.repositories)) {
       return null;
     }
-    const repositories = response.data.repositories.filter((item): item is string => typeof item === "string");
+    const repositories = data.repositories.filter((item): item is string => typeof item === "string");
     return {
       repositories,
-      updated_at: typeof response.data.updated_at === "string" ? response.data.updated_at : undefined
+      updated_at: typeof data.updated_at === "string" ? data.updated_at : undefined
     };
   } catch (error) {
     debug(`Deleted repositories list unavailable: ${(error as Error).message}`);
@@ -151,6 +208,9 @@ export function filterDeleted(items: readonly IndexedPlugin[], deleted: DeletedR
 export async function headMeta(
   rawUrl: string
 ): Promise<{ readonly etag?: string; readonly lastModified?: string; readonly contentLength?: number; readonly contentType?: string }> {
+  if (offlineDirectory) {
+    return {};
+  }
   try {
     const response = await head(normalizeRawUrl(rawUrl));
     return {
@@ -166,12 +226,19 @@ export async function headMeta(
 }
 
 /**
- * Download plugin file payload as Buffer.
+ * Download plugin file payload as Buffer. Offline, the snapshot copy is read.
  *
  * @param rawUrl - Direct download URL.
  * @returns Buffer with plugin content.
  */
 export async function getFile(rawUrl: string): Promise<Buffer> {
+  if (offlineDirectory) {
+    const file = snapshotEntryPath(offlineDirectory, "files", normalizeRawUrl(rawUrl));
+    if (!(await fs.pathExists(file))) {
+      throw new Error(`Snapshot ${offlineDirectory} has no copy of ${rawUrl}`);
+    }
+    return fs.readFile(file);
+  }
   const response = await getBinary(normalizeRawUrl(rawUrl));
   return response.data;
 }
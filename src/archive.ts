@@ -0,0 +1,216 @@
+// CHANGE: Keep every announced version of every plugin in a content-addressed archive.
+// WHY: Upstream repositories rewrite or delete files; announced versions must stay recoverable.
+// QUOTE(TЗ): "Please add an archive store keyed by sha256 (already computed via `sha256()` in `src/utils/hashing.ts`) that writes each downloaded buffer once, with a manifest mapping plugin key → list of (sha, version, fetchedAt)."
+// REF: REQ-30
+// SOURCE: user request
+
+import path from "path";
+import fs from "fs-extra";
+import { CONTENT } from "./config.js";
+import { debug } from "./logger.js";
+import { contentBlobPath, storeContent } from "./utils/content-store.js";
+
+const MANIFEST_FILE = "manifest.jsonl";
+
+/**
+ * One archived version of a plugin file.
+ *
+ * @property sha - SHA-256 of the file content, naming its blob.
+ * @property version - Plugin version announced with the content.
+ * @property fetchedAt - ISO timestamp when the content was archived.
+ */
+export interface ArchiveVersion {
+  readonly sha: string;
+  readonly version?: string;
+  readonly fetchedAt: string;
+}
+
+/**
+ * Outcome of an archive garbage collection.
+ *
+ * @property removed - Number of deleted blobs.
+ * @property bytes - Total size of deleted blobs.
+ */
+export interface ArchiveGcResult {
+  readonly removed: number;
+  readonly bytes: number;
+}
+
+interface ManifestLine extends ArchiveVersion {
+  readonly key: string;
+}
+
+/**
+ * Archive of plugin file contents. Blobs live in the content store under `dir`; the
+ * manifest is an append-only JSON Lines file so recording a version never rewrites it.
+ *
+ * Invariant: a plugin key lists each sha at most once, in the order it was first archived.
+ */
+export class PluginArchive {
+  private manifest: Map<string, ArchiveVersion[]> | undefined;
+
+  constructor(readonly dir: string = CONTENT.DIR) {}
+
+  private manifestPath(): string {
+    return path.join(this.dir, MANIFEST_FILE);
+  }
+
+  private async load(): Promise<Map<string, ArchiveVersion[]>> {
+    if (this.manifest) {
+      return this.manifest;
+    }
+    const manifest = new Map<string, ArchiveVersion[]>();
+    if (await fs.pathExists(this.manifestPath())) {
+      const lines = (await fs.readFile(this.manifestPath(), "utf8")).split("\n");
+      for (const [index, line] of lines.entries()) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const { key, ...version } = JSON.parse(line) as ManifestLine;
+          const versions = manifest.get(key) ?? [];
+          if (!versions.some(known => known.sha === version.sha)) {
+            manifest.set(key, [...versions, version]);
+          }
+        } catch (error) {
+          throw new Error(`Malformed archive manifest ${this.manifestPath()}: line ${index + 1}: ${(error as Error).message}`);
+        }
+      }
+    }
+    this.manifest = manifest;
+    return manifest;
+  }
+
+  /**
+   * Archive a downloaded plugin file.
+   *
+   * @param key - Plugin cache key.
+   * @param buffer - File content.
+   * @param version - Plugin version announced with the content.
+   * @returns Path of the content blob.
+   */
+  async add(key: string, buffer: Buffer, version?: string): Promise<string> {
+    const manifest = await this.load();
+    const blob = await storeContent(this.dir, buffer);
+    const sha = path.basename(blob);
+    const versions = manifest.get(key) ?? [];
+    if (!versions.some(known => known.sha === sha)) {
+      const entry: ArchiveVersion = { sha, version, fetchedAt: new Date().toISOString() };
+      await fs.appendFile(this.manifestPath(), `${JSON.stringify({ key, ...entry })}\n`);
+      manifest.set(key, [...versions, entry]);
+      debug(`Archived ${key} at ${sha}.`);
+    }
+    return blob;
+  }
+
+  /**
+   * Archived plugin keys with their versions.
+   *
+   * @returns Map of plugin key to versions, oldest first.
+   */
+  async entries(): Promise<ReadonlyMap<string, readonly ArchiveVersion[]>> {
+    return this.load();
+  }
+
+  /**
+   * Versions archived for one plugin.
+   *
+   * @param key - Plugin cache key.
+   * @returns Versions, oldest first; empty when the plugin was never archived.
+   */
+  async versions(key: string): Promise<readonly ArchiveVersion[]> {
+    return (await this.load()).get(key) ?? [];
+  }
+
+  /**
+   * Copy an archived version to a file.
+   *
+   * @param key - Plugin cache key.
+   * @param reference - Version string or sha prefix; the latest version when omitted.
+   * @param target - Destination file path.
+   * @returns Restored version.
+   * @throws Error if no archived version matches or its blob is missing.
+   */
+  async restore(key: string, reference: string | undefined, target: string): Promise<ArchiveVersion> {
+    const versions = await this.versions(key);
+    const matches = reference
+      ? versions.filter(version => version.version === reference || version.sha.startsWith(reference.toLowerCase()))
+      : versions;
+    const selected = matches[matches.length - 1];
+    if (!selected) {
+      throw new Error(reference ? `No archived version ${reference} of ${key}.` : `No archived versions of ${key}.`);
+    }
+    const blob = contentBlobPath(this.dir, selected.sha);
+    if (!(await fs.pathExists(blob))) {
+      throw new Error(`Archived blob ${selected.sha} of ${key} is missing from ${this.dir}.`);
+    }
+    await fs.ensureDir(path.dirname(path.resolve(target)));
+    await fs.copy(blob, target);
+    return selected;
+  }
+
+  // CHANGE: Compact the manifest to the plugin keys still tracked in state.
+  // WHY: The manifest is append-only, so without compaction every archived blob stays referenced forever.
+  // QUOTE(TЗ): "garbage-collect blobs no longer referenced."
+  // REF: REQ-30
+  // SOURCE: review feedback
+  private async compact(live: ReadonlySet<string>): Promise<void> {
+    const manifest = await this.load();
+    const dropped = [...manifest.keys()].filter(key => !live.has(key));
+    if (dropped.length === 0) {
+      return;
+    }
+    for (const key of dropped) {
+      manifest.delete(key);
+    }
+    const lines = Array.from(manifest, ([key, versions]) =>
+      versions.map(version => `${JSON.stringify({ key, ...version })}\n`).join("")
+    );
+    const temporary = `${this.manifestPath()}.tmp`;
+    await fs.writeFile(temporary, lines.join(""));
+    await fs.move(temporary, this.manifestPath(), { overwrite: true });
+    debug(`Dropped ${dropped.length} untracked plugins from the archive manifest.`);
+  }
+
+  /**
+   * Delete blobs referenced neither by the manifest nor by `referenced`, such as blobs
+   * retained before the manifest existed or temporary files left by interrupted writes.
+   *
+   * @param referenced - Additional blob paths to keep, e.g. `contentPath` of state entries.
+   * @param live - Plugin keys still tracked; versions of other keys are first dropped from the manifest.
+   * @returns Number and size of deleted blobs.
+   */
+  async gc(referenced: Iterable<string> = [], live?: Iterable<string>): Promise<ArchiveGcResult> {
+    if (live) {
+      await this.compact(new Set(live));
+    }
+    const keep = new Set(Array.from(referenced, location => path.resolve(location)));
+    for (const versions of (await this.load()).values()) {
+      for (const version of versions) {
+        keep.add(path.resolve(contentBlobPath(this.dir, version.sha)));
+      }
+    }
+    const root = path.join(this.dir, "blobs");
+    if (!(await fs.pathExists(root))) {
+      return { removed: 0, bytes: 0 };
+    }
+    let removed = 0;
+    let bytes = 0;
+    for (const prefix of await fs.readdir(root)) {
+      const directory = path.join(root, prefix);
+      for (const name of await fs.readdir(directory)) {
+        const blob = path.join(directory, name);
+        if (keep.has(path.resolve(blob))) {
+          continue;
+        }
+        bytes += (await fs.stat(blob)).size;
+        await fs.remove(blob);
+        removed += 1;
+      }
+      if ((await fs.readdir(directory)).length === 0) {
+        await fs.remove(directory);
+      }
+    }
+    return { removed, bytes };
+  }
+}
@@ -4,44 +4,28 @@
 // REF: REQ-6
 // SOURCE: internal reasoning
 
-import fs from "fs-extra";
-import { STATE } from "./config.js";
-import { debug, info } from "./logger.js";
-import { CachedEntry, StateFile } from "./types.js";
-
-const EMPTY_STATE: StateFile = {
-  entries: {},
-  version: STATE.VERSION,
-  updatedAt: ""
-};
+import { createStateBackend, StateBackend, StateLoadOptions } from "./state/index.js";
+import { CachedEntry } from "./types.js";
 
 /**
- * Wrapper around cache persistence with atomic writes.
+ * Notification state facade delegating persistence to a pluggable backend.
  */
 export class StateCache {
-  private state: StateFile = EMPTY_STATE;
+  // CHANGE: Delegate storage to a backend instead of spread-copying the entries object on every set.
+  // WHY: Copying all entries per webhook is O(n²) across 31k plugins.
+  // QUOTE(TЗ): "Please abstract the cache behind a storage interface and add a SQLite backend (with the JSON file kept as an option)"
+  // REF: REQ-17
+  // SOURCE: user request
+  constructor(private readonly backend: StateBackend = createStateBackend()) {}
 
   /**
-   * Load cache from disk if present.
+   * Load cache from disk if present, migrating older versions.
+   *
+   * @param options - Load options; `forceReset` discards corrupted state after backing it up.
+   * @throws Error when persisted state is corrupted and no reset was forced.
    */
-  async load(): Promise<void> {
-    if (!(await fs.pathExists(STATE.PATH))) {
-      debug("Cache file absent, starting with empty state.");
-      this.state = { ...EMPTY_STATE };
-      return;
-    }
-    try {
-      const parsed = (await fs.readJson(STATE.PATH)) as StateFile;
-      if (parsed.version !== STATE.VERSION) {
-        info("Cache version mismatch, reinitialising.");
-        this.state = { ...EMPTY_STATE };
-        return;
-      }
-      this.state = parsed;
-    } catch (error) {
-      info(`Cache read failed (${(error as Error).message}), reinitialising.`);
-      this.state = { ...EMPTY_STATE };
-    }
+  async load(options: StateLoadOptions = {}): Promise<void> {
+    await this.backend.load(options);
   }
 
   /**
@@ -51,7 +35,7 @@ export class StateCache {
    * @returns Cached entry or undefined.
    */
   get(key: string): CachedEntry | undefined {
-    return this.state.entries[key];
+    return this.backend.get(key);
   }
 
   /**
@@ -60,36 +44,21 @@ export class StateCache {
    * @param entry - Entry to persist on save().
    */
   set(entry: CachedEntry): void {
-    this.state = {
-      ...this.state,
-      entries: {
-        ...this.state.entries,
-        [entry.key]: entry
-      }
-    };
+    this.backend.upsert(entry);
   }
 
   /**
-   * Persist state atomically by writing to temporary file before rename.
+   * Persist staged entries through the backend.
    */
   async save(): Promise<void> {
-    const payload: StateFile = {
-      ...this.state,
-      updatedAt: new Date().toISOString()
-    };
-    const tempPath = `${STATE.PATH}.tmp`;
-    await fs.writeJson(tempPath, payload, { spaces: 2 });
-    await fs.move(tempPath, STATE.PATH, { overwrite: true });
-    this.state = payload;
-    debug(`Cache saved with ${Object.keys(this.state.entries).length} entries.`);
+    await this.backend.flush();
   }
 
   /**
    * Remove all entries from cache and persist.
    */
   async clear(): Promise<void> {
-    this.state = { ...EMPTY_STATE };
-    await this.save();
+    await this.backend.clear();
   }
 
   /**
@@ -97,10 +66,11 @@ export class StateCache {
    *
    * @returns Count and last update timestamp.
    */
-  stats(): { readonly count: number; readonly updatedAt: string } {
+  stats(): { readonly count: number; readonly updatedAt: string; readonly backend: string } {
     return {
-      count: Object.keys(this.state.entries).length,
-      updatedAt: this.state.updatedAt
+      count: this.backend.count(),
+      updatedAt: this.backend.updatedAt(),
+      backend: this.backend.name
     };
   }
 
@@ -108,6 +78,31 @@ export class StateCache {
    * Expose immutable snapshot of entries for iteration.
    */
   entries(): ReadonlyArray<CachedEntry> {
-    return Object.values(this.state.entries);
+    return this.backend.entries();
+  }
+
+  /**
+   * Look up entries announced for a repository (case-insensitive).
+   *
+   * @param repository - Repository full name.
+   */
+  findByRepository(repository: string): ReadonlyArray<CachedEntry> {
+    return this.backend.findByRepository(repository);
+  }
+
+  /**
+   * Look up entries announced for a plugin author (case-insensitive).
+   *
+   * @param author - Plugin author.
+   */
+  findByAuthor(author: string): ReadonlyArray<CachedEntry> {
+    return this.backend.findByAuthor(author);
+  }
+
+  /**
+   * Release backend resources such as database handles.
+   */
+  close(): void {
+    this.backend.close();
   }
 }
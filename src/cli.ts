@@ -4,28 +4,93 @@
 // REF: REQ-7
 // SOURCE: internal reasoning
 
-import { Command } from "commander";
+import path from "path";
+import { Command, InvalidArgumentError, Option } from "commander";
+import sanitize from "sanitize-filename";
 import { AxiosError } from "axios";
-import { fetchDeleted, fetchIndex, filterDeleted, getFile } from "./api.js";
+import {
+  fetchDeleted,
+  fetchIndex,
+  fetchJsonDocument,
+  filterDeleted,
+  getFile,
+  getOfflineDirectory,
+  setOfflineDirectory,
+  sourcesRevision
+} from "./api.js";
 import { StateCache } from "./cache.js";
-import { DISCORD, FLAGS, SOURCES } from "./config.js";
-import { mergeIndices } from "./merger.js";
+import fs from "fs-extra";
+import { StateLoadOptions } from "./state/index.js";
+import {
+  filterStateEntries,
+  findStateEntry,
+  groupStateEntries,
+  parseQueryDate,
+  StateGroupBy,
+  stateEntryRow
+} from "./state/query.js";
+import { mergeStates, parseState, resolveStateFormat, serializeState, StateConflict } from "./state/transfer.js";
+import { CONTENT, DISCORD, FLAGS, IDENTITY, NET, OFFLINE, SAFETY, VALIDATION } from "./config.js";
+import { computeDelta, DiffItem } from "./diff.js";
+import { buildDigestIndexAttachment, buildDigestSummaryEmbed, DigestGrouping, planDigest } from "./digest.js";
+import { PluginArchive } from "./archive.js";
+import { evaluateFilters, FilterConfig, loadFilterConfig } from "./filters.js";
+import { summariseSourceChange } from "./analysis/changelog.js";
+import { enrichPlugin, isCSharpFile } from "./analysis/csharp.js";
+import { exceedsRiskThreshold, scanPlugin } from "./analysis/safety.js";
+import { IdentityResolution, resolveIdentities, withAliases } from "./identity.js";
+import { describeRunJournal, readRunJournal, RunJournal } from "./journal.js";
+import { buildIndexDiffEmbed, diffIndices, formatIndexDiff, indexDiffReport } from "./index-diff.js";
+import { mergeIndexList } from "./merger.js";
+import { findRetractions, processPrune, PruneMode } from "./prune.js";
+import { createSnapshot, loadSnapshotSources, resolveSnapshotDirectory } from "./snapshot.js";
+import { isRemoteLocation, loadSourcesConfig, SourcesConfig } from "./sources.js";
+import { ShutdownController } from "./shutdown.js";
+import { rateLimitSummary } from "./notifiers/discord-rate-limit.js";
 import { debug, error as logError, info } from "./logger.js";
-import { IndexedPlugin } from "./types.js";
+import {
+  createConfiguredNotifiers,
+  deliveredDestinations,
+  dispatchNotification,
+  mergeDeliveries,
+  Notifier,
+  pendingNotifiers
+} from "./notifiers/index.js";
+import { CachedEntry, DeletedRepositoriesList, DeliveryReceipt, IndexedPlugin, PluginIndex } from "./types.js";
+import { readContent } from "./utils/content-store.js";
+import { pluginFingerprint } from "./utils/plugin-fingerprint.js";
 import { pluginKey } from "./utils/plugin-key.js";
+import { repositoryFromRawUrl } from "./utils/url.js";
 import { sha256 } from "./utils/hashing.js";
-import { sendPluginWebhook } from "./webhook.js";
+import { orderedPipeline, PipelineLimits } from "./utils/pipeline.js";
+import { classifyVersionChange } from "./utils/version.js";
+import { formatProblem, validatePluginIndex, ValidationMode } from "./validation.js";
+import {
+  AnnouncementContext,
+  AttachmentPayload,
+  buildEmbed,
+  MAX_EMBEDS_PER_MESSAGE,
+  sendDiscordEmbeds
+} from "./webhook.js";
+
+function activeSources(): SourcesConfig {
+  const offlineDirectory = getOfflineDirectory();
+  return offlineDirectory ? loadSnapshotSources(offlineDirectory) : loadSourcesConfig();
+}
 
 /**
- * Fetch, merge, and filter plugin indices according to specification.
+ * Fetch and merge the configured indices without applying the deleted repositories filter.
  *
- * @returns Array of plugins to upload sequentially.
+ * @param sources - Sources to merge; defaults to the snapshot sources offline, otherwise the configured ones.
+ * @returns Merged index and the optional deleted repositories list.
  */
-export async function fetchAndMergeIndices(): Promise<IndexedPlugin[]> {
-  const [oxide, crawled, deleted] = await Promise.all([
-    fetchIndex(SOURCES.OXIDE),
-    fetchIndex(SOURCES.CRAWLED),
-    fetchDeleted()
+export async function fetchMergedIndex(sources: SourcesConfig = activeSources()): Promise<{
+  readonly merged: PluginIndex;
+  readonly deleted: DeletedRepositoriesList | null;
+}> {
+  const [indices, deleted] = await Promise.all([
+    Promise.all(sources.indices.map(async source => ({ name: source.name, index: await fetchIndex(source.location) }))),
+    sources.deleted ? fetchDeleted(sources.deleted) : Promise.resolve(null)
   ]);
   // CHANGE: Log upstream index fetch counts for observability.
   // WHY: Enhances runtime visibility into source sizes as part of logging invariant.
@@ -33,14 +98,198 @@ export async function fetchAndMergeIndices(): Promise<IndexedPlugin[]> {
   // REF: REQ-9
   // SOURCE: internal reasoning
   debug(
-    `Fetched indices: oxide=${oxide.count} crawled=${crawled.count} deleted=${deleted?.repositories.length ?? 0}`
+    `Fetched indices: ${indices.map(({ name, index }) => `${name}=${index.count}`).join(" ")} deleted=${deleted?.repositories.length ?? 0}`
   );
-  const merged = mergeIndices(oxide, crawled);
+  return { merged: mergeIndexList(indices), deleted };
+}
+
+/**
+ * Fetch, merge, and filter plugin indices according to specification.
+ *
+ * @param sources - Sources to merge; defaults to the active ones.
+ * @returns Array of plugins to upload sequentially.
+ */
+export async function fetchAndMergeIndices(sources?: SourcesConfig): Promise<IndexedPlugin[]> {
+  const { merged, deleted } = await fetchMergedIndex(sources);
   const filteredItems = filterDeleted(merged.items, deleted);
   info(`Fetched ${filteredItems.length} plugins after merge and filtering.`);
   return filteredItems;
 }
 
+interface DownloadedPluginFile {
+  readonly allowsAttachment: boolean;
+  readonly buffer?: Buffer;
+  readonly contentHash?: string;
+}
+
+function allowsAttachmentDownload(rawUrl: string): boolean {
+  return !FLAGS.ONLY_CS_ATTACHMENTS || rawUrl.toLowerCase().endsWith(".cs");
+}
+
+async function downloadPluginFile(rawUrl: string): Promise<DownloadedPluginFile> {
+  const allowsAttachment = allowsAttachmentDownload(rawUrl);
+  if (!allowsAttachment) {
+    return { allowsAttachment };
+  }
+  try {
+    const buffer = await getFile(rawUrl);
+    return { allowsAttachment, buffer, contentHash: sha256(buffer) };
+  } catch (error) {
+    logError(`Download failed for ${rawUrl}: ${(error as Error).message}`);
+    return { allowsAttachment };
+  }
+}
+
+// CHANGE: Hand the full download to notifiers instead of applying the Discord size limit here.
+// WHY: Each sink enforces its own attachment rules.
+// QUOTE(TЗ): "each with its own attachment rules and rate-limit handling"
+// REF: REQ-12
+// SOURCE: user request
+function toAttachment(plugin: IndexedPlugin, buffer: Buffer | undefined): AttachmentPayload | undefined {
+  const candidateName = plugin.file.path
+    ? plugin.file.path.split("/").pop() ?? "plugin"
+    : plugin.plugin_name ?? "plugin";
+  const attachmentName = candidateName.toLowerCase().endsWith(".cs") ? candidateName : `${candidateName}.cs`;
+  return buffer ? { name: attachmentName, buffer } : undefined;
+}
+
+function logWebhookFailure(rawUrl: string, error: unknown): void {
+  const axiosError = error as AxiosError;
+  const status = axiosError.response?.status;
+  const statusText = axiosError.response?.statusText;
+  const responseBody = axiosError.response?.data;
+  logError(
+    `Webhook failed for ${rawUrl}: status ${status ?? "unknown"}${statusText ? ` ${statusText}` : ""} - ${axiosError.message}`
+  );
+  if (responseBody) {
+    debug(`Webhook response body: ${typeof responseBody === "string" ? responseBody : JSON.stringify(responseBody)}`);
+  }
+}
+
+// CHANGE: Withhold announcements whose source scan reaches the configured risk threshold.
+// WHY: Attachments are redistributed to the community as-is.
+// QUOTE(TЗ): "with a configurable policy to block announcements above a risk threshold."
+// REF: REQ-28
+// SOURCE: user request
+function blockedBySafetyPolicy(plugin: IndexedPlugin, rawUrl: string): boolean {
+  const report = plugin.safety;
+  if (!report || report.findings.length === 0 || !exceedsRiskThreshold(report, SAFETY.BLOCK_SCORE)) {
+    return false;
+  }
+  const rules = report.findings.map(finding => finding.rule).join(", ");
+  info(`Blocking ${rawUrl}: risk score ${report.score} reaches threshold ${SAFETY.BLOCK_SCORE} (${rules})`);
+  return true;
+}
+
+function safetyFields(plugin: IndexedPlugin): Pick<CachedEntry, "riskScore" | "riskFindings"> {
+  return {
+    riskScore: plugin.safety?.score,
+    riskFindings: plugin.safety?.findings.map(finding => finding.rule)
+  };
+}
+
+// CHANGE: Store blocked plugins with their scan result instead of forgetting them.
+// WHY: Blocked plugins were downloaded, scanned and logged again on every run.
+// QUOTE(TЗ): "Results should appear as a warning field in the embed and be stored in the state"
+// REF: REQ-28
+// SOURCE: user request
+function blockedEntry(
+  key: string,
+  plugin: IndexedPlugin,
+  enriched: IndexedPlugin,
+  contentHash: string | undefined,
+  previous: CachedEntry | undefined
+): CachedEntry {
+  const blockedAt = new Date().toISOString();
+  const recorded: CachedEntry = previous ?? {
+    key,
+    notifiedAt: blockedAt,
+    destinations: [],
+    repository: plugin.repository?.full_name,
+    metadataHash: pluginFingerprint(plugin),
+    pluginName: enriched.plugin_name,
+    pluginAuthor: enriched.plugin_author
+  };
+  return { ...recorded, fileSha: plugin.file.sha, contentHash, ...safetyFields(enriched), blockedAt };
+}
+
+/**
+ * Whether the plugin file is still the one the safety policy blocked.
+ *
+ * @param entry - Cached entry of the plugin.
+ * @param plugin - Indexed plugin.
+ * @returns True while the index reports the blocked file; without a sha the metadata fingerprint decides.
+ */
+function stillBlocked(entry: CachedEntry | undefined, plugin: IndexedPlugin): boolean {
+  if (!entry?.blockedAt) {
+    return false;
+  }
+  return plugin.file.sha ? entry.fileSha === plugin.file.sha : entry.metadataHash === pluginFingerprint(plugin);
+}
+
+// CHANGE: Archive announced files and summarise updates against the archived previous version.
+// WHY: Update announcements show the release kind and what changed in the source.
+// QUOTE(TЗ): "include a unified diff summary of the `.cs` (lines added/removed, changed method names) against the previously stored content."
+// REF: REQ-29
+// SOURCE: user request
+const archives = new Map<string, PluginArchive>();
+
+function openArchive(dir: string): PluginArchive {
+  const archive = archives.get(dir) ?? new PluginArchive(dir);
+  archives.set(dir, archive);
+  return archive;
+}
+
+async function retainContent(
+  key: string,
+  version: string | undefined,
+  buffer: Buffer | undefined,
+  dir: string = CONTENT.DIR
+): Promise<string | undefined> {
+  if (!buffer || !dir) {
+    return undefined;
+  }
+  try {
+    return await openArchive(dir).add(key, buffer, version);
+  } catch (error) {
+    logError(`Unable to archive ${key} in ${dir}: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+async function announcementContext(item: DiffItem, plugin: IndexedPlugin, buffer: Buffer | undefined): Promise<AnnouncementContext> {
+  const { reason, previous } = item;
+  if (reason !== "updated") {
+    return { reason, previousVersion: previous?.pluginVersion };
+  }
+  const before = isCSharpFile(plugin) && buffer ? await readContent(previous?.contentPath) : undefined;
+  return {
+    reason,
+    previousVersion: previous?.pluginVersion,
+    versionChange: classifyVersionChange(previous?.pluginVersion, plugin.plugin_version),
+    changes: before && buffer ? summariseSourceChange(before.toString("utf8"), buffer.toString("utf8")) : undefined
+  };
+}
+
+function owedNotifiers(
+  notifiers: readonly Notifier[],
+  cached: ReadonlyMap<string, CachedEntry>,
+  plugin: IndexedPlugin
+): Notifier[] {
+  const entry = cached.get(pluginKey(plugin));
+  return stillBlocked(entry, plugin) ? [] : pendingNotifiers(notifiers, plugin, deliveredDestinations(entry));
+}
+
+// CHANGE: Let long-running loops journal each plugin and stop between plugins on a shutdown request.
+// WHY: A signal mid-webhook must neither lose the in-flight plugin nor leave state unflushed.
+// QUOTE(TЗ): "signal handling that finishes or aborts the current item cleanly, flushes `StateCache`"
+// REF: REQ-35
+// SOURCE: user request
+interface RunControl {
+  readonly journal?: RunJournal;
+  readonly shutdown?: { readonly requested: boolean };
+}
+
 // CHANGE: Sequentially upload every unseen plugin while resuming from cache.
 // WHY: Requirement mandates uploading remaining plugins while skipping those already processed.
 // QUOTE(TЗ): "Если мы плагин загружали и он есть в состоянии то мы его пропускаем."
@@ -48,100 +297,123 @@ export async function fetchAndMergeIndices(): Promise<IndexedPlugin[]> {
 // SOURCE: user request
 export async function processAllPluginsSequentially(
   plugins: readonly IndexedPlugin[],
-  state: Pick<StateCache, "entries" | "set" | "save">
-): Promise<void> {
-  const processedKeys = new Set(state.entries().map(entry => entry.key));
-  const pending = plugins.filter(plugin => {
-    const rawUrl = plugin.file.raw_url;
-    return rawUrl ? !processedKeys.has(pluginKey(plugin)) : false;
-  });
+  state: Pick<StateCache, "entries" | "set" | "save">,
+  notifiers: readonly Notifier[] = createConfiguredNotifiers(),
+  run: RunControl = {},
+  limits: PipelineLimits = { depth: NET.PIPELINE_DEPTH, maxBytes: NET.PIPELINE_MAX_BYTES }
+): Promise<ReadonlySet<string>> {
+  // CHANGE: Treat a plugin as pending while any accepting destination has not received it.
+  // WHY: A newly configured channel is backfilled without re-posting to channels that already have the plugin.
+  // QUOTE(TЗ): "The state cache should track delivery per destination so adding a new channel backfills only that channel without re-spamming the existing ones."
+  // REF: REQ-13
+  // SOURCE: user request
+  const cached = new Map(state.entries().map(entry => [entry.key, entry] as const));
+  const uploadable = plugins.filter(plugin => Boolean(plugin.file.raw_url));
+  const pending = uploadable.filter(plugin => owedNotifiers(notifiers, cached, plugin).length > 0);
 
+  // CHANGE: Report plugins whose file could not be downloaded.
+  // WHY: Dead files must not keep the notify marker from being written.
+  // QUOTE(TЗ): "count only webhook delivery failures as outstanding"
+  // REF: REQ-23
+  // SOURCE: review feedback
+  const unavailable = new Set<string>();
   if (pending.length === 0) {
     info("Sequential upload complete: no pending plugins to send.");
     await state.save();
-    return;
+    return unavailable;
   }
 
-  const processedBefore = processedKeys.size;
+  const processedBefore = uploadable.length - pending.length;
   info(
     `Sequential upload starting for ${pending.length} pending plugins (processed ${processedBefore}, total indexed ${plugins.length}).`
   );
-  let index = 0;
-  let uploaded = 0;
-  for (const plugin of plugins) {
-    const rawUrl = plugin.file.raw_url;
-    if (!rawUrl) {
+  // CHANGE: Download upcoming plugins while earlier ones are being announced.
+  // WHY: Waiting for each webhook before the next download doubled the run time over 31k plugins.
+  // QUOTE(TЗ): "downloads (and hashing) proceed ahead using the existing `NET.CONCURRENCY` limiter into a bounded buffer while webhook delivery stays strictly in index order"
+  // REF: REQ-34
+  // SOURCE: user request
+  const queue = plugins.filter(plugin => {
+    if (!plugin.file.raw_url) {
       logError(`Skipping plugin without raw URL: ${pluginKey(plugin)}`);
-      continue;
+      return false;
     }
-    const key = pluginKey(plugin);
-    if (processedKeys.has(key)) {
+    if (owedNotifiers(notifiers, cached, plugin).length === 0) {
       // CHANGE: Skip plugins already in cache to resume from last checkpoint.
       // WHY: Ensures previously delivered plugins are not re-uploaded.
       // QUOTE(TЗ): "Если мы плагин загружали и он есть в состоянии то мы его пропускаем."
       // REF: REQ-10
       // SOURCE: user request
-      debug(`Skipping cached plugin ${key}`);
-      continue;
+      debug(`Skipping cached plugin ${pluginKey(plugin)}`);
+      return false;
+    }
+    return true;
+  });
+  const downloads = orderedPipeline(
+    queue,
+    async plugin => ({ plugin, download: await downloadPluginFile(plugin.file.raw_url ?? "") }),
+    limits,
+    ({ download }) => download.buffer?.byteLength ?? 0,
+    plugin => (allowsAttachmentDownload(plugin.file.raw_url ?? "") ? plugin.file.size ?? 0 : 0)
+  );
+
+  let index = 0;
+  let uploaded = 0;
+  for await (const { plugin, download } of downloads) {
+    const rawUrl = plugin.file.raw_url ?? "";
+    if (run.shutdown?.requested) {
+      info(`Shutdown requested; stopping before ${rawUrl}.`);
+      break;
     }
+    const key = pluginKey(plugin);
+    const previous = cached.get(key);
+    const targets = owedNotifiers(notifiers, cached, plugin);
 
     index += 1;
 
     info(`Uploading ${processedBefore + index}/${plugins.length}: ${rawUrl}`);
 
-    let attachmentBuffer: Buffer | undefined;
-    let contentHash: string | undefined;
-    const allowsAttachment = !FLAGS.ONLY_CS_ATTACHMENTS || rawUrl.toLowerCase().endsWith(".cs");
-
-    if (allowsAttachment) {
-      try {
-        attachmentBuffer = await getFile(rawUrl);
-        contentHash = sha256(attachmentBuffer);
-      } catch (error) {
-        logError(`Download failed for ${rawUrl}: ${(error as Error).message}`);
-        attachmentBuffer = undefined;
-        contentHash = undefined;
-      }
-    }
-
     // CHANGE: Skip plugins when file download fails to avoid Discord spam.
     // WHY: If file can't be downloaded, there's no point in sending a notification.
     // QUOTE(TЗ): "Ошибка 404 и тд просто скип"
     // REF: User request to skip failed downloads
     // SOURCE: User feedback on webhook handling
-    if (allowsAttachment && !attachmentBuffer) {
+    if (download.allowsAttachment && !download.buffer) {
       info(`Skipping ${rawUrl}: unable to download plugin file`);
+      unavailable.add(key);
+      await run.journal?.record(key, "skipped");
       continue;
     }
 
-    const candidateName = plugin.file.path
-      ? plugin.file.path.split("/").pop() ?? "plugin"
-      : plugin.plugin_name ?? "plugin";
-    const attachmentName = candidateName.toLowerCase().endsWith(".cs") ? candidateName : `${candidateName}.cs`;
-    const safeBuffer =
-      attachmentBuffer && attachmentBuffer.byteLength <= DISCORD.MAX_ATTACHMENT_BYTES ? attachmentBuffer : undefined;
-
-    if (attachmentBuffer && !safeBuffer) {
-      debug(`Attachment exceeds limit for ${rawUrl}; sending embed without file.`);
+    const attachment = toAttachment(plugin, download.buffer);
+    const enriched = scanPlugin(enrichPlugin(plugin, download.buffer), download.buffer);
+    if (blockedBySafetyPolicy(enriched, rawUrl)) {
+      state.set(blockedEntry(key, plugin, enriched, download.contentHash, previous));
+      await state.save();
+      await run.journal?.record(key, "skipped");
+      continue;
     }
 
     try {
-      await sendPluginWebhook(
-        plugin,
-        safeBuffer
-          ? {
-              name: attachmentName,
-              buffer: safeBuffer
-            }
-          : undefined
-      );
+      await run.journal?.begin(key);
+      const sent = await dispatchNotification(targets, enriched, attachment);
+      const contentPath = (await retainContent(key, enriched.plugin_version, download.buffer)) ?? previous?.contentPath;
 
       state.set({
+        ...previous,
         key,
         notifiedAt: new Date().toISOString(),
-        contentHash,
+        contentHash: download.contentHash,
         fileSha: plugin.file.sha,
-        fileSize: safeBuffer?.byteLength ?? plugin.file.size
+        fileSize: attachment?.buffer.byteLength ?? plugin.file.size,
+        pluginVersion: enriched.plugin_version,
+        repository: plugin.repository?.full_name,
+        metadataHash: pluginFingerprint(plugin),
+        pluginName: enriched.plugin_name,
+        pluginAuthor: enriched.plugin_author,
+        ...safetyFields(enriched),
+        contentPath,
+        blockedAt: undefined,
+        ...mergeDeliveries(previous, sent)
       });
 
       // CHANGE: Persist state after each successful upload to ensure cache exists even mid-run.
@@ -150,8 +422,8 @@ export async function processAllPluginsSequentially(
       // REF: REQ-6, REQ-10
       // SOURCE: user request
       await state.save();
+      await run.journal?.record(key, "delivered");
       uploaded += 1;
-      processedKeys.add(key);
 
       if (index % 100 === 0 || index === pending.length) {
         debug(
@@ -159,77 +431,1029 @@ export async function processAllPluginsSequentially(
         );
       }
     } catch (error) {
-      const axiosError = error as AxiosError;
-      const status = axiosError.response?.status;
-      const statusText = axiosError.response?.statusText;
-      const responseBody = axiosError.response?.data;
-      logError(
-        `Webhook failed for ${rawUrl}: status ${status ?? "unknown"}${statusText ? ` ${statusText}` : ""} - ${axiosError.message}`
-      );
-      if (responseBody) {
-        debug(`Webhook response body: ${typeof responseBody === "string" ? responseBody : JSON.stringify(responseBody)}`);
-      }
+      logWebhookFailure(rawUrl, error);
+      await run.journal?.record(key, "failed");
       // Continue without recording state so the plugin is retried on next run.
       continue;
     }
   }
 
-  if (uploaded === 0) {
+  if (uploaded === 0 || run.shutdown?.requested) {
+    await state.save();
+  }
+  info(run.shutdown?.requested ? `Sequential upload stopped after ${uploaded} deliveries.` : "Sequential upload complete.");
+  info(rateLimitSummary());
+  return unavailable;
+}
+
+// CHANGE: Announce new and changed plugins from computeDelta, persisting HTTP markers for the next run.
+// WHY: Notify mode only uploads unseen keys, so content changes were never re-announced.
+// QUOTE(TЗ): "We need a notify mode that re-announces plugins whose content actually changed, using `computeDelta` plus a sha256 check when `requiresContentHashCheck` is set"
+// REF: REQ-11
+// SOURCE: user request
+export async function processDeltaSequentially(
+  items: readonly DiffItem[],
+  state: Pick<StateCache, "set" | "save">,
+  notifiers: readonly Notifier[] = createConfiguredNotifiers(),
+  run: RunControl = {}
+): Promise<void> {
+  if (items.length === 0) {
+    info("Watch complete: no new or changed plugins detected.");
+    return;
+  }
+  const updatedCount = items.filter(item => item.reason === "updated").length;
+  info(`Watch starting for ${items.length} plugins (new ${items.length - updatedCount}, updated ${updatedCount}).`);
+
+  let announced = 0;
+  for (const [position, item] of items.entries()) {
+    const { plugin, cacheKey, metadata, previous } = item;
+    // A blocked entry that never reached any destination is announced as new once it passes.
+    const reason = previous && deliveredDestinations(previous).length === 0 ? "new" : item.reason;
+    if (run.shutdown?.requested) {
+      info(`Shutdown requested; stopping before ${cacheKey}.`);
+      break;
+    }
+    const rawUrl = plugin.file.raw_url;
+    if (!rawUrl) {
+      logError(`Skipping plugin without raw URL: ${cacheKey}`);
+      continue;
+    }
+
+    const download = await downloadPluginFile(rawUrl);
+    if (download.allowsAttachment && !download.buffer) {
+      info(`Skipping ${rawUrl}: unable to download plugin file`);
+      continue;
+    }
+
+    if (metadata.requiresContentHashCheck && previous) {
+      if (!download.contentHash || download.contentHash === previous.contentHash) {
+        debug(`Content hash unchanged or unavailable for ${cacheKey}, skipping announcement.`);
+        // Keep the refreshed HTTP markers so the next watch does not download the file again.
+        state.set({ ...previous, etag: metadata.etag, lastModified: metadata.lastModified });
+        await state.save();
+        continue;
+      }
+      debug(`Content hash differs for ${cacheKey}, announcing update.`);
+    }
+
+    const targets = pendingNotifiers(notifiers, plugin, []);
+    if (targets.length === 0) {
+      debug(`No notifier accepts ${cacheKey}, skipping announcement.`);
+      continue;
+    }
+
+    info(`Announcing ${reason} plugin ${position + 1}/${items.length}: ${rawUrl}`);
+    const attachment = toAttachment(plugin, download.buffer);
+    const enriched = scanPlugin(enrichPlugin(plugin, download.buffer), download.buffer);
+    if (blockedBySafetyPolicy(enriched, rawUrl)) {
+      state.set({
+        ...blockedEntry(cacheKey, plugin, enriched, download.contentHash, previous),
+        etag: metadata.etag,
+        lastModified: metadata.lastModified
+      });
+      await state.save();
+      continue;
+    }
+
+    try {
+      const context = await announcementContext({ ...item, reason }, enriched, download.buffer);
+      const sent = await dispatchNotification(targets, enriched, attachment, context, previous?.receipts);
+      const contentPath =
+        (await retainContent(cacheKey, enriched.plugin_version, download.buffer)) ?? previous?.contentPath;
+      state.set({
+        ...previous,
+        key: cacheKey,
+        notifiedAt: new Date().toISOString(),
+        etag: metadata.etag,
+        lastModified: metadata.lastModified,
+        contentHash: download.contentHash,
+        fileSha: plugin.file.sha,
+        fileSize: metadata.contentLength ?? attachment?.buffer.byteLength ?? plugin.file.size,
+        pluginVersion: enriched.plugin_version,
+        repository: plugin.repository?.full_name,
+        metadataHash: pluginFingerprint(plugin),
+        pluginName: enriched.plugin_name,
+        pluginAuthor: enriched.plugin_author,
+        ...safetyFields(enriched),
+        contentPath,
+        announcement: context,
+        blockedAt: undefined,
+        ...mergeDeliveries(previous, sent)
+      });
+      await state.save();
+      announced += 1;
+    } catch (error) {
+      logWebhookFailure(rawUrl, error);
+    }
+  }
+  info(`Watch complete: announced ${announced}/${items.length} plugins.`);
+  info(rateLimitSummary());
+}
+
+// CHANGE: Edit delivered messages whose plugin metadata changed instead of reposting.
+// WHY: Stars, description and version drift after the announcement.
+// QUOTE(TЗ): "add a mode that PATCHes `/webhooks/{id}/{token}/messages/{message_id}` with a refreshed embed and attachment"
+// REF: REQ-15
+// SOURCE: user request
+export async function processRefreshSequentially(
+  plugins: readonly IndexedPlugin[],
+  state: Pick<StateCache, "entries" | "set" | "save">,
+  notifiers: readonly Notifier[] = createConfiguredNotifiers(),
+  run: RunControl = {}
+): Promise<void> {
+  const cached = new Map(state.entries().map(entry => [entry.key, entry] as const));
+  let refreshed = 0;
+  for (const plugin of plugins) {
+    if (run.shutdown?.requested) {
+      info(`Shutdown requested; stopping before ${pluginKey(plugin)}.`);
+      break;
+    }
+    const rawUrl = plugin.file.raw_url;
+    const previous = cached.get(pluginKey(plugin));
+    if (!rawUrl || !previous) {
+      continue;
+    }
+    const fingerprint = pluginFingerprint(plugin);
+    if (previous.metadataHash === fingerprint) {
+      continue;
+    }
+    const editable = notifiers.filter(notifier => notifier.edit && previous.receipts?.[notifier.name]?.messageId);
+    if (editable.length === 0) {
+      debug(`No editable message recorded for ${previous.key}, skipping refresh.`);
+      continue;
+    }
+
+    const download = await downloadPluginFile(rawUrl);
+    const attachment = toAttachment(plugin, download.buffer);
+    const enriched = scanPlugin(enrichPlugin(plugin, download.buffer), download.buffer);
+    const receipts: Record<string, DeliveryReceipt> = { ...previous.receipts };
+    let edited = false;
+    for (const notifier of editable) {
+      const receipt = receipts[notifier.name] ?? {};
+      try {
+        receipts[notifier.name] = (await notifier.edit?.(enriched, attachment, receipt, previous.announcement)) ?? receipt;
+        edited = true;
+      } catch (error) {
+        logWebhookFailure(rawUrl, error);
+      }
+    }
+    if (!edited) {
+      continue;
+    }
+    state.set({
+      ...previous,
+      contentPath: (await retainContent(previous.key, enriched.plugin_version, download.buffer)) ?? previous.contentPath,
+      contentHash: download.contentHash ?? previous.contentHash,
+      pluginVersion: enriched.plugin_version,
+      repository: plugin.repository?.full_name,
+      pluginName: enriched.plugin_name,
+      pluginAuthor: enriched.plugin_author,
+      ...safetyFields(enriched),
+      metadataHash: fingerprint,
+      receipts
+    });
+    await state.save();
+    refreshed += 1;
+  }
+  info(`Refresh complete: edited messages for ${refreshed} plugins.`);
+  info(rateLimitSummary());
+}
+
+// CHANGE: Delete delivered messages of plugins whose repository was deleted upstream.
+// WHY: filterDeleted only prevents new announcements; existing messages stayed visible.
+// QUOTE(TЗ): "plus a command to delete messages for plugins whose repositories appear in `deleted_repositories.json`."
+// REF: REQ-15
+// SOURCE: user request
+export async function deleteMessagesForDeleted(
+  deleted: DeletedRepositoriesList,
+  state: Pick<StateCache, "entries" | "set" | "save">,
+  notifiers: readonly Notifier[] = createConfiguredNotifiers()
+): Promise<void> {
+  const banned = new Set(deleted.repositories.map(entry => entry.toLowerCase()));
+  let removed = 0;
+  for (const entry of state.entries()) {
+    const repository = entry.repository ?? repositoryFromRawUrl(entry.key);
+    if (!repository || !banned.has(repository.toLowerCase()) || !entry.receipts) {
+      continue;
+    }
+    const receipts: Record<string, DeliveryReceipt> = { ...entry.receipts };
+    for (const notifier of notifiers) {
+      const receipt = receipts[notifier.name];
+      if (!notifier.remove || !receipt?.messageId) {
+        continue;
+      }
+      try {
+        await notifier.remove(receipt);
+        delete receipts[notifier.name];
+        removed += 1;
+      } catch (error) {
+        logWebhookFailure(entry.key, error);
+      }
+    }
+    if (Object.keys(receipts).length === Object.keys(entry.receipts).length) {
+      continue;
+    }
+    state.set({ ...entry, receipts: Object.keys(receipts).length > 0 ? receipts : undefined });
+    await state.save();
+  }
+  info(`Deleted ${removed} messages for plugins from deleted repositories.`);
+}
+
+// CHANGE: Thread `--force-reset` into state loading for every command.
+// WHY: Corrupted state must stop the run unless a reset is explicitly requested.
+// QUOTE(TЗ): "refuses to start (rather than reset) when the file is corrupted unless an explicit `--force-reset` is passed."
+// REF: REQ-18
+// SOURCE: user request
+async function openState(options: StateLoadOptions): Promise<StateCache> {
+  const state = new StateCache();
+  await state.load(options);
+  return state;
+}
+
+function stateOptions(command: Command): StateLoadOptions {
+  return { forceReset: command.optsWithGlobals<{ readonly forceReset?: boolean }>().forceReset === true };
+}
+
+// CHANGE: Remember the index revision of the last completed notify run.
+// WHY: Notify short-circuits when neither the indices nor the state changed since then.
+// QUOTE(TЗ): "and `notify` can short-circuit entirely when no index changed since the last run."
+// REF: REQ-23
+// SOURCE: user request
+interface NotifyMarker {
+  readonly revision: string;
+  readonly filters?: string;
+  readonly settings?: string;
+  readonly entries: number;
+  readonly completedAt: string;
+}
+
+function notifyMarkerPath(): string | undefined {
+  return NET.CACHE_DIR ? path.join(NET.CACHE_DIR, "notify-run.json") : undefined;
+}
+
+async function readNotifyMarker(): Promise<NotifyMarker | undefined> {
+  const file = notifyMarkerPath();
+  return file ? ((await fs.readJson(file).catch(() => undefined)) as NotifyMarker | undefined) : undefined;
+}
+
+async function writeNotifyMarker(marker: NotifyMarker): Promise<void> {
+  const file = notifyMarkerPath();
+  if (file) {
+    await fs.outputJson(file, marker, { spaces: 2 });
+  }
+}
+
+// CHANGE: Key the notify marker on the delivery settings as well as the indices.
+// WHY: A new notifier, route, safety threshold or dedupe toggle must backfill existing entries.
+// QUOTE(TЗ): "Include the configured notifier/route set plus the safety and dedupe settings in the marker key."
+// REF: REQ-23
+// SOURCE: review feedback
+async function notifySettingsRevision(notifiers: readonly Notifier[]): Promise<string> {
+  const routes = DISCORD.ROUTES_PATH ? await fs.readFile(DISCORD.ROUTES_PATH, "utf8") : undefined;
+  const settings = {
+    notifiers: notifiers.map(notifier => notifier.name),
+    routes,
+    safety: SAFETY.BLOCK_SCORE,
+    dedupe: IDENTITY.DEDUPE
+  };
+  return sha256(Buffer.from(JSON.stringify(settings)));
+}
+
+// CHANGE: Skip or group forks and mirrors of the same plugin before announcing.
+// WHY: The same plugin mirrored in dozens of forks was announced dozens of times.
+// QUOTE(TЗ): "picks a canonical entry (e.g. most stars, not archived), and records aliases in the state so forks of already-announced plugins are skipped or grouped."
+// REF: REQ-26
+// SOURCE: user request
+function dedupeForks(plugins: readonly IndexedPlugin[], state: StateCache): IdentityResolution {
+  if (!IDENTITY.DEDUPE) {
+    return { plugins, aliases: new Map() };
+  }
+  const resolution = resolveIdentities(plugins, state.entries());
+  const grouped = Array.from(resolution.aliases.values()).reduce((total, keys) => total + keys.length, 0);
+  if (grouped > 0) {
+    info(`Grouped ${grouped} forks and mirrors under ${resolution.aliases.size} plugins.`);
+  }
+  return resolution;
+}
+
+async function recordAliases(state: StateCache, aliases: IdentityResolution["aliases"]): Promise<void> {
+  let changed = false;
+  for (const [key, keys] of aliases) {
+    const entry = state.get(key);
+    const updated = entry ? withAliases(entry, keys) : undefined;
+    if (updated) {
+      state.set(updated);
+      changed = true;
+    }
+  }
+  if (changed) {
     await state.save();
   }
-  info("Sequential upload complete.");
+}
+
+// CHANGE: Drop plugins rejected by the filter rules before anything is downloaded.
+// WHY: Only the subset of plugins a community wants should be announced.
+// QUOTE(TЗ): "evaluated against `IndexedPlugin` before download"
+// REF: REQ-31
+// SOURCE: user request
+function applyFilters(plugins: readonly IndexedPlugin[], config: FilterConfig | undefined): readonly IndexedPlugin[] {
+  if (!config) {
+    return plugins;
+  }
+  const accepted = plugins.filter(plugin => evaluateFilters(config, plugin).accepted);
+  info(`Filters accepted ${accepted.length}/${plugins.length} plugins.`);
+  return accepted;
+}
+
+function filtersRevision(config: FilterConfig | undefined): string | undefined {
+  return config ? sha256(Buffer.from(JSON.stringify(config))) : undefined;
+}
+
+// CHANGE: Flush state and close the journal before a second signal ends the process.
+// WHY: Exiting at once lost the state of plugins already processed in the run.
+// QUOTE(TЗ): "save state and finish the journal with "interrupted" before exiting"
+// REF: REQ-35
+// SOURCE: review feedback
+function installShutdown(state: Pick<StateCache, "save">, journal?: RunJournal): ShutdownController {
+  return new ShutdownController()
+    .onAbort(async () => {
+      await state.save();
+      await journal?.finish("interrupted");
+    })
+    .install();
 }
 
 /**
  * Notify mode entry point: fetch indices and sequentially dispatch all plugins.
+ *
+ * @param options - Parsed command options; `resume` continues the journal of an unfinished run.
  */
-export async function notifyAction(): Promise<void> {
-  const state = new StateCache();
-  await state.load();
+export async function notifyAction(
+  options: StateLoadOptions & { readonly force?: boolean; readonly resume?: boolean } = {}
+): Promise<void> {
+  const state = await openState(options);
+  const previousRun = await readRunJournal();
+  const unfinished = previousRun && previousRun.status !== "completed" ? previousRun : undefined;
+  if (options.resume) {
+    info(unfinished ? `Resuming. ${describeRunJournal(unfinished)}` : "No unfinished run to resume; starting a new run.");
+  } else if (unfinished) {
+    info(`${describeRunJournal(unfinished)} Pass --resume to continue it under the same run id.`);
+  }
+  const filters = loadFilterConfig();
+  const notifiers = createConfiguredNotifiers();
   const plugins = await fetchAndMergeIndices();
-  await processAllPluginsSequentially(plugins, state);
+  const revision = getOfflineDirectory() ? undefined : await sourcesRevision(loadSourcesConfig());
+  const settings = await notifySettingsRevision(notifiers);
+  const marker = await readNotifyMarker();
+  if (
+    !options.force &&
+    !(options.resume && unfinished) &&
+    revision &&
+    marker?.revision === revision &&
+    marker.filters === filtersRevision(filters) &&
+    marker.settings === settings &&
+    marker.entries === state.stats().count
+  ) {
+    info(`No index changed since the run completed at ${marker.completedAt}; nothing to notify.`);
+    return;
+  }
+  const { plugins: accepted, aliases } = dedupeForks(applyFilters(plugins, filters), state);
+  const journal = await RunJournal.open("notify", options.resume ? unfinished : undefined);
+  const shutdown = installShutdown(state, journal);
+  let unavailable: ReadonlySet<string>;
+  try {
+    unavailable = await processAllPluginsSequentially(accepted, state, notifiers, {
+      journal,
+      shutdown
+    });
+    await recordAliases(state, aliases);
+    if (shutdown.requested) {
+      await state.save();
+      await journal.finish("interrupted");
+      info(`Stopped. ${describeRunJournal(journal.current)} Run "plugins notify --resume" to continue.`);
+      process.exitCode = shutdown.exitCode;
+      return;
+    }
+    await journal.finish("completed");
+  } finally {
+    shutdown.dispose();
+  }
+  // CHANGE: Only remember runs that left nothing to deliver.
+  // WHY: Failed deliveries must be retried on the next run even when no index changed; files that
+  // could not be downloaded wait for the next index change, and blocked plugins are in the state.
+  // QUOTE(TЗ): "write the marker only when no entry has pending or failed destinations."
+  // REF: REQ-23
+  // SOURCE: review feedback
+  const settled = new Map(state.entries().map(entry => [entry.key, entry] as const));
+  const outstanding = accepted.filter(
+    plugin =>
+      Boolean(plugin.file.raw_url) &&
+      !unavailable.has(pluginKey(plugin)) &&
+      owedNotifiers(notifiers, settled, plugin).length > 0
+  ).length;
+  if (outstanding > 0) {
+    info(`${outstanding} plugins are still pending delivery; the next run retries them.`);
+  } else if (revision) {
+    await writeNotifyMarker({
+      revision,
+      filters: filtersRevision(filters),
+      settings,
+      entries: state.stats().count,
+      completedAt: new Date().toISOString()
+    });
+  }
 }
 
 /**
- * Dry-run mode entry point: preview sequential uploads without sending.
+ * Watch mode entry point: announce new plugins and re-announce those whose content changed.
  */
-export async function dryRunAction(): Promise<void> {
-  const state = new StateCache();
-  await state.load();
+export async function watchAction(options: StateLoadOptions = {}): Promise<void> {
+  const state = await openState(options);
+  const filters = loadFilterConfig();
+  const { plugins, aliases } = dedupeForks(applyFilters(await fetchAndMergeIndices(), filters), state);
+  const cache = new Map(state.entries().map(entry => [entry.key, entry] as const));
+  const delta = await computeDelta(plugins.filter(plugin => Boolean(plugin.file.raw_url)), cache);
+  const shutdown = installShutdown(state);
+  try {
+    await processDeltaSequentially(delta, state, createConfiguredNotifiers(), { shutdown });
+    await recordAliases(state, aliases);
+  } finally {
+    shutdown.dispose();
+  }
+  if (shutdown.requested) {
+    await state.save();
+    process.exitCode = shutdown.exitCode;
+  }
+}
+
+/**
+ * Refresh mode entry point: edit delivered messages whose plugin metadata changed.
+ */
+export async function refreshAction(options: StateLoadOptions = {}): Promise<void> {
+  const state = await openState(options);
   const plugins = await fetchAndMergeIndices();
-  const processedKeys = new Set(state.entries().map(entry => entry.key));
-  const pending = plugins.filter(plugin => {
-    const rawUrl = plugin.file.raw_url;
-    return rawUrl ? !processedKeys.has(pluginKey(plugin)) : false;
-  });
+  const shutdown = installShutdown(state);
+  try {
+    await processRefreshSequentially(plugins, state, createConfiguredNotifiers(), { shutdown });
+  } finally {
+    shutdown.dispose();
+  }
+  if (shutdown.requested) {
+    await state.save();
+    process.exitCode = shutdown.exitCode;
+  }
+}
+
+/**
+ * Delete-messages entry point: remove delivered messages of plugins from deleted repositories.
+ */
+export async function deleteMessagesAction(options: StateLoadOptions = {}): Promise<void> {
+  const state = await openState(options);
+  const deleted = await fetchDeleted();
+  if (!deleted) {
+    logError("Deleted repositories list unavailable; nothing to delete.");
+    return;
+  }
+  await deleteMessagesForDeleted(deleted, state);
+}
+
+/**
+ * Prune mode entry point: retract announcements of deleted or vanished plugins.
+ *
+ * @param options - Parsed command options.
+ */
+export async function pruneAction(options: StateLoadOptions & { readonly mode: PruneMode }): Promise<void> {
+  const state = await openState(options);
+  const { merged, deleted } = await fetchMergedIndex();
+  if (merged.items.length === 0) {
+    logError("Merged index is empty; refusing to prune every cached entry.");
+    process.exitCode = 1;
+    return;
+  }
+  const candidates = findRetractions(state.entries(), merged.items, deleted);
+  await processPrune(candidates, state, createConfiguredNotifiers(), options.mode);
+}
+
+/**
+ * Dry-run mode entry point: preview sequential uploads without sending.
+ */
+export async function dryRunAction(options: StateLoadOptions = {}): Promise<void> {
+  const state = await openState(options);
+  const filters = loadFilterConfig();
+  const fetched = await fetchAndMergeIndices();
+  const notifiers = createConfiguredNotifiers();
+  const cached = new Map(state.entries().map(entry => [entry.key, entry] as const));
+  // CHANGE: Show which filter rule accepted or rejected each pending plugin.
+  // WHY: Filter configs must be verifiable before a real run.
+  // QUOTE(TЗ): "with `dry-run` showing which rule accepted or rejected each plugin."
+  // REF: REQ-31
+  // SOURCE: user request
+  const verdicts = new Map(fetched.map(plugin => [plugin, filters ? evaluateFilters(filters, plugin) : undefined] as const));
+  const canonical = new Set(dedupeForks(fetched.filter(plugin => verdicts.get(plugin)?.accepted !== false), state).plugins);
+  const owed = fetched.filter(
+    plugin =>
+      (canonical.has(plugin) || verdicts.get(plugin)?.accepted === false) &&
+      (plugin.file.raw_url ? owedNotifiers(notifiers, cached, plugin).length > 0 : false)
+  );
+  const decisions = owed.map(plugin => ({ plugin, decision: verdicts.get(plugin) }));
+  const pending = decisions.filter(({ decision }) => decision?.accepted !== false);
   info("Dry-run: listing first 20 pending plugins to be uploaded.");
-  const preview = pending.slice(0, 20).map((plugin, idx) => ({
+  const preview = decisions.slice(0, 20).map(({ plugin, decision }, idx) => ({
     index: idx + 1,
     rawUrl: plugin.file.raw_url ?? "",
     name: plugin.plugin_name ?? plugin.file.path ?? "",
-    repository: plugin.repository?.full_name ?? ""
+    repository: plugin.repository?.full_name ?? "",
+    ...(decision ? { filter: `${decision.accepted ? "accepted" : "rejected"} by ${decision.rule}` } : {}),
+    destinations: owedNotifiers(notifiers, cached, plugin)
+      .map(notifier => notifier.name)
+      .join(", ")
   }));
   console.table(preview);
-  info(`Pending plugins: ${pending.length}; already processed: ${processedKeys.size}; indexed total: ${plugins.length}`);
+  if (filters) {
+    const byRule = new Map<string, { rule: string; accepted: number; rejected: number }>();
+    for (const { decision } of decisions) {
+      if (decision) {
+        const row = byRule.get(decision.rule) ?? { rule: decision.rule, accepted: 0, rejected: 0 };
+        row[decision.accepted ? "accepted" : "rejected"] += 1;
+        byRule.set(decision.rule, row);
+      }
+    }
+    info("Dry-run: filter decisions per rule.");
+    console.table(Array.from(byRule.values()));
+  }
+  info(`Pending plugins: ${pending.length}; already processed: ${cached.size}; indexed total: ${fetched.length}`);
+}
+
+// CHANGE: Announce pending plugins in batches instead of one message per plugin.
+// WHY: One message per plugin floods the channel and hammers rate limits on large backfills.
+// QUOTE(TЗ): "recording all included keys in `StateCache` after the batch succeeds."
+// REF: REQ-32
+// SOURCE: user request
+interface DigestOptions {
+  readonly groupBy?: DigestGrouping;
+  readonly size?: number;
+  readonly summary?: boolean;
+}
+
+function recordDigestDelivery(
+  state: Pick<StateCache, "get" | "set">,
+  plugin: IndexedPlugin,
+  destination: string,
+  notifiedAt: string
+): void {
+  const key = pluginKey(plugin);
+  const previous = state.get(key);
+  state.set({
+    ...previous,
+    key,
+    notifiedAt,
+    fileSha: plugin.file.sha,
+    fileSize: plugin.file.size,
+    pluginVersion: plugin.plugin_version,
+    repository: plugin.repository?.full_name,
+    metadataHash: pluginFingerprint(plugin),
+    pluginName: plugin.plugin_name,
+    pluginAuthor: plugin.plugin_author,
+    // Digest messages are shared by many plugins, so no receipt is kept for refresh or prune to edit.
+    ...mergeDeliveries(previous, { [destination]: {} })
+  });
+}
+
+/**
+ * Send pending plugins as digest batches and record every included key once its batch
+ * is delivered.
+ *
+ * Invariant: a failed batch leaves its plugins pending so the next run retries them.
+ *
+ * @param plugins - Candidate plugins.
+ * @param state - State cache receiving delivered keys.
+ * @param notifiers - Configured notifiers; those without digest support are skipped.
+ * @param options - Grouping, batch size and summary mode.
+ * @param run - Shutdown request checked before every batch.
+ * @returns Number of plugins delivered per destination.
+ * @throws Error if the batch size exceeds the embed limit outside summary mode.
+ */
+export async function processDigest(
+  plugins: readonly IndexedPlugin[],
+  state: Pick<StateCache, "entries" | "get" | "set" | "save">,
+  notifiers: readonly Notifier[] = createConfiguredNotifiers(),
+  options: DigestOptions = {},
+  run: RunControl = {}
+): Promise<Record<string, number>> {
+  const size = options.size ?? MAX_EMBEDS_PER_MESSAGE;
+  if (!options.summary && size > MAX_EMBEDS_PER_MESSAGE) {
+    throw new Error(
+      `Digest size ${size} exceeds ${MAX_EMBEDS_PER_MESSAGE} embeds per message; use --summary for larger batches.`
+    );
+  }
+  const cached = new Map(state.entries().map(entry => [entry.key, entry] as const));
+  const uploadable = plugins.filter(plugin => Boolean(plugin.file.raw_url));
+  const delivered: Record<string, number> = {};
+  for (const notifier of notifiers) {
+    const digest = notifier.digest?.bind(notifier);
+    if (!digest) {
+      info(`Notifier ${notifier.name} does not support digests; skipping.`);
+      continue;
+    }
+    const pending = uploadable.filter(plugin => owedNotifiers([notifier], cached, plugin).length > 0);
+    const batches = planDigest(pending, options.groupBy ?? "count", size);
+    info(`Digest for ${notifier.name}: ${pending.length} pending plugins in ${batches.length} messages.`);
+    delivered[notifier.name] = 0;
+    for (const batch of batches) {
+      if (run.shutdown?.requested) {
+        info(`Shutdown requested; stopping before digest "${batch.title}".`);
+        return delivered;
+      }
+      try {
+        if (options.summary) {
+          await digest([buildDigestSummaryEmbed(batch)], batch.title, buildDigestIndexAttachment(batch));
+        } else {
+          await digest(batch.plugins.map(plugin => buildEmbed(plugin)), batch.title);
+        }
+      } catch (error) {
+        logWebhookFailure(`${notifier.name} digest "${batch.title}"`, error);
+        continue;
+      }
+      const notifiedAt = new Date().toISOString();
+      for (const plugin of batch.plugins) {
+        recordDigestDelivery(state, plugin, notifier.name, notifiedAt);
+      }
+      await state.save();
+      delivered[notifier.name] += batch.plugins.length;
+    }
+  }
+  return delivered;
+}
+
+/**
+ * Digest mode entry point: announce pending plugins grouped into batched messages.
+ *
+ * @param options - Parsed command options.
+ */
+export async function digestAction(options: StateLoadOptions & DigestOptions = {}): Promise<void> {
+  const state = await openState(options);
+  const filters = loadFilterConfig();
+  const { plugins, aliases } = dedupeForks(applyFilters(await fetchAndMergeIndices(), filters), state);
+  const shutdown = installShutdown(state);
+  let delivered: Record<string, number>;
+  try {
+    delivered = await processDigest(plugins, state, createConfiguredNotifiers(), options, {
+      shutdown
+    });
+    await recordAliases(state, aliases);
+  } finally {
+    shutdown.dispose();
+  }
+  if (shutdown.requested) {
+    await state.save();
+    process.exitCode = shutdown.exitCode;
+  }
+  const summary = Object.entries(delivered).map(([name, count]) => `${name}=${count}`);
+  info(`Digest complete: ${summary.length > 0 ? summary.join(" ") : "no notifier supports digests"}.`);
+  info(rateLimitSummary());
 }
 
 /**
  * Reset mode entry point: clear cache file.
  */
-export async function resetAction(): Promise<void> {
-  const state = new StateCache();
-  await state.load();
+export async function resetAction(options: StateLoadOptions = {}): Promise<void> {
+  const state = await openState(options);
   await state.clear();
   info("State cache cleared.");
 }
 
+// CHANGE: Query state by key, date range, grouping or missing hashes as a table or JSON.
+// WHY: Diagnosing "why was X not posted?" should not require opening the state file by hand.
+// QUOTE(TЗ): "look up a plugin by key or raw URL, list entries notified in a date range, group counts by repository/author/day, find entries missing content hashes, and output as table or JSON."
+// REF: REQ-20
+// SOURCE: user request
+interface StateQueryOptions {
+  readonly key?: string;
+  readonly since?: string;
+  readonly until?: string;
+  readonly groupBy?: StateGroupBy;
+  readonly missingHashes?: boolean;
+  readonly json?: boolean;
+}
+
 /**
  * State mode entry point: print cache statistics.
  */
-export async function stateAction(): Promise<void> {
-  const state = new StateCache();
-  await state.load();
-  console.log(state.stats());
+export async function stateAction(options: StateLoadOptions & StateQueryOptions = {}): Promise<void> {
+  const state = await openState(options);
+  const print = (rows: readonly object[], raw: unknown): void => {
+    if (options.json) {
+      console.log(JSON.stringify(raw, null, 2));
+    } else {
+      console.table(rows);
+    }
+  };
+  if (options.key) {
+    const entry = state.get(options.key) ?? findStateEntry(state.entries(), options.key);
+    if (!entry) {
+      info(`No state entry for ${options.key}; it has never been notified.`);
+      return;
+    }
+    print([stateEntryRow(entry)], entry);
+    return;
+  }
+  const query = {
+    since: options.since ? parseQueryDate(options.since, "--since") : undefined,
+    until: options.until ? parseQueryDate(options.until, "--until") : undefined,
+    missingHashes: options.missingHashes === true
+  };
+  if (!query.since && !query.until && !query.missingHashes && !options.groupBy) {
+    const stats = state.stats();
+    print([stats], stats);
+    return;
+  }
+  const entries = filterStateEntries(state.entries(), query);
+  if (options.groupBy) {
+    const groups = groupStateEntries(entries, options.groupBy);
+    print(groups, groups);
+    return;
+  }
+  print(entries.map(stateEntryRow), entries);
+}
+
+// CHANGE: Export, import and merge state files.
+// WHY: Moving state between machines or consolidating runners must not duplicate announcements.
+// QUOTE(TЗ): "Please add `plugins state export`/`import`/`merge` subcommands that serialise the `StateFile` entries (JSON and CSV), merge two states by key preferring the latest `notifiedAt`, and report conflicts"
+// REF: REQ-19
+// SOURCE: user request
+interface StateTransferOptions extends StateLoadOptions {
+  readonly format?: string;
+}
+
+async function readStateFile(file: string, format?: string): Promise<CachedEntry[]> {
+  return parseState(await fs.readFile(file, "utf8"), resolveStateFormat(file, format));
+}
+
+function reportConflicts(conflicts: readonly StateConflict[]): void {
+  if (conflicts.length === 0) {
+    return;
+  }
+  info(`${conflicts.length} conflicting entries resolved by latest notifiedAt:`);
+  console.table(conflicts.map(conflict => ({ key: conflict.key, kept: conflict.kept, fields: conflict.fields.join(", ") })));
+}
+
+/**
+ * Write current state entries to a JSON or CSV file.
+ *
+ * @param file - Output path; format follows the extension unless `--format` is given.
+ */
+export async function stateExportAction(file: string, options: StateTransferOptions = {}): Promise<void> {
+  const state = await openState(options);
+  const entries = state.entries();
+  await fs.writeFile(file, serializeState(entries, resolveStateFormat(file, options.format)));
+  info(`Exported ${entries.length} state entries to ${file}.`);
+}
+
+/**
+ * Merge a JSON or CSV state file into current state.
+ *
+ * @param file - Input path.
+ */
+export async function stateImportAction(file: string, options: StateTransferOptions = {}): Promise<void> {
+  const state = await openState(options);
+  const imported = await readStateFile(file, options.format);
+  const { entries, conflicts } = mergeStates(state.entries(), imported);
+  const importedKeys = new Set(imported.map(entry => entry.key));
+  for (const entry of entries) {
+    if (importedKeys.has(entry.key)) {
+      state.set(entry);
+    }
+  }
+  await state.save();
+  info(`Imported ${imported.length} state entries from ${file}.`);
+  reportConflicts(conflicts);
+}
+
+/**
+ * Merge two state files into a third without touching the current state.
+ *
+ * @param left - First input path.
+ * @param right - Second input path; its entries win only with a later `notifiedAt`.
+ */
+export async function stateMergeAction(
+  left: string,
+  right: string,
+  options: { readonly output: string; readonly format?: string }
+): Promise<void> {
+  const { entries, conflicts } = mergeStates(await readStateFile(left), await readStateFile(right));
+  await fs.writeFile(options.output, serializeState(entries, resolveStateFormat(options.output, options.format)));
+  info(`Merged ${entries.length} state entries into ${options.output}.`);
+  reportConflicts(conflicts);
+}
+
+// CHANGE: Report upstream changes between two indices.
+// WHY: Reviewing what changed upstream should not require diffing raw JSON.
+// QUOTE(TЗ): "Please add a `plugins index-diff` command that compares two `PluginIndex` documents (fetched or from files) keyed by `pluginKey`, and outputs a human-readable summary, JSON, or a Discord digest embed."
+// REF: REQ-24
+// SOURCE: user request
+type IndexDiffFormat = "summary" | "json" | "discord";
+
+async function loadIndexSide(spec: string | undefined): Promise<IndexedPlugin[]> {
+  if (!spec) {
+    return fetchAndMergeIndices();
+  }
+  if (!isRemoteLocation(spec) && (await fs.stat(spec).catch(() => undefined))?.isDirectory()) {
+    const previous = getOfflineDirectory();
+    setOfflineDirectory(resolveSnapshotDirectory(spec));
+    try {
+      return await fetchAndMergeIndices();
+    } finally {
+      setOfflineDirectory(previous);
+    }
+  }
+  return fetchAndMergeIndices({
+    indices: [{ name: spec, location: spec, priority: 0 }],
+    deleted: activeSources().deleted
+  });
+}
+
+/**
+ * Index diff entry point. Each side is a snapshot directory, an index file or URL, or
+ * (when `after` is omitted) the currently configured sources; all go through the same
+ * merge and deleted-repository filter.
+ *
+ * @param before - Earlier side.
+ * @param after - Later side; defaults to the live indices.
+ */
+export async function indexDiffAction(
+  before: string,
+  after: string | undefined,
+  options: { readonly format: IndexDiffFormat }
+): Promise<void> {
+  const diff = diffIndices(await loadIndexSide(before), await loadIndexSide(after));
+  switch (options.format) {
+    case "json":
+      console.log(JSON.stringify(indexDiffReport(diff), null, 2));
+      return;
+    case "discord":
+      await sendDiscordEmbeds([buildIndexDiffEmbed(diff)], "Plugin index changes");
+      return;
+    case "summary":
+      console.log(formatIndexDiff(diff));
+  }
+}
+
+// CHANGE: Report every schema problem of the configured or given indices.
+// WHY: Upstream issues need a complete list of rejected items and wrong-typed fields.
+// QUOTE(TЗ): "prints a `plugins validate` report so we can file issues upstream."
+// REF: REQ-25
+// SOURCE: user request
+
+/**
+ * Validate mode entry point. Sets a failing exit code in strict mode when any problem is found.
+ *
+ * @param locations - Index URLs or files; defaults to the active sources.
+ */
+export async function validateAction(
+  locations: readonly string[],
+  options: { readonly mode: ValidationMode; readonly json?: boolean }
+): Promise<void> {
+  const targets = locations.length > 0 ? locations : activeSources().indices.map(source => source.location);
+  const reports = [];
+  for (const location of targets) {
+    const { index, problems, rejected } = validatePluginIndex(await fetchJsonDocument(location), location);
+    reports.push({ location, valid: index.items.length, rejected, problems });
+  }
+  if (options.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    for (const report of reports) {
+      info(`${report.location}: ${report.valid} valid items, ${report.rejected} rejected, ${report.problems.length} problems.`);
+      for (const problem of report.problems) {
+        console.log(`  ${formatProblem(problem)}`);
+      }
+    }
+  }
+  if (options.mode === "strict" && reports.some(report => report.problems.length > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+// CHANGE: Capture indices and plugin files for offline runs.
+// WHY: Reproducing a run without network needs a local copy of every input.
+// QUOTE(TЗ): "a `plugins snapshot` command that downloads the current indices and plugin files into a versioned directory, so notify/dry-run can run entirely against the snapshot."
+// REF: REQ-22
+// SOURCE: user request
+
+/**
+ * Snapshot mode entry point: download current inputs into a versioned directory.
+ *
+ * @param root - Directory receiving snapshots.
+ */
+export async function snapshotAction(root: string = OFFLINE.SNAPSHOT_ROOT): Promise<void> {
+  if (getOfflineDirectory()) {
+    throw new Error("Cannot create a snapshot while running offline.");
+  }
+  await createSnapshot(root, loadSourcesConfig());
+}
+
+// CHANGE: Inspect, restore and clean the plugin archive.
+// WHY: Archived versions must be recoverable by key and unreferenced blobs reclaimed.
+// QUOTE(TЗ): "A `plugins archive` command should list versions, restore a specific one, and garbage-collect blobs no longer referenced."
+// REF: REQ-30
+// SOURCE: user request
+interface ArchiveOptions {
+  readonly dir?: string;
+}
+
+function configuredArchive(options: ArchiveOptions): PluginArchive {
+  const dir = options.dir || CONTENT.DIR;
+  if (!dir) {
+    throw new Error("Plugin archive is disabled; set PLUGINS_CONTENT_DIR or pass --dir.");
+  }
+  return new PluginArchive(dir);
+}
+
+/**
+ * List archived plugins, or the archived versions of one plugin.
+ *
+ * @param key - Plugin cache key; all plugins when omitted.
+ */
+export async function archiveListAction(
+  key: string | undefined,
+  options: ArchiveOptions & { readonly json?: boolean } = {}
+): Promise<void> {
+  const archive = configuredArchive(options);
+  const print = (rows: readonly object[]): void => {
+    if (options.json) {
+      console.log(JSON.stringify(rows, null, 2));
+    } else {
+      console.table(rows);
+    }
+  };
+  if (key) {
+    const versions = await archive.versions(key);
+    if (versions.length === 0) {
+      info(`No archived versions of ${key}.`);
+      return;
+    }
+    print(versions);
+    return;
+  }
+  const rows = Array.from(await archive.entries(), ([archivedKey, versions]) => ({
+    key: archivedKey,
+    versions: versions.length,
+    latest: versions[versions.length - 1]?.version ?? "",
+    fetchedAt: versions[versions.length - 1]?.fetchedAt ?? ""
+  }));
+  if (rows.length === 0) {
+    info(`Archive ${archive.dir} is empty.`);
+    return;
+  }
+  print(rows);
+}
+
+/**
+ * Copy an archived version of a plugin to a file.
+ *
+ * @param key - Plugin cache key.
+ * @param reference - Version or sha prefix; the latest version when omitted.
+ * @param options - `to` defaults to the plugin file name in the working directory.
+ */
+export async function archiveRestoreAction(
+  key: string,
+  reference: string | undefined,
+  options: ArchiveOptions & { readonly to?: string } = {}
+): Promise<void> {
+  const archive = configuredArchive(options);
+  const target = options.to ?? (sanitize(key.split("/").pop() ?? "") || "plugin.cs");
+  const restored = await archive.restore(key, reference, target);
+  info(`Restored ${key} ${restored.version ?? restored.sha.slice(0, 12)} (${restored.sha}) to ${target}.`);
+}
+
+/**
+ * Drop archived versions of plugins no longer in state, then delete archive blobs
+ * referenced neither by the remaining manifest nor by any state entry.
+ */
+export async function archiveGcAction(options: StateLoadOptions & ArchiveOptions = {}): Promise<void> {
+  const state = await openState(options);
+  const entries = state.entries();
+  const referenced = entries.flatMap(entry => (entry.contentPath ? [entry.contentPath] : []));
+  const archive = configuredArchive(options);
+  const { removed, bytes } = await archive.gc(referenced, entries.map(entry => entry.key));
+  info(`Archive GC removed ${removed} unreferenced blobs (${bytes} bytes) from ${archive.dir}.`);
+}
+
+function applyOffline(command: Command): void {
+  const directory = command.optsWithGlobals<{ readonly offline?: string }>().offline ?? OFFLINE.DIR;
+  if (directory) {
+    const resolved = resolveSnapshotDirectory(directory);
+    setOfflineDirectory(resolved);
+    info(`Running offline against snapshot ${resolved}.`);
+  }
+}
+
+function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError("Expected a positive integer.");
+  }
+  return parsed;
 }
 
 /**
@@ -241,11 +1465,150 @@ export function buildProgram(): Command {
   const program = new Command();
   program.name("plugins-notifier").description("Rust plugins notifier").version("1.0.0");
 
-  const pluginsCommand = program.command("plugins").description("Plugins operations");
-  pluginsCommand.command("notify").description("Fetch and notify all plugins via webhook").action(async () => notifyAction());
-  pluginsCommand.command("dry-run").description("Preview uploads without sending webhooks").action(async () => dryRunAction());
-  pluginsCommand.command("reset").description("Clear notification cache").action(async () => resetAction());
-  pluginsCommand.command("state").description("Display cache statistics").action(async () => stateAction());
+  const pluginsCommand = program
+    .command("plugins")
+    .description("Plugins operations")
+    .option("--force-reset", "Back up and discard corrupted state instead of refusing to start")
+    .option("--offline <dir>", "Read indices and plugin files from a snapshot instead of the network")
+    .hook("preAction", (_command, actionCommand) => applyOffline(actionCommand));
+  pluginsCommand
+    .command("notify")
+    .description("Fetch and notify all plugins via webhook")
+    .option("--force", "Process plugins even when no index changed since the last completed run")
+    .option("--resume", "Continue the journal of an interrupted run and report where it stopped")
+    .action(async (options: { readonly force?: boolean; readonly resume?: boolean }, command: Command) =>
+      notifyAction({ ...stateOptions(command), force: options.force === true, resume: options.resume === true })
+    );
+  pluginsCommand
+    .command("watch")
+    .description("Notify new plugins and re-announce plugins whose content changed")
+    .action(async (_options, command: Command) => watchAction(stateOptions(command)));
+  pluginsCommand
+    .command("refresh")
+    .description("Edit delivered messages whose plugin metadata changed")
+    .action(async (_options, command: Command) => refreshAction(stateOptions(command)));
+  pluginsCommand
+    .command("delete-messages")
+    .description("Delete delivered messages of plugins from deleted repositories")
+    .action(async (_options, command: Command) => deleteMessagesAction(stateOptions(command)));
+  pluginsCommand
+    .command("prune")
+    .description("Retract announcements of plugins from deleted repositories or missing from the indices")
+    .addOption(
+      new Option("--mode <mode>", "Post a removal notice or delete the original message")
+        .choices(["notice", "delete"])
+        .default("notice")
+    )
+    .action(async (options: { readonly mode: PruneMode }, command: Command) =>
+      pruneAction({ ...stateOptions(command), mode: options.mode })
+    );
+  pluginsCommand
+    .command("dry-run")
+    .description("Preview uploads without sending webhooks")
+    .action(async (_options, command: Command) => dryRunAction(stateOptions(command)));
+  pluginsCommand
+    .command("digest")
+    .description("Notify pending plugins in batched messages instead of one message per plugin")
+    .addOption(
+      new Option("--group-by <grouping>", "Group plugins per hour, day, repository, or only by count")
+        .choices(["hour", "day", "repository", "count"])
+        .default("count")
+    )
+    .option(
+      "--size <n>",
+      `Plugins per message (at most ${MAX_EMBEDS_PER_MESSAGE} without --summary)`,
+      parsePositiveInteger,
+      MAX_EMBEDS_PER_MESSAGE
+    )
+    .option("--summary", "Send one summary embed per batch with the batch index attached")
+    .action(async (options: DigestOptions, command: Command) => digestAction({ ...stateOptions(command), ...options }));
+  pluginsCommand
+    .command("index-diff <before> [after]")
+    .description("Compare two indices (snapshot directories, index files or URLs; live indices when after is omitted)")
+    .addOption(
+      new Option("--format <format>", "Output format").choices(["summary", "json", "discord"]).default("summary")
+    )
+    .action(async (before: string, after: string | undefined, options: { readonly format: IndexDiffFormat }) =>
+      indexDiffAction(before, after, options)
+    );
+  pluginsCommand
+    .command("validate [locations...]")
+    .description("Report schema problems of the configured indices or the given index files and URLs")
+    .addOption(
+      new Option("--mode <mode>", "Exit with an error on any problem in strict mode")
+        .choices(["strict", "lenient"])
+        .default(VALIDATION.MODE)
+    )
+    .option("--json", "Print JSON instead of text")
+    .action(async (locations: string[], options: { readonly mode: ValidationMode; readonly json?: boolean }) =>
+      validateAction(locations, options)
+    );
+  pluginsCommand
+    .command("snapshot")
+    .description("Download current indices and plugin files into a versioned snapshot directory")
+    .option("--dir <dir>", "Directory receiving snapshots", OFFLINE.SNAPSHOT_ROOT)
+    .action(async (options: { readonly dir: string }) => snapshotAction(options.dir));
+  const archiveCommand = pluginsCommand
+    .command("archive")
+    .description("Inspect and maintain the archive of announced plugin files")
+    .option("--dir <dir>", "Archive directory", CONTENT.DIR);
+  const archiveDir = (command: Command): string => command.optsWithGlobals<{ readonly dir: string }>().dir;
+  archiveCommand
+    .command("list [key]")
+    .description("List archived plugins, or the archived versions of one plugin")
+    .option("--json", "Print JSON instead of a table")
+    .action(async (key: string | undefined, options: { readonly json?: boolean }, command: Command) =>
+      archiveListAction(key, { dir: archiveDir(command), json: options.json })
+    );
+  archiveCommand
+    .command("restore <key> [version]")
+    .description("Copy an archived version (version string or sha prefix, latest by default) to a file")
+    .option("--to <file>", "Destination file (defaults to the plugin file name)")
+    .action(async (key: string, version: string | undefined, options: { readonly to?: string }, command: Command) =>
+      archiveRestoreAction(key, version, { dir: archiveDir(command), to: options.to })
+    );
+  archiveCommand
+    .command("gc")
+    .description("Drop archived versions of plugins no longer in the state and delete their unreferenced blobs")
+    .action(async (_options, command: Command) => archiveGcAction({ ...stateOptions(command), dir: archiveDir(command) }));
+  pluginsCommand
+    .command("reset")
+    .description("Clear notification cache")
+    .action(async (_options, command: Command) => resetAction(stateOptions(command)));
+  const stateCommand = pluginsCommand
+    .command("state")
+    .description("Display cache statistics or query cached entries")
+    .option("--key <keyOrUrl>", "Show the entry for a cache key or raw URL")
+    .option("--since <date>", "Only entries notified on or after this date")
+    .option("--until <date>", "Only entries notified on or before this date")
+    .addOption(new Option("--group-by <field>", "Count entries per group").choices(["repository", "author", "day"]))
+    .option("--missing-hashes", "Only entries without a content hash")
+    .option("--json", "Print JSON instead of a table")
+    .action(async (options: StateQueryOptions, command: Command) => stateAction({ ...stateOptions(command), ...options }));
+  const formatOption = (): Option =>
+    new Option("--format <format>", "File format (defaults to the file extension)").choices(["json", "csv"]);
+  stateCommand
+    .command("export <file>")
+    .description("Write state entries to a JSON or CSV file")
+    .addOption(formatOption())
+    .action(async (file: string, options: { readonly format?: string }, command: Command) =>
+      stateExportAction(file, { ...stateOptions(command), format: options.format })
+    );
+  stateCommand
+    .command("import <file>")
+    .description("Merge a JSON or CSV state file into current state")
+    .addOption(formatOption())
+    .action(async (file: string, options: { readonly format?: string }, command: Command) =>
+      stateImportAction(file, { ...stateOptions(command), format: options.format })
+    );
+  stateCommand
+    .command("merge <left> <right>")
+    .description("Merge two state files by key, preferring the latest notifiedAt")
+    .requiredOption("-o, --output <file>", "Merged output file")
+    .addOption(formatOption())
+    .action(async (left: string, right: string, options: { readonly output: string; readonly format?: string }) =>
+      stateMergeAction(left, right, options)
+    );
 
   return program;
 }
@@ -9,25 +9,120 @@ import * as dotenv from "dotenv";
 dotenv.config();
 
 /**
- * Constant URLs for upstream indices used throughout the pipeline.
+ * Default URLs for upstream indices used throughout the pipeline.
+ *
+ * Invariant: `CONFIG_PATH`, when set, points to a sources file replacing these defaults.
  */
 export const SOURCES = {
   BASE: "https://raw.githubusercontent.com/publicrust/plugins-forum/main/backend/output",
   OXIDE: "https://raw.githubusercontent.com/publicrust/plugins-forum/main/backend/output/oxide_plugins.json",
   CRAWLED: "https://raw.githubusercontent.com/publicrust/plugins-forum/main/backend/output/crawled_plugins.json",
-  DELETED: "https://raw.githubusercontent.com/publicrust/plugins-forum/main/backend/output/deleted_repositories.json"
+  DELETED: "https://raw.githubusercontent.com/publicrust/plugins-forum/main/backend/output/deleted_repositories.json",
+  // CHANGE: Allow replacing the hardcoded indices with a sources file.
+  // WHY: Curated indices and local mirrors need to join the merge.
+  // QUOTE(TЗ): "We want a sources config listing any number of indices (remote URLs or local file paths), each with a priority for `mergeIndices`"
+  // REF: REQ-21
+  // SOURCE: user request
+  CONFIG_PATH: process.env.PLUGINS_SOURCES_PATH ?? ""
+} as const;
+
+// CHANGE: Configure offline runs against local index snapshots.
+// WHY: Runs must be reproducible without network, including in CI with fixtures.
+// QUOTE(TЗ): "add an option to `fetchIndex`/`fetchDeleted` to read indices from a local directory, plus a `plugins snapshot` command"
+// REF: REQ-22
+// SOURCE: user request
+
+/**
+ * Snapshot configuration. `DIR`, when set, makes every index and plugin file read come
+ * from that snapshot instead of the network; `SNAPSHOT_ROOT` receives new snapshots.
+ */
+export const OFFLINE = {
+  DIR: process.env.PLUGINS_OFFLINE_DIR ?? "",
+  SNAPSHOT_ROOT: process.env.PLUGINS_SNAPSHOT_DIR ?? "snapshots"
 } as const;
 
 /**
  * Discord-specific configuration values controlling webhook behaviour.
  *
- * Invariant: `WEBHOOK_URL` must be non-empty in notify mode to allow delivery.
+ * Invariant: `WEBHOOK_URL` must be non-empty in notify mode to allow delivery,
+ * unless `ROUTES_PATH` points to a routing table that defines its own default.
  */
 export const DISCORD = {
   WEBHOOK_URL: process.env.DISCORD_WEBHOOK_URL ?? "",
+  ROUTES_PATH: process.env.DISCORD_ROUTES_PATH ?? "",
+  FORUM_THREADS: (process.env.DISCORD_FORUM_THREADS ?? "false").toLowerCase() === "true",
   MAX_ATTACHMENT_BYTES: Number.parseInt(process.env.MAX_ATTACHMENT_BYTES ?? "8000000", 10)
 } as const;
 
+// CHANGE: Configure notification sinks beyond Discord.
+// WHY: Announcements may be delivered to several chat platforms in one run.
+// QUOTE(TЗ): "introduce a notifier interface ... selectable and combinable via configuration."
+// REF: REQ-12
+// SOURCE: user request
+
+/**
+ * Notification sink selection. `SINKS` lists enabled notifiers in delivery order.
+ *
+ * Invariant: every entry must match a registered notifier name.
+ */
+export const NOTIFIERS = {
+  SINKS: (process.env.PLUGINS_NOTIFIERS ?? "discord")
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0)
+} as const;
+
+/**
+ * Slack incoming webhook configuration.
+ */
+export const SLACK = {
+  WEBHOOK_URL: process.env.SLACK_WEBHOOK_URL ?? ""
+} as const;
+
+/**
+ * Telegram Bot API configuration.
+ *
+ * Invariant: `BOT_TOKEN` and `CHAT_ID` must be non-empty when the telegram sink is enabled.
+ */
+export const TELEGRAM = {
+  BOT_TOKEN: process.env.TELEGRAM_BOT_TOKEN ?? "",
+  CHAT_ID: process.env.TELEGRAM_CHAT_ID ?? "",
+  MAX_ATTACHMENT_BYTES: Number.parseInt(process.env.TELEGRAM_MAX_ATTACHMENT_BYTES ?? "50000000", 10)
+} as const;
+
+/**
+ * Matrix client-server API configuration.
+ */
+export const MATRIX = {
+  HOMESERVER_URL: process.env.MATRIX_HOMESERVER_URL ?? "",
+  ACCESS_TOKEN: process.env.MATRIX_ACCESS_TOKEN ?? "",
+  ROOM_ID: process.env.MATRIX_ROOM_ID ?? ""
+} as const;
+
+/**
+ * Generic JSON webhook configuration.
+ *
+ * `INCLUDE_CONTENT` embeds the attachment as base64 when within `MAX_ATTACHMENT_BYTES`.
+ */
+export const GENERIC_WEBHOOK = {
+  URL: process.env.GENERIC_WEBHOOK_URL ?? "",
+  INCLUDE_CONTENT: (process.env.GENERIC_WEBHOOK_INCLUDE_CONTENT ?? "false").toLowerCase() === "true",
+  MAX_ATTACHMENT_BYTES: Number.parseInt(process.env.GENERIC_WEBHOOK_MAX_ATTACHMENT_BYTES ?? "1000000", 10)
+} as const;
+
+// CHANGE: Point to the declarative filter rules deciding what gets announced.
+// WHY: Communities only want a subset of the 31k indexed plugins.
+// QUOTE(TЗ): "We want a declarative filter config (include/exclude by category, author, repository glob, minimum `stargazers_count`, archived flag, file path pattern, description keywords, file size)"
+// REF: REQ-31
+// SOURCE: user request
+
+/**
+ * Filter rules settings. An empty `CONFIG_PATH` announces every plugin with a raw URL.
+ */
+export const FILTERS = {
+  CONFIG_PATH: process.env.PLUGINS_FILTERS_PATH ?? ""
+} as const;
+
 /**
  * Feature flags that affect attachment handling logic.
  */
@@ -35,20 +130,100 @@ export const FLAGS = {
   ONLY_CS_ATTACHMENTS: (process.env.ONLY_CS_ATTACHMENTS ?? "true").toLowerCase() === "true"
 } as const;
 
+// CHANGE: Select how index schema problems are handled.
+// WHY: Production runs skip bad items while CI can fail on any upstream schema drift.
+// QUOTE(TЗ): "skips only invalid items in lenient mode, fails in strict mode"
+// REF: REQ-25
+// SOURCE: user request
+
+/**
+ * Index validation settings. `MODE` is `lenient` unless `PLUGINS_VALIDATION=strict`.
+ */
+export const VALIDATION = {
+  MODE: (process.env.PLUGINS_VALIDATION ?? "lenient").toLowerCase() === "strict" ? "strict" : "lenient"
+} as const;
+
+// CHANGE: Toggle grouping of forks and mirrors under one announcement.
+// WHY: Mirrored plugins were announced once per fork.
+// QUOTE(TЗ): "records aliases in the state so forks of already-announced plugins are skipped or grouped."
+// REF: REQ-26
+// SOURCE: user request
+
+/**
+ * Plugin identity settings. `DEDUPE` is off unless `PLUGINS_DEDUPE=true`, so upgrading
+ * deployments keep announcing forks they have not seen yet.
+ */
+export const IDENTITY = {
+  DEDUPE: (process.env.PLUGINS_DEDUPE ?? "false").toLowerCase() === "true"
+} as const;
+
+// CHANGE: Configure blocking of announcements with risky plugin sources.
+// WHY: Some communities must not redistribute plugins that run processes or load assemblies.
+// QUOTE(TЗ): "with a configurable policy to block announcements above a risk threshold."
+// REF: REQ-28
+// SOURCE: user request
+
+/**
+ * Safety scan policy. Plugins whose risk score reaches `BLOCK_SCORE` are not announced;
+ * the default 0 only adds warnings to announcements.
+ */
+export const SAFETY = {
+  BLOCK_SCORE: Number.parseInt(process.env.PLUGINS_SAFETY_BLOCK_SCORE ?? "0", 10)
+} as const;
+
+// CHANGE: Configure where announced plugin files are retained.
+// WHY: Update changelogs diff the new source against the previously announced one.
+// QUOTE(TЗ): "That requires retaining the previous file content or its location alongside `CachedEntry`."
+// REF: REQ-29
+// SOURCE: user request
+
+/**
+ * Plugin archive settings: announced files are kept under `DIR/blobs` with a manifest in
+ * `DIR/manifest.jsonl`. `DIR` is empty by default, which disables the archive and changelog summaries.
+ */
+export const CONTENT = {
+  DIR: process.env.PLUGINS_CONTENT_DIR ?? ""
+} as const;
+
 /**
  * Network-level configuration for HTTP operations.
  *
- * Invariant: `CONCURRENCY` must be positive.
+ * Invariant: `CONCURRENCY` must be positive; `CACHE_DIR` is empty by default, which disables conditional
+ * requests and the notify short-circuit;
+ * `PIPELINE_DEPTH` below 1 counts as 1.
  */
 export const NET = {
   TIMEOUT: Number.parseInt(process.env.HTTP_TIMEOUT ?? "30000", 10),
-  CONCURRENCY: Number.parseInt(process.env.PLUGINS_CONCURRENCY ?? "6", 10)
+  CONCURRENCY: Number.parseInt(process.env.PLUGINS_CONCURRENCY ?? "6", 10),
+  // CHANGE: Keep index responses on disk for conditional requests.
+  // WHY: Unchanged multi-megabyte indices should not be downloaded on every run.
+  // QUOTE(TЗ): "support conditional requests with a small on-disk HTTP cache (ETag, Last-Modified, body)"
+  // REF: REQ-23
+  // SOURCE: user request
+  CACHE_DIR: process.env.PLUGINS_HTTP_CACHE_DIR ?? "",
+  // CHANGE: Bound how far plugin downloads run ahead of webhook delivery.
+  // WHY: Prefetched attachments are held in memory until their turn to be announced.
+  // QUOTE(TЗ): "with backpressure and a memory cap on buffered attachments."
+  // REF: REQ-34
+  // SOURCE: user request
+  PIPELINE_DEPTH: Number.parseInt(process.env.PLUGINS_PIPELINE_DEPTH ?? "12", 10),
+  PIPELINE_MAX_BYTES: Number.parseInt(process.env.PLUGINS_PIPELINE_MAX_BYTES ?? "67108864", 10)
 } as const;
 
 /**
  * Cache state settings used to maintain idempotent notifications.
+ *
+ * `BACKEND` selects `json` (`PATH`) or `sqlite` (`SQLITE_PATH`, importing `PATH` on first use).
  */
 export const STATE = {
   PATH: "plugins-state.json",
-  VERSION: 1
+  SQLITE_PATH: process.env.PLUGINS_STATE_SQLITE_PATH ?? "plugins-state.sqlite",
+  BACKEND: (process.env.PLUGINS_STATE_BACKEND ?? "json").toLowerCase(),
+  VERSION: 2,
+  // CHANGE: Keep a journal of the current notify run next to the state.
+  // WHY: `notify --resume` reports where an interrupted run stopped.
+  // QUOTE(TЗ): "a run journal (run id, started, last key, counts)"
+  // REF: REQ-35
+  // SOURCE: user request
+  JOURNAL_PATH: process.env.PLUGINS_JOURNAL_PATH ?? "plugins-run.json"
 } as const;
@@ -0,0 +1,151 @@
+// CHANGE: Group pending plugins into batches announced together in one webhook message.
+// WHY: Uploading tens of thousands of plugins one message each hammers rate limits and floods the channel.
+// QUOTE(TЗ): "a `plugins digest` command that groups pending plugins (per hour/day, per repository, or N per message) into multi-embed messages"
+// REF: REQ-32
+// SOURCE: user request
+
+import { IndexedPlugin, PluginIndex } from "./types.js";
+import { pluginKey } from "./utils/plugin-key.js";
+import type { AttachmentPayload, DiscordEmbed } from "./webhook.js";
+
+const EMBED_COLOR = 0x00adff;
+const MAX_DESCRIPTION_LENGTH = 4096;
+const MAX_SUMMARY_LINES = 40;
+const TIMESTAMP_FIELDS = ["updated_at", "pushed_at", "committed_at", "indexed_at"];
+
+/**
+ * How pending plugins are grouped into digest messages: by the hour or day of their
+ * timestamp, by repository, or simply `size` plugins per message.
+ */
+export type DigestGrouping = "hour" | "day" | "repository" | "count";
+
+/**
+ * Plugins announced together in one digest message.
+ *
+ * @property title - Group label used as forum post name and summary title.
+ * @property plugins - Plugins of the batch, in index order.
+ */
+export interface DigestBatch {
+  readonly title: string;
+  readonly plugins: readonly IndexedPlugin[];
+}
+
+/**
+ * Timestamp grouping a plugin into an hour or day digest.
+ *
+ * @param plugin - Pending plugin.
+ * @param fallback - Timestamp used when the index carries none, usually the run time.
+ * @returns First parseable `updated_at`, `pushed_at`, `committed_at` or `indexed_at` of `extra`, else `fallback`.
+ */
+export function pluginTimestamp(plugin: IndexedPlugin, fallback: Date): Date {
+  for (const field of TIMESTAMP_FIELDS) {
+    const value = plugin.extra?.[field];
+    const parsed = typeof value === "string" ? new Date(value) : undefined;
+    if (parsed && !Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+  return fallback;
+}
+
+function groupLabel(plugin: IndexedPlugin, grouping: DigestGrouping, now: Date): string {
+  switch (grouping) {
+    case "hour":
+      return `${pluginTimestamp(plugin, now).toISOString().slice(0, 13)}:00Z`;
+    case "day":
+      return pluginTimestamp(plugin, now).toISOString().slice(0, 10);
+    case "repository":
+      return plugin.repository?.full_name ?? "unknown repository";
+    case "count":
+      return "Plugins";
+  }
+}
+
+/**
+ * Split pending plugins into digest batches.
+ *
+ * Invariant: every plugin appears in exactly one batch and no batch exceeds `size`; batches
+ * of a group keep index order and are numbered when a group needs more than one.
+ *
+ * @param plugins - Pending plugins in index order.
+ * @param grouping - Grouping strategy.
+ * @param size - Maximum plugins per batch.
+ * @param now - Run time, used for plugins without a timestamp.
+ * @returns Batches ordered by first appearance of their group.
+ * @throws Error if `size` is not a positive integer.
+ */
+export function planDigest(
+  plugins: readonly IndexedPlugin[],
+  grouping: DigestGrouping,
+  size: number,
+  now: Date = new Date()
+): DigestBatch[] {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`Digest size must be a positive integer, got ${size}.`);
+  }
+  const groups = new Map<string, IndexedPlugin[]>();
+  for (const plugin of plugins) {
+    const label = groupLabel(plugin, grouping, now);
+    const members = groups.get(label);
+    if (members) {
+      members.push(plugin);
+    } else {
+      groups.set(label, [plugin]);
+    }
+  }
+  const batches: DigestBatch[] = [];
+  for (const [label, members] of groups) {
+    const parts = Math.ceil(members.length / size);
+    for (let part = 0; part < parts; part += 1) {
+      batches.push({
+        title: parts > 1 ? `${label} (${part + 1}/${parts})` : label,
+        plugins: members.slice(part * size, (part + 1) * size)
+      });
+    }
+  }
+  return batches;
+}
+
+function summaryLine(plugin: IndexedPlugin): string {
+  const name = plugin.plugin_name ?? plugin.file.path ?? pluginKey(plugin);
+  const version = plugin.plugin_version ? ` ${plugin.plugin_version}` : "";
+  const repository = plugin.repository?.full_name ? ` — ${plugin.repository.full_name}` : "";
+  return `• ${name}${version}${repository}`;
+}
+
+/**
+ * Build a single embed summarising a batch; the full list travels in the index attachment.
+ *
+ * @param batch - Digest batch.
+ * @returns Summary embed listing the first plugins of the batch.
+ */
+export function buildDigestSummaryEmbed(batch: DigestBatch): DiscordEmbed {
+  const lines = batch.plugins.slice(0, MAX_SUMMARY_LINES).map(summaryLine);
+  const rest = batch.plugins.length - lines.length;
+  const description = [...lines, ...(rest > 0 ? [`…and ${rest} more in the attached index`] : [])].join("\n");
+  return {
+    title: `📚 ${batch.title}: ${batch.plugins.length} plugins`,
+    description:
+      description.length > MAX_DESCRIPTION_LENGTH ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…` : description,
+    color: EMBED_COLOR,
+    fields: [],
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Generate the index file attached to a summary digest.
+ *
+ * @param batch - Digest batch.
+ * @returns JSON `PluginIndex` of the batch named after its title.
+ */
+export function buildDigestIndexAttachment(batch: DigestBatch): AttachmentPayload {
+  const index: PluginIndex = {
+    generated_at: new Date().toISOString(),
+    query: batch.title,
+    count: batch.plugins.length,
+    items: batch.plugins
+  };
+  const slug = batch.title.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "digest";
+  return { name: `${slug}.json`, buffer: Buffer.from(JSON.stringify(index, null, 2)) };
+}
@@ -0,0 +1,235 @@
+// CHANGE: Decide which indexed plugins are announced with declarative include/exclude rules.
+// WHY: Every plugin with a raw URL was announced; `ONLY_CS_ATTACHMENTS` was the only knob.
+// QUOTE(TЗ): "We want a declarative filter config (include/exclude by category, author, repository glob, minimum `stargazers_count`, archived flag, file path pattern, description keywords, file size) evaluated against `IndexedPlugin` before download"
+// REF: REQ-31
+// SOURCE: user request
+
+import fs from "fs-extra";
+import { FILTERS } from "./config.js";
+import { IndexedPlugin, JsonValue } from "./types.js";
+import { globToRegExp } from "./utils/glob.js";
+
+/**
+ * Criteria of a filter rule. Every specified criterion must match; list criteria match
+ * when any entry matches. Text comparisons are case-insensitive.
+ *
+ * @property categories - Accepted category names.
+ * @property authors - Accepted plugin authors.
+ * @property repositories - `owner/repo` glob patterns (`*` wildcard).
+ * @property paths - File path glob patterns.
+ * @property keywords - Words searched in the plugin description.
+ * @property minStars - Minimum repository `stargazers_count`.
+ * @property archived - Required repository archived flag; unknown counts as not archived.
+ * @property minSize - Minimum indexed file size in bytes.
+ * @property maxSize - Maximum indexed file size in bytes.
+ *
+ * Invariant: numeric criteria never match plugins whose index lacks the value.
+ */
+export interface FilterMatch {
+  readonly categories?: readonly string[];
+  readonly authors?: readonly string[];
+  readonly repositories?: readonly string[];
+  readonly paths?: readonly string[];
+  readonly keywords?: readonly string[];
+  readonly minStars?: number;
+  readonly archived?: boolean;
+  readonly minSize?: number;
+  readonly maxSize?: number;
+}
+
+/**
+ * Whether a matching rule lets a plugin through or holds it back.
+ */
+export type FilterAction = "include" | "exclude";
+
+/**
+ * Named filter rule.
+ *
+ * @property name - Unique rule name reported by dry-run.
+ * @property action - Outcome for plugins matching the rule.
+ * @property match - Criteria selecting plugins.
+ */
+export interface FilterRule {
+  readonly name: string;
+  readonly action: FilterAction;
+  readonly match: FilterMatch;
+}
+
+/**
+ * Filter config file contents.
+ *
+ * @property default - Outcome for plugins matching no rule.
+ * @property rules - Ordered rules; the first matching rule decides.
+ */
+export interface FilterConfig {
+  readonly default: FilterAction;
+  readonly rules: readonly FilterRule[];
+}
+
+/**
+ * Outcome of evaluating the filter config for one plugin.
+ *
+ * @property accepted - Whether the plugin may be announced.
+ * @property rule - Name of the deciding rule, `default` when no rule matched.
+ */
+export interface FilterDecision {
+  readonly accepted: boolean;
+  readonly rule: string;
+}
+
+const MATCH_KEYS = new Set([
+  "categories",
+  "authors",
+  "repositories",
+  "paths",
+  "keywords",
+  "minStars",
+  "archived",
+  "minSize",
+  "maxSize"
+]);
+
+function isRecord(value: JsonValue): value is { readonly [key: string]: JsonValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseAction(value: JsonValue, path: string, field: string): FilterAction {
+  if (value !== "include" && value !== "exclude") {
+    throw new Error(`Malformed filter config: ${path} (${field} must be "include" or "exclude")`);
+  }
+  return value;
+}
+
+function parseMatch(value: JsonValue, path: string, rule: string): FilterMatch {
+  if (!isRecord(value)) {
+    throw new Error(`Malformed filter config: ${path} (rule "${rule}" requires "match")`);
+  }
+  const unknown = Object.keys(value).filter(key => !MATCH_KEYS.has(key));
+  if (unknown.length > 0) {
+    throw new Error(`Malformed filter config: ${path} (rule "${rule}" has unknown criteria ${unknown.join(", ")})`);
+  }
+  const list = (key: string): string[] | undefined => {
+    const raw = value[key];
+    if (raw === undefined) {
+      return undefined;
+    }
+    if (!Array.isArray(raw) || raw.some(item => typeof item !== "string")) {
+      throw new Error(`Malformed filter config: ${path} (rule "${rule}": ${key} must be a list of strings)`);
+    }
+    return raw as string[];
+  };
+  const number = (key: string): number | undefined => {
+    const raw = value[key];
+    if (raw === undefined) {
+      return undefined;
+    }
+    if (typeof raw !== "number" || !Number.isFinite(raw)) {
+      throw new Error(`Malformed filter config: ${path} (rule "${rule}": ${key} must be a number)`);
+    }
+    return raw;
+  };
+  if (value.archived !== undefined && typeof value.archived !== "boolean") {
+    throw new Error(`Malformed filter config: ${path} (rule "${rule}": archived must be a boolean)`);
+  }
+  return {
+    categories: list("categories"),
+    authors: list("authors"),
+    repositories: list("repositories"),
+    paths: list("paths"),
+    keywords: list("keywords"),
+    minStars: number("minStars"),
+    archived: typeof value.archived === "boolean" ? value.archived : undefined,
+    minSize: number("minSize"),
+    maxSize: number("maxSize")
+  };
+}
+
+/**
+ * Parse filter config JSON value.
+ *
+ * @param value - Parsed JSON document.
+ * @param path - Source path used in error messages.
+ * @returns Validated filter config.
+ * @throws Error if the document is malformed or rule names repeat.
+ */
+export function parseFilterConfig(value: JsonValue, path: string): FilterConfig {
+  if (!isRecord(value) || !Array.isArray(value.rules)) {
+    throw new Error(`Malformed filter config: ${path}`);
+  }
+  const names = new Set<string>();
+  const rules = value.rules.map(raw => {
+    if (!isRecord(raw) || typeof raw.name !== "string" || raw.name.length === 0) {
+      throw new Error(`Malformed filter config: ${path} (rule requires "name", "action" and "match")`);
+    }
+    if (names.has(raw.name)) {
+      throw new Error(`Malformed filter config: ${path} (duplicate rule "${raw.name}")`);
+    }
+    names.add(raw.name);
+    return {
+      name: raw.name,
+      action: parseAction(raw.action, path, `rule "${raw.name}" action`),
+      match: parseMatch(raw.match, path, raw.name)
+    };
+  });
+  return {
+    default: value.default === undefined ? "include" : parseAction(value.default, path, "default"),
+    rules
+  };
+}
+
+/**
+ * Read the filter config.
+ *
+ * @param path - JSON file path; empty disables filtering.
+ * @returns Validated filter config, or undefined when filtering is disabled.
+ */
+export function loadFilterConfig(path: string = FILTERS.CONFIG_PATH): FilterConfig | undefined {
+  return path ? parseFilterConfig(fs.readJsonSync(path) as JsonValue, path) : undefined;
+}
+
+function anyEqual(candidates: readonly string[], values: readonly string[]): boolean {
+  const lowered = new Set(values.map(value => value.toLowerCase()));
+  return candidates.some(candidate => lowered.has(candidate.toLowerCase()));
+}
+
+function anyGlob(value: string | undefined, patterns: readonly string[]): boolean {
+  return value !== undefined && patterns.some(pattern => globToRegExp(pattern).test(value));
+}
+
+/**
+ * Determine whether a plugin satisfies filter criteria.
+ *
+ * @param match - Rule criteria.
+ * @param plugin - Candidate plugin.
+ * @returns True when every specified criterion matches.
+ */
+export function matchesFilter(match: FilterMatch, plugin: IndexedPlugin): boolean {
+  const stars = plugin.repository?.stargazers_count;
+  const size = plugin.file.size;
+  const description = plugin.plugin_description?.toLowerCase() ?? "";
+  return (
+    (!match.categories || anyEqual(plugin.categories ?? [], match.categories)) &&
+    (!match.authors || (plugin.plugin_author !== undefined && anyEqual([plugin.plugin_author], match.authors))) &&
+    (!match.repositories || anyGlob(plugin.repository?.full_name, match.repositories)) &&
+    (!match.paths || anyGlob(plugin.file.path, match.paths)) &&
+    (!match.keywords || match.keywords.some(keyword => description.includes(keyword.toLowerCase()))) &&
+    (match.minStars === undefined || (stars !== undefined && stars >= match.minStars)) &&
+    (match.archived === undefined || (plugin.repository?.archived ?? false) === match.archived) &&
+    (match.minSize === undefined || (size !== undefined && size >= match.minSize)) &&
+    (match.maxSize === undefined || (size !== undefined && size <= match.maxSize))
+  );
+}
+
+/**
+ * Decide whether a plugin is announced. The first matching rule decides; plugins matching
+ * no rule get the config default.
+ *
+ * @param config - Filter config.
+ * @param plugin - Candidate plugin.
+ * @returns Decision with the deciding rule name.
+ */
+export function evaluateFilters(config: FilterConfig, plugin: IndexedPlugin): FilterDecision {
+  const rule = config.rules.find(candidate => matchesFilter(candidate.match, plugin));
+  const action = rule ? rule.action : config.default;
+  return { accepted: action === "include", rule: rule?.name ?? "default" };
+}
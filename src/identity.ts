@@ -0,0 +1,170 @@
+// CHANGE: Group forks and mirrors of the same plugin and pick one canonical entry.
+// WHY: `pluginKey` is the raw URL, so every fork or branch copy was announced separately.
+// QUOTE(TЗ): "We'd like an identity resolver that groups entries by normalised plugin name + author + `[Info]` attribute, content sha256 or the upstream git `sha`, picks a canonical entry (e.g. most stars, not archived), and records aliases in the state so forks of already-announced plugins are skipped or grouped."
+// REF: REQ-26
+// SOURCE: user request
+
+import { CachedEntry, IndexedPlugin } from "./types.js";
+import { pluginKey } from "./utils/plugin-key.js";
+
+/**
+ * Result of identity resolution.
+ *
+ * @property plugins - Plugins to process: announced members plus one canonical plugin per unannounced group.
+ * @property aliases - Representative key (announced entry or canonical plugin) to the keys grouped under it.
+ */
+export interface IdentityResolution {
+  readonly plugins: readonly IndexedPlugin[];
+  readonly aliases: ReadonlyMap<string, readonly string[]>;
+}
+
+function normaliseName(value: string | undefined): string | undefined {
+  const normalised = value?.toLowerCase().replace(/[^a-z0-9]+/g, "");
+  return normalised ? normalised : undefined;
+}
+
+function nameIdentity(name: string | undefined, author: string | undefined): string | undefined {
+  const normalisedName = normaliseName(name);
+  const normalisedAuthor = normaliseName(author);
+  return normalisedName && normalisedAuthor ? `info:${normalisedName}::${normalisedAuthor}` : undefined;
+}
+
+/**
+ * Identity signals of an indexed plugin: upstream git sha and the `[Info]` name and author
+ * reported by the index.
+ *
+ * @param plugin - Indexed plugin.
+ * @returns Identity keys; plugins sharing any key are the same plugin.
+ */
+export function pluginIdentities(plugin: IndexedPlugin): string[] {
+  return [
+    plugin.file.sha ? `sha:${plugin.file.sha}` : undefined,
+    nameIdentity(plugin.plugin_name, plugin.plugin_author)
+  ].filter((identity): identity is string => identity !== undefined);
+}
+
+/**
+ * Identity signals of an announced entry, including its downloaded content sha256.
+ *
+ * @param entry - Cached entry.
+ * @returns Identity keys.
+ */
+export function entryIdentities(entry: CachedEntry): string[] {
+  return [
+    entry.fileSha ? `sha:${entry.fileSha}` : undefined,
+    entry.contentHash ? `content:${entry.contentHash}` : undefined,
+    nameIdentity(entry.pluginName, entry.pluginAuthor)
+  ].filter((identity): identity is string => identity !== undefined);
+}
+
+class DisjointSet {
+  private readonly parents = new Map<string, string>();
+
+  find(node: string): string {
+    let root = node;
+    while (this.parents.has(root) && this.parents.get(root) !== root) {
+      root = this.parents.get(root) as string;
+    }
+    this.parents.set(node, root);
+    return root;
+  }
+
+  union(left: string, right: string): void {
+    const leftRoot = this.find(left);
+    const rightRoot = this.find(right);
+    if (leftRoot !== rightRoot) {
+      this.parents.set(rightRoot, leftRoot);
+    }
+  }
+}
+
+function canonicalOf(members: readonly IndexedPlugin[]): IndexedPlugin {
+  return members.reduce((best, candidate) => {
+    const bestArchived = best.repository?.archived === true;
+    const candidateArchived = candidate.repository?.archived === true;
+    if (bestArchived !== candidateArchived) {
+      return candidateArchived ? best : candidate;
+    }
+    return (candidate.repository?.stargazers_count ?? 0) > (best.repository?.stargazers_count ?? 0) ? candidate : best;
+  });
+}
+
+/**
+ * Group plugins that share an identity with each other or with an announced entry.
+ *
+ * Invariant: a group containing an announced (delivered, not retracted) entry yields no
+ * new announcement; its unannounced members become aliases of that entry. Otherwise the
+ * canonical member (not archived, then most stars, then index order) is kept and the
+ * rest become its aliases.
+ *
+ * @param plugins - Indexed plugins.
+ * @param entries - Current state entries.
+ * @returns Plugins to process and aliases to record.
+ */
+export function resolveIdentities(plugins: readonly IndexedPlugin[], entries: readonly CachedEntry[]): IdentityResolution {
+  const sets = new DisjointSet();
+  const announced = new Map(
+    entries
+      .filter(entry => !entry.retractedAt && entry.destinations?.length !== 0)
+      .map(entry => [entry.key, entry] as const)
+  );
+  const link = (node: string, identities: readonly string[]): void => {
+    for (const identity of identities) {
+      sets.union(identity, node);
+    }
+  };
+  for (const entry of announced.values()) {
+    link(`key:${entry.key}`, [...entryIdentities(entry), ...(entry.aliases ?? []).map(alias => `key:${alias}`)]);
+  }
+  for (const plugin of plugins) {
+    link(`key:${pluginKey(plugin)}`, pluginIdentities(plugin));
+  }
+
+  const groups = new Map<string, IndexedPlugin[]>();
+  for (const plugin of plugins) {
+    const root = sets.find(`key:${pluginKey(plugin)}`);
+    const members = groups.get(root);
+    if (members) {
+      members.push(plugin);
+    } else {
+      groups.set(root, [plugin]);
+    }
+  }
+  const representatives = new Map<string, CachedEntry>();
+  for (const entry of announced.values()) {
+    const root = sets.find(`key:${entry.key}`);
+    const current = representatives.get(root);
+    if (!current || Date.parse(entry.notifiedAt) < Date.parse(current.notifiedAt)) {
+      representatives.set(root, entry);
+    }
+  }
+
+  const kept = new Set<IndexedPlugin>();
+  const aliases = new Map<string, readonly string[]>();
+  for (const [root, members] of groups) {
+    const representative = representatives.get(root);
+    const keep = representative
+      ? members.filter(member => announced.has(pluginKey(member)))
+      : [canonicalOf(members)];
+    keep.forEach(member => kept.add(member));
+    const representativeKey = representative?.key ?? pluginKey(keep[0]);
+    const grouped = members.filter(member => !keep.includes(member)).map(pluginKey);
+    if (grouped.length > 0) {
+      aliases.set(representativeKey, grouped);
+    }
+  }
+  return { plugins: plugins.filter(plugin => kept.has(plugin)), aliases };
+}
+
+/**
+ * Merge newly grouped alias keys into an entry.
+ *
+ * @param entry - Representative entry.
+ * @param keys - Alias keys to add.
+ * @returns Updated entry, or undefined when nothing changed.
+ */
+export function withAliases(entry: CachedEntry, keys: readonly string[]): CachedEntry | undefined {
+  const known = new Set(entry.aliases ?? []);
+  const added = keys.filter(key => key !== entry.key && !known.has(key));
+  return added.length > 0 ? { ...entry, aliases: [...known, ...added].sort() } : undefined;
+}
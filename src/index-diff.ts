@@ -0,0 +1,230 @@
+// CHANGE: Compare two merged plugin indices keyed by pluginKey.
+// WHY: Upstream changes between runs must be reviewable without diffing raw JSON.
+// QUOTE(TЗ): "We want to know what changed upstream between two index snapshots: plugins added, removed, version bumped, moved repositories, changed sha."
+// REF: REQ-24
+// SOURCE: user request
+
+import { IndexedPlugin } from "./types.js";
+import { pluginKey } from "./utils/plugin-key.js";
+import type { DiscordEmbed, DiscordEmbedField } from "./webhook.js";
+
+const EMBED_COLOR = 0x5865f2;
+const MAX_FIELD_LINES = 10;
+const MAX_FIELD_LENGTH = 1024;
+
+/**
+ * Plugin whose version changed between the two indices.
+ */
+export interface VersionChange {
+  readonly key: string;
+  readonly plugin: IndexedPlugin;
+  readonly from?: string;
+  readonly to?: string;
+}
+
+/**
+ * Plugin that moved to another repository. `fromKey` equals `key` when the
+ * key itself did not change.
+ */
+export interface RepositoryMove {
+  readonly key: string;
+  readonly fromKey: string;
+  readonly plugin: IndexedPlugin;
+  readonly from?: string;
+  readonly to?: string;
+}
+
+/**
+ * Plugin whose file sha changed without a version bump.
+ */
+export interface ShaChange {
+  readonly key: string;
+  readonly plugin: IndexedPlugin;
+  readonly from?: string;
+  readonly to?: string;
+}
+
+/**
+ * Differences between two indices.
+ *
+ * Invariant: each key appears in at most one of `added`, `removed`, `moved`; a moved or
+ * kept plugin may additionally appear in `versionChanged` or `shaChanged`.
+ */
+export interface IndexDiff {
+  readonly before: number;
+  readonly after: number;
+  readonly added: readonly IndexedPlugin[];
+  readonly removed: readonly IndexedPlugin[];
+  readonly versionChanged: readonly VersionChange[];
+  readonly moved: readonly RepositoryMove[];
+  readonly shaChanged: readonly ShaChange[];
+}
+
+function fileName(plugin: IndexedPlugin): string {
+  return (plugin.file.path ?? plugin.file.raw_url ?? "").split("/").pop()?.toLowerCase() ?? "";
+}
+
+function identity(plugin: IndexedPlugin): string | undefined {
+  const name = plugin.plugin_name?.toLowerCase();
+  return name ? `${name}::${fileName(plugin)}` : undefined;
+}
+
+function repositoryOf(plugin: IndexedPlugin): string | undefined {
+  return plugin.repository?.full_name;
+}
+
+function compareKept(
+  key: string,
+  previous: IndexedPlugin,
+  current: IndexedPlugin,
+  versionChanged: VersionChange[],
+  shaChanged: ShaChange[]
+): void {
+  if ((previous.plugin_version ?? "") !== (current.plugin_version ?? "")) {
+    versionChanged.push({ key, plugin: current, from: previous.plugin_version, to: current.plugin_version });
+  } else if (previous.file.sha && current.file.sha && previous.file.sha !== current.file.sha) {
+    shaChanged.push({ key, plugin: current, from: previous.file.sha, to: current.file.sha });
+  }
+}
+
+/**
+ * Diff two plugin lists keyed by `pluginKey`. A removed and an added plugin sharing
+ * name and file name in different repositories are reported as one move.
+ *
+ * @param before - Earlier plugin list.
+ * @param after - Later plugin list.
+ * @returns Classified differences in `after` order (removals in `before` order).
+ */
+export function diffIndices(before: readonly IndexedPlugin[], after: readonly IndexedPlugin[]): IndexDiff {
+  const previous = new Map(before.map(plugin => [pluginKey(plugin), plugin] as const));
+  const current = new Map(after.map(plugin => [pluginKey(plugin), plugin] as const));
+  const versionChanged: VersionChange[] = [];
+  const shaChanged: ShaChange[] = [];
+  const moved: RepositoryMove[] = [];
+  const added: IndexedPlugin[] = [];
+
+  for (const [key, plugin] of current) {
+    const old = previous.get(key);
+    if (!old) {
+      added.push(plugin);
+      continue;
+    }
+    if ((repositoryOf(old) ?? "").toLowerCase() !== (repositoryOf(plugin) ?? "").toLowerCase()) {
+      moved.push({ key, fromKey: key, plugin, from: repositoryOf(old), to: repositoryOf(plugin) });
+    }
+    compareKept(key, old, plugin, versionChanged, shaChanged);
+  }
+
+  const removedByIdentity = new Map<string, [string, IndexedPlugin][]>();
+  const removed = Array.from(previous).filter(([key]) => !current.has(key));
+  for (const entry of removed) {
+    const id = identity(entry[1]);
+    if (id) {
+      removedByIdentity.set(id, [...(removedByIdentity.get(id) ?? []), entry]);
+    }
+  }
+  const movedFrom = new Set<string>();
+  const stillAdded = added.filter(plugin => {
+    const id = identity(plugin);
+    const candidates = id ? removedByIdentity.get(id) : undefined;
+    const match = candidates?.find(([fromKey]) => !movedFrom.has(fromKey));
+    if (!match) {
+      return true;
+    }
+    const [fromKey, old] = match;
+    const key = pluginKey(plugin);
+    movedFrom.add(fromKey);
+    moved.push({ key, fromKey, plugin, from: repositoryOf(old), to: repositoryOf(plugin) });
+    compareKept(key, old, plugin, versionChanged, shaChanged);
+    return false;
+  });
+
+  return {
+    before: previous.size,
+    after: current.size,
+    added: stillAdded,
+    removed: removed.filter(([key]) => !movedFrom.has(key)).map(([, plugin]) => plugin),
+    versionChanged,
+    moved,
+    shaChanged
+  };
+}
+
+function label(plugin: IndexedPlugin): string {
+  return plugin.plugin_name ?? pluginKey(plugin);
+}
+
+function sections(diff: IndexDiff): readonly { readonly title: string; readonly lines: readonly string[] }[] {
+  return [
+    { title: "Added", lines: diff.added.map(plugin => `${label(plugin)} ${plugin.plugin_version ?? ""}`.trim()) },
+    { title: "Removed", lines: diff.removed.map(label) },
+    {
+      title: "Version changed",
+      lines: diff.versionChanged.map(change => `${label(change.plugin)} ${change.from ?? "?"} → ${change.to ?? "?"}`)
+    },
+    {
+      title: "Moved",
+      lines: diff.moved.map(move => `${label(move.plugin)} ${move.from ?? "?"} → ${move.to ?? "?"}`)
+    },
+    { title: "Sha changed", lines: diff.shaChanged.map(change => label(change.plugin)) }
+  ];
+}
+
+/**
+ * Render a human-readable multi-line summary.
+ *
+ * @param diff - Index differences.
+ * @returns Summary text.
+ */
+export function formatIndexDiff(diff: IndexDiff): string {
+  const lines = [`Index diff: ${diff.before} → ${diff.after} plugins`];
+  for (const section of sections(diff)) {
+    lines.push(`${section.title}: ${section.lines.length}`);
+    lines.push(...section.lines.map(line => `  ${line}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Serialise the diff with plugins reduced to their keys.
+ *
+ * @param diff - Index differences.
+ * @returns JSON-friendly report.
+ */
+export function indexDiffReport(diff: IndexDiff): object {
+  return {
+    before: diff.before,
+    after: diff.after,
+    added: diff.added.map(pluginKey),
+    removed: diff.removed.map(pluginKey),
+    versionChanged: diff.versionChanged.map(({ key, from, to }) => ({ key, from, to })),
+    moved: diff.moved.map(({ key, fromKey, from, to }) => ({ key, fromKey, from, to })),
+    shaChanged: diff.shaChanged.map(({ key, from, to }) => ({ key, from, to }))
+  };
+}
+
+function fieldValue(lines: readonly string[]): string {
+  const shown = lines.slice(0, MAX_FIELD_LINES);
+  const rest = lines.length - shown.length;
+  const value = [...shown, ...(rest > 0 ? [`…and ${rest} more`] : [])].join("\n");
+  return value.length > MAX_FIELD_LENGTH ? `${value.slice(0, MAX_FIELD_LENGTH - 1)}…` : value;
+}
+
+/**
+ * Build a Discord digest embed listing up to ten plugins per change kind.
+ *
+ * @param diff - Index differences.
+ * @returns Digest embed.
+ */
+export function buildIndexDiffEmbed(diff: IndexDiff): DiscordEmbed {
+  const fields: DiscordEmbedField[] = sections(diff)
+    .filter(section => section.lines.length > 0)
+    .map(section => ({ name: `${section.title} (${section.lines.length})`, value: fieldValue(section.lines) }));
+  return {
+    title: "📊 Plugin index changes",
+    description: `${diff.before} → ${diff.after} plugins`,
+    color: EMBED_COLOR,
+    fields: fields.length > 0 ? fields : [{ name: "No changes", value: "Both indices list the same plugins." }],
+    timestamp: new Date().toISOString()
+  };
+}
@@ -0,0 +1,172 @@
+// CHANGE: Record progress of notify runs so an interrupted run can report where it stopped.
+// WHY: A run killed mid-webhook left no trace of the in-flight plugin, risking an unnoticed duplicate post.
+// QUOTE(TЗ): "a run journal (run id, started, last key, counts) so `notify --resume` reports exactly where it continues from."
+// REF: REQ-35
+// SOURCE: user request
+
+import { randomUUID } from "crypto";
+import fs from "fs-extra";
+import { STATE } from "./config.js";
+
+/**
+ * Outcome of one plugin within a run.
+ */
+export type RunOutcome = "delivered" | "skipped" | "failed";
+
+/**
+ * Lifecycle of a run; `running` after a restart means the process died without a shutdown.
+ */
+export type RunStatus = "running" | "interrupted" | "completed";
+
+/**
+ * Persisted run journal.
+ *
+ * @property runId - Identifier shared by a run and its resumptions.
+ * @property command - CLI command that started the run.
+ * @property startedAt - ISO timestamp of the first start.
+ * @property updatedAt - ISO timestamp of the last write.
+ * @property status - Run lifecycle state.
+ * @property lastKey - Key of the last plugin whose outcome was recorded.
+ * @property inFlight - Key of the plugin being delivered when the journal was written.
+ * @property counts - Plugins per outcome.
+ * @property resumedAt - ISO timestamps of resumptions.
+ *
+ * Invariant: `inFlight` is set only between `begin` and `record` of the same key, or in an
+ * interrupted run whose delivery of that key was aborted.
+ */
+export interface RunJournalRecord {
+  readonly runId: string;
+  readonly command: string;
+  readonly startedAt: string;
+  readonly updatedAt: string;
+  readonly status: RunStatus;
+  readonly lastKey?: string;
+  readonly inFlight?: string;
+  readonly counts: { readonly [outcome in RunOutcome]: number };
+  readonly resumedAt?: readonly string[];
+}
+
+/**
+ * Read the journal of the previous run.
+ *
+ * @param path - Journal file.
+ * @returns Journal, or undefined when no run was recorded.
+ * @throws Error if the file exists but is not a journal.
+ */
+export async function readRunJournal(path: string = STATE.JOURNAL_PATH): Promise<RunJournalRecord | undefined> {
+  if (!(await fs.pathExists(path))) {
+    return undefined;
+  }
+  const record = (await fs.readJson(path)) as RunJournalRecord;
+  if (typeof record.runId !== "string" || typeof record.counts !== "object" || record.counts === null) {
+    throw new Error(`Malformed run journal: ${path}`);
+  }
+  return record;
+}
+
+/**
+ * Describe where an unfinished run stopped.
+ *
+ * @param record - Journal of the run.
+ * @returns One-line description with counts, last key and in-flight plugin.
+ */
+export function describeRunJournal(record: RunJournalRecord): string {
+  const { delivered, skipped, failed } = record.counts;
+  const position = record.lastKey ? `after ${record.lastKey}` : "from the first pending plugin";
+  const inFlight = record.inFlight
+    ? `; ${record.inFlight} was in flight and may already have been posted before it is sent again`
+    : "";
+  return (
+    `Run ${record.runId} (${record.command}, started ${record.startedAt}, ${record.status}): ` +
+    `${delivered} delivered, ${skipped} skipped, ${failed} failed; continues ${position}${inFlight}.`
+  );
+}
+
+/**
+ * Journal of the current run, written atomically after every change.
+ */
+export class RunJournal {
+  private constructor(
+    private state: RunJournalRecord,
+    readonly path: string
+  ) {}
+
+  /**
+   * Start a new run, or continue an unfinished one keeping its id and counts.
+   *
+   * @param command - CLI command of the run.
+   * @param resume - Previous journal to continue.
+   * @param path - Journal file.
+   * @returns Journal written with status `running`.
+   */
+  static async open(command: string, resume?: RunJournalRecord, path: string = STATE.JOURNAL_PATH): Promise<RunJournal> {
+    const now = new Date().toISOString();
+    const record: RunJournalRecord = resume
+      ? {
+          ...resume,
+          status: "running",
+          inFlight: undefined,
+          updatedAt: now,
+          resumedAt: [...(resume.resumedAt ?? []), now]
+        }
+      : {
+          runId: randomUUID(),
+          command,
+          startedAt: now,
+          updatedAt: now,
+          status: "running",
+          counts: { delivered: 0, skipped: 0, failed: 0 }
+        };
+    const journal = new RunJournal(record, path);
+    await journal.write(record);
+    return journal;
+  }
+
+  /**
+   * Current journal contents.
+   */
+  get current(): RunJournalRecord {
+    return this.state;
+  }
+
+  private async write(record: RunJournalRecord): Promise<void> {
+    this.state = { ...record, updatedAt: new Date().toISOString() };
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    await fs.outputJson(temporary, this.state, { spaces: 2 });
+    await fs.move(temporary, this.path, { overwrite: true });
+  }
+
+  /**
+   * Mark a plugin as being delivered.
+   *
+   * @param key - Plugin cache key.
+   */
+  async begin(key: string): Promise<void> {
+    await this.write({ ...this.state, inFlight: key });
+  }
+
+  /**
+   * Record the outcome of a plugin.
+   *
+   * @param key - Plugin cache key.
+   * @param outcome - What happened to the plugin.
+   */
+  async record(key: string, outcome: RunOutcome): Promise<void> {
+    await this.write({
+      ...this.state,
+      lastKey: key,
+      inFlight: undefined,
+      counts: { ...this.state.counts, [outcome]: this.state.counts[outcome] + 1 }
+    });
+  }
+
+  /**
+   * Close the run.
+   *
+   * @param status - `completed`, or `interrupted` after a shutdown request; an interrupted
+   * run keeps the key whose delivery was aborted.
+   */
+  async finish(status: Exclude<RunStatus, "running">): Promise<void> {
+    await this.write({ ...this.state, status, inFlight: status === "completed" ? undefined : this.state.inFlight });
+  }
+}
@@ -25,31 +25,60 @@ function mergePlugin(existing: IndexedPlugin, incoming: IndexedPlugin): IndexedP
   };
 }
 
+// CHANGE: Generalise the oxide-then-crawled precedence to an ordered N-way merge.
+// WHY: Any number of configured sources contribute to the merged index.
+// QUOTE(TЗ): "Merge precedence should generalise from the current oxide-then-crawled rule to an ordered N-way merge."
+// REF: REQ-21
+// SOURCE: user request
+
 /**
- * Merge two plugin indices respecting field priority rules.
+ * Index paired with the name of the source it came from.
+ */
+export interface NamedIndex {
+  readonly name: string;
+  readonly index: PluginIndex;
+}
+
+/**
+ * Merge any number of plugin indices in precedence order.
  *
- * @param oxide - Base index.
- * @param crawled - Crawled index with enriched metadata.
+ * Invariant: filled fields of later indices override earlier ones, so callers pass
+ * sources in ascending priority.
+ *
+ * @param indices - Indices ordered from lowest to highest priority.
  * @returns Combined index with deduplicated items.
  */
-export function mergeIndices(oxide: PluginIndex, crawled: PluginIndex): PluginIndex {
+export function mergeIndexList(indices: readonly NamedIndex[]): PluginIndex {
   const merged = new Map<string, IndexedPlugin>();
-  for (const plugin of oxide.items) {
-    merged.set(pluginKey(plugin), plugin);
-  }
-  for (const plugin of crawled.items) {
-    const key = pluginKey(plugin);
-    const existing = merged.get(key);
-    merged.set(
-      key,
-      existing ? mergePlugin(existing, plugin) : plugin
-    );
+  for (const { index } of indices) {
+    for (const plugin of index.items) {
+      const key = pluginKey(plugin);
+      const existing = merged.get(key);
+      merged.set(
+        key,
+        existing ? mergePlugin(existing, plugin) : plugin
+      );
+    }
   }
   const items = Array.from(merged.values());
   return {
     generated_at: new Date().toISOString(),
-    query: `Merged oxide(${oxide.count}) + crawled(${crawled.count})`,
+    query: `Merged ${indices.map(({ name, index }) => `${name}(${index.count})`).join(" + ")}`,
     count: items.length,
     items
   };
 }
+
+/**
+ * Merge two plugin indices respecting field priority rules.
+ *
+ * @param oxide - Base index.
+ * @param crawled - Crawled index with enriched metadata.
+ * @returns Combined index with deduplicated items.
+ */
+export function mergeIndices(oxide: PluginIndex, crawled: PluginIndex): PluginIndex {
+  return mergeIndexList([
+    { name: "oxide", index: oxide },
+    { name: "crawled", index: crawled }
+  ]);
+}
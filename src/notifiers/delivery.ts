@@ -0,0 +1,79 @@
+// CHANGE: Share retry and rate-limit handling between notification sinks.
+// WHY: Each platform signals throttling differently but the retry loop is identical.
+// QUOTE(TЗ): "each with its own attachment rules and rate-limit handling"
+// REF: REQ-12
+// SOURCE: user request
+
+import { AxiosError } from "axios";
+import { debug, error as logError } from "../logger.js";
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+/**
+ * Extracts the platform-specific wait time from a 429 response.
+ *
+ * @returns Delay in milliseconds or undefined when the response carries no hint.
+ */
+export type RetryAfterResolver = (error: AxiosError) => number | undefined;
+
+/**
+ * Pause execution for the provided duration.
+ *
+ * @param delayMs - Delay in milliseconds.
+ */
+export function sleep(delayMs: number): Promise<void> {
+  return new Promise(resolve => {
+    setTimeout(resolve, delayMs);
+  });
+}
+
+/**
+ * Read the standard `Retry-After` header (seconds) from an error response.
+ *
+ * @param error - Axios error carrying the response.
+ * @returns Delay in milliseconds or undefined.
+ */
+export function retryAfterHeader(error: AxiosError): number | undefined {
+  const raw = error.response?.headers?.["retry-after"];
+  const seconds = typeof raw === "string" || typeof raw === "number" ? Number(raw) : Number.NaN;
+  return Number.isFinite(seconds) ? Math.ceil(seconds * 1000) : undefined;
+}
+
+/**
+ * Execute a delivery request, waiting on 429 and backing off on 5xx responses.
+ *
+ * @param label - Sink name used in log messages.
+ * @param operation - Request to perform.
+ * @param retryAfter - Platform-specific 429 delay resolver.
+ * @returns Result of the successful operation.
+ * @throws AxiosError for non-retryable failures, Error when attempts are exhausted.
+ */
+export async function deliverWithRetry<T>(
+  label: string,
+  operation: () => Promise<T>,
+  retryAfter: RetryAfterResolver
+): Promise<T> {
+  for (let attempt = 0; attempt < MAX_DELIVERY_ATTEMPTS; attempt += 1) {
+    try {
+      return await operation();
+    } catch (cause) {
+      const axiosError = cause as AxiosError;
+      const status = axiosError.response?.status ?? 0;
+      if (status === 429) {
+        const retryDelay = retryAfter(axiosError) ?? 1000;
+        debug(`${label} rate limited, retrying after ${retryDelay}ms.`);
+        await sleep(retryDelay);
+        continue;
+      }
+      if (status >= 500 && status < 600) {
+        const delay = 500 * (attempt + 1);
+        debug(`${label} 5xx response (${status}), retrying after ${delay}ms.`);
+        await sleep(delay);
+        continue;
+      }
+      logError(`${label} delivery failed with status ${status}: ${axiosError.message}`);
+      throw axiosError;
+    }
+  }
+  throw new Error(`Failed to deliver ${label} notification after retries.`);
+}
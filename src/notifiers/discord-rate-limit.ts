@@ -0,0 +1,213 @@
+// CHANGE: Pace Discord requests from the rate-limit headers of every response.
+// WHY: Reacting only after a 429 wastes requests and risks the global limit on large runs.
+// QUOTE(TЗ): "we need a rate limiter that reads Discord's bucket headers from every response, pre-emptively paces requests, honours global limits across all webhooks, and counts 429s in the run summary. It should be testable with a fake clock."
+// REF: REQ-33
+// SOURCE: user request
+
+import { AxiosError, AxiosResponse } from "axios";
+import { debug } from "../logger.js";
+import { sleep } from "./delivery.js";
+
+/**
+ * Time source of the rate limiter; tests substitute a fake clock.
+ */
+export interface Clock {
+  now(): number;
+  sleep(delayMs: number): Promise<void>;
+}
+
+/**
+ * Wall clock backed by `Date.now` and `setTimeout`.
+ */
+export const systemClock: Clock = { now: () => Date.now(), sleep };
+
+/**
+ * Counters reported in run summaries.
+ *
+ * @property requests - Requests sent through the limiter.
+ * @property rateLimited - Responses with status 429, global ones included.
+ * @property globalLimited - 429 responses flagged as global.
+ * @property waitedMs - Total time spent pacing requests.
+ */
+export interface RateLimitStats {
+  readonly requests: number;
+  readonly rateLimited: number;
+  readonly globalLimited: number;
+  readonly waitedMs: number;
+}
+
+interface BucketState {
+  remaining: number;
+  resetAt: number;
+}
+
+type Headers = AxiosResponse["headers"] | undefined;
+
+function header(headers: Headers, name: string): string | undefined {
+  const value = headers?.[name] as unknown;
+  return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+}
+
+function seconds(value: string | number | undefined): number | undefined {
+  const parsed = value === undefined ? Number.NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Route key of a Discord request. Message ids are collapsed so edits and deletes of one
+ * webhook share a route until Discord names their bucket.
+ *
+ * @param method - HTTP method.
+ * @param url - Request URL.
+ * @returns Method and path without query or message id.
+ */
+export function discordRoute(method: string, url: string): string {
+  const path = new URL(url).pathname.replace(/\/messages\/\d+/, "/messages/:id");
+  return `${method.toUpperCase()} ${path}`;
+}
+
+/**
+ * Client-side model of Discord rate limits. Routes are mapped to buckets through
+ * `X-RateLimit-Bucket`; a bucket with no requests remaining holds requests until its
+ * `X-RateLimit-Reset-After` elapses, and a global 429 holds every route.
+ *
+ * Invariant: a request is never started while its bucket is exhausted or a global limit
+ * is active according to the latest observed headers.
+ */
+export class DiscordRateLimiter {
+  private readonly bucketByRoute = new Map<string, string>();
+  private readonly buckets = new Map<string, BucketState>();
+  private globalResetAt = 0;
+  private counters = { requests: 0, rateLimited: 0, globalLimited: 0, waitedMs: 0 };
+
+  constructor(private readonly clock: Clock = systemClock) {}
+
+  private bucketKey(route: string): string {
+    return this.bucketByRoute.get(route) ?? route;
+  }
+
+  /**
+   * Wait until a request on the route may be sent and reserve it.
+   *
+   * @param route - Route key from `discordRoute`.
+   */
+  async acquire(route: string): Promise<void> {
+    for (;;) {
+      const now = this.clock.now();
+      const key = this.bucketKey(route);
+      let bucket = this.buckets.get(key);
+      if (bucket && bucket.resetAt <= now) {
+        this.buckets.delete(key);
+        bucket = undefined;
+      }
+      const wait = Math.max(this.globalResetAt - now, bucket && bucket.remaining <= 0 ? bucket.resetAt - now : 0);
+      if (wait <= 0) {
+        if (bucket) {
+          bucket.remaining -= 1;
+        }
+        this.counters.requests += 1;
+        return;
+      }
+      debug(`Discord rate limit: waiting ${wait}ms before ${route}.`);
+      this.counters.waitedMs += wait;
+      await this.clock.sleep(wait);
+    }
+  }
+
+  /**
+   * Record the rate-limit state reported by a response.
+   *
+   * @param route - Route key of the request.
+   * @param response - Successful or failed response.
+   */
+  observe(route: string, response: Pick<AxiosResponse, "status" | "headers" | "data">): void {
+    const now = this.clock.now();
+    const { headers } = response;
+    const bucketId = header(headers, "x-ratelimit-bucket");
+    if (bucketId) {
+      this.bucketByRoute.set(route, bucketId);
+    }
+    const key = this.bucketKey(route);
+    const remaining = seconds(header(headers, "x-ratelimit-remaining"));
+    const resetAfter = seconds(header(headers, "x-ratelimit-reset-after"));
+    if (remaining !== undefined && resetAfter !== undefined) {
+      this.buckets.set(key, { remaining, resetAt: now + Math.ceil(resetAfter * 1000) });
+    }
+    if (response.status !== 429) {
+      return;
+    }
+    const body = (response.data ?? {}) as { readonly retry_after?: number; readonly global?: boolean };
+    const retryAfter = seconds(body.retry_after) ?? seconds(header(headers, "retry-after")) ?? resetAfter ?? 1;
+    const resetAt = now + Math.ceil(retryAfter * 1000);
+    const global =
+      body.global === true ||
+      header(headers, "x-ratelimit-global") === "true" ||
+      header(headers, "x-ratelimit-scope") === "global";
+    this.counters.rateLimited += 1;
+    if (global) {
+      this.counters.globalLimited += 1;
+      this.globalResetAt = Math.max(this.globalResetAt, resetAt);
+      debug(`Discord global rate limit for ${retryAfter}s.`);
+    } else {
+      this.buckets.set(key, { remaining: 0, resetAt });
+      debug(`Discord rate limit on ${route} for ${retryAfter}s.`);
+    }
+  }
+
+  /**
+   * Send a request once its bucket allows it and record the response headers.
+   *
+   * @param route - Route key from `discordRoute`.
+   * @param operation - Request to perform.
+   * @returns Response of the request.
+   * @throws The request error after recording its response.
+   */
+  async schedule<T>(route: string, operation: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
+    await this.acquire(route);
+    try {
+      const response = await operation();
+      this.observe(route, response);
+      return response;
+    } catch (cause) {
+      const response = (cause as AxiosError).response;
+      if (response) {
+        this.observe(route, response);
+      }
+      throw cause;
+    }
+  }
+
+  /**
+   * Counters accumulated since construction or the last `reset`.
+   *
+   * @returns Snapshot of the counters.
+   */
+  stats(): RateLimitStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Forget observed limits and counters.
+   */
+  reset(): void {
+    this.bucketByRoute.clear();
+    this.buckets.clear();
+    this.globalResetAt = 0;
+    this.counters = { requests: 0, rateLimited: 0, globalLimited: 0, waitedMs: 0 };
+  }
+}
+
+/**
+ * Limiter shared by every Discord webhook of the process, so global limits apply across them.
+ */
+export const discordRateLimiter = new DiscordRateLimiter();
+
+/**
+ * Summarise limiter counters for run summaries.
+ *
+ * @param stats - Counters, defaulting to the shared limiter.
+ * @returns Sentence with the 429 count and pacing time.
+ */
+export function rateLimitSummary(stats: RateLimitStats = discordRateLimiter.stats()): string {
+  return `Discord: ${stats.requests} requests, ${stats.rateLimited} rate limited (${stats.globalLimited} global), paced ${stats.waitedMs}ms.`;
+}
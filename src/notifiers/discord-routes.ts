@@ -0,0 +1,157 @@
+// CHANGE: Load and evaluate the Discord routing table.
+// WHY: Plugins are delivered to different webhooks or threads depending on their metadata.
+// QUOTE(TЗ): "We want a routing table (config file) that maps `IndexedPlugin.categories`, `repository.full_name` patterns, author names, or file extension to different webhook URLs or threads (`thread_id`), with a default fallback."
+// REF: REQ-13
+// SOURCE: user request
+
+import fs from "fs-extra";
+import { IndexedPlugin, JsonValue } from "../types.js";
+import { globToRegExp } from "../utils/glob.js";
+import type { DiscordDestination } from "../webhook.js";
+
+/**
+ * Criteria a plugin must satisfy to be routed. Every specified list must contain
+ * at least one match; comparisons are case-insensitive.
+ *
+ * @property categories - Accepted category names.
+ * @property repositories - `owner/repo` glob patterns (`*` wildcard).
+ * @property authors - Accepted plugin authors.
+ * @property extensions - Accepted file extensions including the dot.
+ */
+export interface DiscordRouteMatch {
+  readonly categories?: readonly string[];
+  readonly repositories?: readonly string[];
+  readonly authors?: readonly string[];
+  readonly extensions?: readonly string[];
+}
+
+/**
+ * Named routing rule.
+ *
+ * @property name - Unique route name, used as delivery destination id in the state.
+ * @property match - Criteria selecting plugins for this route.
+ */
+export interface DiscordRoute extends DiscordDestination {
+  readonly name: string;
+  readonly match: DiscordRouteMatch;
+}
+
+/**
+ * Routing table file contents.
+ *
+ * @property default - Destination for plugins matching no route; `null` disables the fallback,
+ *   omission falls back to `DISCORD_WEBHOOK_URL`.
+ * @property routes - Ordered routing rules; a plugin is delivered to every matching route.
+ */
+export interface DiscordRoutingTable {
+  readonly default?: DiscordDestination | null;
+  readonly routes: readonly DiscordRoute[];
+}
+
+function isRecord(value: JsonValue): value is { readonly [key: string]: JsonValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringList(value: JsonValue): string[] | undefined {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : undefined;
+}
+
+function toDestination(value: JsonValue, path: string): DiscordDestination {
+  if (!isRecord(value) || typeof value.url !== "string" || value.url.length === 0) {
+    throw new Error(`Malformed Discord routing table: ${path} (destination requires "url")`);
+  }
+  return {
+    url: value.url,
+    threadId: typeof value.threadId === "string" ? value.threadId : undefined,
+    forum: value.forum === true
+  };
+}
+
+/**
+ * Parse routing table JSON value.
+ *
+ * @param value - Parsed JSON document.
+ * @param path - Source path used in error messages.
+ * @returns Validated routing table.
+ * @throws Error if the document is malformed or route names repeat.
+ */
+export function parseRoutingTable(value: JsonValue, path: string): DiscordRoutingTable {
+  if (!isRecord(value) || !Array.isArray(value.routes)) {
+    throw new Error(`Malformed Discord routing table: ${path}`);
+  }
+  const names = new Set<string>();
+  const routes = value.routes.map(raw => {
+    if (!isRecord(raw) || typeof raw.name !== "string" || raw.name.length === 0 || !isRecord(raw.match)) {
+      throw new Error(`Malformed Discord routing table: ${path} (route requires "name" and "match")`);
+    }
+    if (names.has(raw.name)) {
+      throw new Error(`Malformed Discord routing table: ${path} (duplicate route "${raw.name}")`);
+    }
+    names.add(raw.name);
+    return {
+      ...toDestination(raw, path),
+      name: raw.name,
+      match: {
+        categories: stringList(raw.match.categories),
+        repositories: stringList(raw.match.repositories),
+        authors: stringList(raw.match.authors),
+        extensions: stringList(raw.match.extensions)
+      }
+    };
+  });
+  return {
+    default: value.default === null ? null : value.default === undefined ? undefined : toDestination(value.default, path),
+    routes
+  };
+}
+
+/**
+ * Read routing table from disk.
+ *
+ * @param path - JSON file path.
+ * @returns Validated routing table.
+ */
+export function loadRoutingTable(path: string): DiscordRoutingTable {
+  return parseRoutingTable(fs.readJsonSync(path) as JsonValue, path);
+}
+
+function fileExtension(plugin: IndexedPlugin): string | undefined {
+  const source = plugin.file.path ?? plugin.file.raw_url;
+  const fileName = source?.split("/").pop();
+  const dot = fileName?.lastIndexOf(".") ?? -1;
+  return fileName && dot > 0 ? fileName.slice(dot).toLowerCase() : undefined;
+}
+
+function anyEqual(candidates: readonly string[], values: readonly string[]): boolean {
+  const lowered = new Set(values.map(value => value.toLowerCase()));
+  return candidates.some(candidate => lowered.has(candidate.toLowerCase()));
+}
+
+/**
+ * Determine whether plugin satisfies routing criteria.
+ *
+ * @param match - Route criteria.
+ * @param plugin - Candidate plugin.
+ * @returns True when every specified criterion matches.
+ */
+export function matchesRoute(match: DiscordRouteMatch, plugin: IndexedPlugin): boolean {
+  if (match.categories && !anyEqual(plugin.categories ?? [], match.categories)) {
+    return false;
+  }
+  if (match.repositories) {
+    const repository = plugin.repository?.full_name;
+    if (!repository || !match.repositories.some(pattern => globToRegExp(pattern).test(repository))) {
+      return false;
+    }
+  }
+  if (match.authors && !(plugin.plugin_author && anyEqual([plugin.plugin_author], match.authors))) {
+    return false;
+  }
+  if (match.extensions) {
+    const extension = fileExtension(plugin);
+    if (!extension || !anyEqual([extension], match.extensions)) {
+      return false;
+    }
+  }
+  return true;
+}
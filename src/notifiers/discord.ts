@@ -0,0 +1,79 @@
+// CHANGE: Expose the existing Discord webhook delivery as a notifier.
+// WHY: Discord becomes one sink among several without changing its payload.
+// QUOTE(TЗ): "with Discord as one implementation"
+// REF: REQ-12
+// SOURCE: user request
+
+import { DISCORD } from "../config.js";
+import {
+  deletePluginWebhookMessage,
+  DiscordDestination,
+  editPluginWebhook,
+  sendDiscordEmbeds,
+  sendPluginWebhook
+} from "../webhook.js";
+import { DiscordRoutingTable, loadRoutingTable, matchesRoute } from "./discord-routes.js";
+import { Notifier } from "./types.js";
+
+/**
+ * Destination id of the default Discord webhook. Entries persisted before
+ * per-destination tracking are treated as delivered here.
+ */
+export const DEFAULT_DISCORD_DESTINATION = "discord";
+
+function destinationNotifier(
+  name: string,
+  destination: DiscordDestination,
+  accepts: Notifier["accepts"]
+): Notifier {
+  return {
+    name,
+    accepts,
+    notify: (plugin, attachment, context, previous) => sendPluginWebhook(plugin, attachment, context, destination, previous),
+    edit: (plugin, attachment, receipt, context) => editPluginWebhook(plugin, attachment, destination, receipt, context),
+    remove: receipt => deletePluginWebhookMessage(destination, receipt),
+    digest: (embeds, title, attachment) => sendDiscordEmbeds(embeds, title, destination, attachment)
+  };
+}
+
+/**
+ * Create Discord notifiers backed by `sendPluginWebhook`.
+ *
+ * Without a routing table a single notifier posts to `DISCORD_WEBHOOK_URL`. With a
+ * table, each route becomes a `discord:<name>` notifier and the default destination
+ * receives only plugins no route accepted.
+ *
+ * @param table - Routing table, loaded from `DISCORD_ROUTES_PATH` when configured.
+ * @returns Discord notifiers.
+ */
+export function createDiscordNotifiers(
+  table: DiscordRoutingTable | undefined = DISCORD.ROUTES_PATH ? loadRoutingTable(DISCORD.ROUTES_PATH) : undefined
+): Notifier[] {
+  // CHANGE: Turn every routing rule into its own tracked destination with a default fallback.
+  // WHY: Delivery is recorded per destination so a new channel is backfilled without re-posting elsewhere.
+  // QUOTE(TЗ): "The state cache should track delivery per destination so adding a new channel backfills only that channel without re-spamming the existing ones."
+  // REF: REQ-13
+  // SOURCE: user request
+  if (!table) {
+    return [
+      destinationNotifier(
+        DEFAULT_DISCORD_DESTINATION,
+        { url: DISCORD.WEBHOOK_URL, forum: DISCORD.FORUM_THREADS },
+        undefined
+      )
+    ];
+  }
+  const routed = table.routes.map(route =>
+    destinationNotifier(`discord:${route.name}`, route, plugin => matchesRoute(route.match, plugin))
+  );
+  const fallback = table.default === undefined ? { url: DISCORD.WEBHOOK_URL, forum: DISCORD.FORUM_THREADS } : table.default;
+  if (!fallback) {
+    return routed;
+  }
+  return [
+    ...routed,
+    destinationNotifier(DEFAULT_DISCORD_DESTINATION, fallback, plugin =>
+      table.routes.every(route => !matchesRoute(route.match, plugin))
+    )
+  ];
+}
@@ -0,0 +1,81 @@
+// CHANGE: Render Discord embeds as text for platforms without embed support.
+// WHY: Keeps announcement content identical across sinks by reusing buildEmbed.
+// QUOTE(TЗ): "Our team also wants announcements on Telegram, Slack, Matrix and a generic JSON webhook."
+// REF: REQ-12
+// SOURCE: user request
+
+import type { DiscordEmbed } from "../webhook.js";
+
+/**
+ * Escape text for HTML-formatted messages (Telegram, Matrix).
+ *
+ * @param value - Raw text.
+ * @returns Escaped text.
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Convert embed to plain text lines: title, description, then `name: value` fields.
+ *
+ * @param embed - Embed produced by buildEmbed.
+ * @returns Lines ready to be joined by the sink.
+ */
+export function embedToLines(embed: DiscordEmbed): string[] {
+  return [embed.title, embed.description, ...embed.fields.map(field => `${field.name}: ${field.value}`)];
+}
+
+/**
+ * Shorten plain text so that its escaped form, plus an ellipsis, fits the budget.
+ *
+ * @param text - Raw text.
+ * @param budget - Maximum escaped length, at least 1.
+ * @returns Truncated raw text ending with an ellipsis.
+ */
+function truncateForHtml(text: string, budget: number): string {
+  let used = 1;
+  let end = 0;
+  for (const char of text) {
+    const size = escapeHtml(char).length;
+    if (used + size > budget) {
+      break;
+    }
+    used += size;
+    end += char.length;
+  }
+  return `${text.slice(0, end)}…`;
+}
+
+/**
+ * Convert embed to simple HTML using bold title and field names.
+ * Text is truncated before escaping so the cut never lands inside a tag or entity.
+ *
+ * @param embed - Embed produced by buildEmbed.
+ * @param limit - Maximum length of the resulting HTML.
+ * @returns HTML fragment with `\n` line breaks.
+ */
+export function embedToHtml(embed: DiscordEmbed, limit = Number.POSITIVE_INFINITY): string {
+  const parts: readonly (readonly [string, string, string])[] = [
+    ["<b>", embed.title, "</b>"],
+    ["", embed.description, ""],
+    ...embed.fields.map(field => [`<b>${escapeHtml(field.name)}:</b> `, field.value, ""] as const)
+  ];
+  const lines: string[] = [];
+  let length = 0;
+  for (const [open, text, close] of parts) {
+    const separator = lines.length > 0 ? 1 : 0;
+    const budget = limit - length - separator - open.length - close.length;
+    if (budget <= 0) {
+      break;
+    }
+    const escaped = escapeHtml(text);
+    if (escaped.length > budget) {
+      lines.push(`${open}${escapeHtml(truncateForHtml(text, budget))}${close}`);
+      break;
+    }
+    lines.push(`${open}${escaped}${close}`);
+    length += separator + open.length + escaped.length + close.length;
+  }
+  return lines.join("\n");
+}
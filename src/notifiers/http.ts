@@ -0,0 +1,53 @@
+// CHANGE: Deliver plugin announcements as JSON to an arbitrary HTTP endpoint.
+// WHY: Allows integrating the notifier with custom services.
+// QUOTE(TЗ): "at least Slack/Telegram/generic-HTTP implementations, each with its own attachment rules and rate-limit handling"
+// REF: REQ-12
+// SOURCE: user request
+
+import { GENERIC_WEBHOOK } from "../config.js";
+import { info } from "../logger.js";
+import { httpClient } from "../utils/http.js";
+import { sha256 } from "../utils/hashing.js";
+import { buildEmbed } from "../webhook.js";
+import { deliverWithRetry, retryAfterHeader } from "./delivery.js";
+import { Notifier } from "./types.js";
+
+/**
+ * Create generic JSON webhook notifier. The payload carries the plugin, the rendered
+ * embed and attachment metadata; file content is inlined as base64 only when
+ * `GENERIC_WEBHOOK.INCLUDE_CONTENT` is enabled and the file fits the size limit.
+ *
+ * @param url - Endpoint receiving POST requests.
+ * @returns Generic HTTP notifier.
+ * @throws Error if the URL is missing.
+ */
+export function createHttpNotifier(url: string = GENERIC_WEBHOOK.URL): Notifier {
+  if (!url) {
+    throw new Error("GENERIC_WEBHOOK_URL must be configured.");
+  }
+  return {
+    name: "http",
+    async notify(plugin, attachment, context) {
+      const includeContent =
+        attachment !== undefined &&
+        GENERIC_WEBHOOK.INCLUDE_CONTENT &&
+        attachment.buffer.byteLength <= GENERIC_WEBHOOK.MAX_ATTACHMENT_BYTES;
+      const payload = {
+        event: context?.reason ?? "new",
+        previous_version: context?.previousVersion,
+        plugin,
+        embed: buildEmbed(plugin, context),
+        attachment: attachment
+          ? {
+              name: attachment.name,
+              size: attachment.buffer.byteLength,
+              sha256: sha256(attachment.buffer),
+              content_base64: includeContent ? attachment.buffer.toString("base64") : undefined
+            }
+          : undefined
+      };
+      await deliverWithRetry("HTTP webhook", () => httpClient.post(url, payload), retryAfterHeader);
+      info(`HTTP webhook delivered for ${plugin.file.raw_url ?? plugin.plugin_name ?? "unknown plugin"}.`);
+    }
+  };
+}
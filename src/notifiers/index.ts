@@ -0,0 +1,137 @@
+// CHANGE: Resolve configured notification sinks and fan out announcements.
+// WHY: Sinks are selectable and combinable through `PLUGINS_NOTIFIERS`.
+// QUOTE(TЗ): "selectable and combinable via configuration."
+// REF: REQ-12
+// SOURCE: user request
+
+import { NOTIFIERS } from "../config.js";
+import { error as logError } from "../logger.js";
+import { CachedEntry, DeliveryReceipt, IndexedPlugin } from "../types.js";
+import type { AnnouncementContext, AttachmentPayload } from "../webhook.js";
+import { createDiscordNotifiers, DEFAULT_DISCORD_DESTINATION } from "./discord.js";
+import { createHttpNotifier } from "./http.js";
+import { createMatrixNotifier } from "./matrix.js";
+import { createSlackNotifier } from "./slack.js";
+import { createTelegramNotifier } from "./telegram.js";
+import { Notifier } from "./types.js";
+
+export type { Notifier } from "./types.js";
+
+const FACTORIES: Record<string, () => readonly Notifier[]> = {
+  discord: () => createDiscordNotifiers(),
+  slack: () => [createSlackNotifier()],
+  telegram: () => [createTelegramNotifier()],
+  matrix: () => [createMatrixNotifier()],
+  http: () => [createHttpNotifier()]
+};
+
+/**
+ * Instantiate notifiers listed in configuration.
+ *
+ * @param names - Sink names, defaults to `NOTIFIERS.SINKS`.
+ * @returns Notifiers in delivery order.
+ * @throws Error for unknown sink names, empty selection, or missing sink settings.
+ */
+export function createConfiguredNotifiers(names: readonly string[] = NOTIFIERS.SINKS): Notifier[] {
+  if (names.length === 0) {
+    throw new Error("PLUGINS_NOTIFIERS must list at least one notifier.");
+  }
+  return [...new Set(names)].flatMap(name => {
+    const factory = FACTORIES[name];
+    if (!factory) {
+      throw new Error(`Unknown notifier "${name}". Supported: ${Object.keys(FACTORIES).join(", ")}.`);
+    }
+    return factory();
+  });
+}
+
+/**
+ * Destinations a cached entry was delivered to.
+ *
+ * @param entry - Cached entry, if any.
+ * @returns Destination ids; legacy entries count as delivered to the default Discord webhook.
+ */
+export function deliveredDestinations(entry: CachedEntry | undefined): readonly string[] {
+  if (!entry) {
+    return [];
+  }
+  return entry.destinations ?? [DEFAULT_DISCORD_DESTINATION];
+}
+
+/**
+ * Merge delivery results into the destination bookkeeping of a cached entry.
+ *
+ * @param previous - Cached entry before delivery, if any.
+ * @param sent - Receipts returned by dispatchNotification.
+ * @returns Destination ids and non-empty receipts to persist.
+ */
+export function mergeDeliveries(
+  previous: CachedEntry | undefined,
+  sent: { readonly [destination: string]: DeliveryReceipt }
+): Pick<CachedEntry, "destinations" | "receipts"> {
+  const receipts: Record<string, DeliveryReceipt> = { ...previous?.receipts };
+  for (const [destination, receipt] of Object.entries(sent)) {
+    if (receipt.messageId !== undefined || receipt.threadId !== undefined) {
+      receipts[destination] = receipt;
+    }
+  }
+  return {
+    destinations: [...new Set([...deliveredDestinations(previous), ...Object.keys(sent)])],
+    receipts: Object.keys(receipts).length > 0 ? receipts : undefined
+  };
+}
+
+/**
+ * Select notifiers that accept the plugin and have not delivered it yet.
+ *
+ * @param notifiers - Configured notifiers.
+ * @param plugin - Candidate plugin.
+ * @param delivered - Destination ids already delivered.
+ * @returns Notifiers still owed this plugin.
+ */
+export function pendingNotifiers(
+  notifiers: readonly Notifier[],
+  plugin: IndexedPlugin,
+  delivered: readonly string[]
+): Notifier[] {
+  return notifiers.filter(notifier => !delivered.includes(notifier.name) && (notifier.accepts?.(plugin) ?? true));
+}
+
+/**
+ * Deliver announcement to every notifier in order.
+ *
+ * Invariant: resolves when at least one sink accepted the message, so the plugin is
+ * recorded and not re-sent to sinks that already succeeded; rejects with the first
+ * error when every sink failed.
+ *
+ * @param notifiers - Target sinks; callers pass only sinks still owed the plugin.
+ * @param plugin - Plugin describing the notification.
+ * @param attachment - Optional attachment; sinks apply their own limits.
+ * @param context - Optional delta context.
+ * @param receipts - Receipts of earlier deliveries keyed by destination id.
+ * @returns Receipts keyed by every destination id that accepted the message.
+ */
+export async function dispatchNotification(
+  notifiers: readonly Notifier[],
+  plugin: IndexedPlugin,
+  attachment?: AttachmentPayload,
+  context?: AnnouncementContext,
+  receipts: { readonly [destination: string]: DeliveryReceipt } = {}
+): Promise<Record<string, DeliveryReceipt>> {
+  const delivered: Record<string, DeliveryReceipt> = {};
+  const failures: unknown[] = [];
+  for (const notifier of notifiers) {
+    try {
+      delivered[notifier.name] = (await notifier.notify(plugin, attachment, context, receipts[notifier.name])) ?? {};
+    } catch (error) {
+      failures.push(error);
+      if (notifiers.length > 1) {
+        logError(`Notifier ${notifier.name} failed for ${plugin.file.raw_url ?? "unknown"}: ${(error as Error).message}`);
+      }
+    }
+  }
+  if (failures.length > 0 && failures.length === notifiers.length) {
+    throw failures[0];
+  }
+  return delivered;
+}
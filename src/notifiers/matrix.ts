@@ -0,0 +1,64 @@
+// CHANGE: Deliver plugin announcements to a Matrix room.
+// WHY: Matrix is one of the requested announcement channels.
+// QUOTE(TЗ): "Our team also wants announcements on Telegram, Slack, Matrix and a generic JSON webhook."
+// REF: REQ-12
+// SOURCE: user request
+
+import { randomUUID } from "crypto";
+import { AxiosError } from "axios";
+import { MATRIX } from "../config.js";
+import { info } from "../logger.js";
+import { httpClient } from "../utils/http.js";
+import { buildEmbed } from "../webhook.js";
+import { deliverWithRetry } from "./delivery.js";
+import { embedToHtml, embedToLines } from "./format.js";
+import { Notifier } from "./types.js";
+
+function matrixRetryAfter(error: AxiosError): number | undefined {
+  const data = error.response?.data as { readonly retry_after_ms?: number } | undefined;
+  return typeof data?.retry_after_ms === "number" ? data.retry_after_ms : undefined;
+}
+
+/**
+ * Create Matrix notifier posting `m.notice` events. Files are not uploaded to the
+ * media repository; the announcement links the raw file instead.
+ *
+ * @param homeserverUrl - Homeserver base URL.
+ * @param accessToken - Access token of the posting account.
+ * @param roomId - Target room id.
+ * @returns Matrix notifier.
+ * @throws Error if any connection setting is missing.
+ */
+export function createMatrixNotifier(
+  homeserverUrl: string = MATRIX.HOMESERVER_URL,
+  accessToken: string = MATRIX.ACCESS_TOKEN,
+  roomId: string = MATRIX.ROOM_ID
+): Notifier {
+  if (!homeserverUrl || !accessToken || !roomId) {
+    throw new Error("MATRIX_HOMESERVER_URL, MATRIX_ACCESS_TOKEN and MATRIX_ROOM_ID must be configured.");
+  }
+  const roomUrl = `${homeserverUrl.replace(/\/+$/, "")}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}`;
+  return {
+    name: "matrix",
+    async notify(plugin, _attachment, context) {
+      const embed = buildEmbed(plugin, context);
+      const content = {
+        msgtype: "m.notice",
+        body: embedToLines(embed).join("\n"),
+        format: "org.matrix.custom.html",
+        formatted_body: embedToHtml(embed).replace(/\n/g, "<br>")
+      };
+      // Transaction id is generated once so retries stay idempotent on the homeserver.
+      const txnId = randomUUID();
+      await deliverWithRetry(
+        "Matrix",
+        () =>
+          httpClient.put(`${roomUrl}/send/m.room.message/${txnId}`, content, {
+            headers: { Authorization: `Bearer ${accessToken}` }
+          }),
+        matrixRetryAfter
+      );
+      info(`Matrix message delivered for ${plugin.file.raw_url ?? plugin.plugin_name ?? "unknown plugin"}.`);
+    }
+  };
+}
@@ -0,0 +1,39 @@
+// CHANGE: Deliver plugin announcements to a Slack incoming webhook.
+// WHY: Slack is one of the requested announcement channels.
+// QUOTE(TЗ): "at least Slack/Telegram/generic-HTTP implementations, each with its own attachment rules and rate-limit handling"
+// REF: REQ-12
+// SOURCE: user request
+
+import { SLACK } from "../config.js";
+import { info } from "../logger.js";
+import { httpClient } from "../utils/http.js";
+import { buildEmbed } from "../webhook.js";
+import { deliverWithRetry, retryAfterHeader } from "./delivery.js";
+import { Notifier } from "./types.js";
+
+/**
+ * Create Slack notifier. Incoming webhooks cannot upload files, so attachments
+ * are never sent; the embed already links the raw file.
+ *
+ * @param webhookUrl - Slack incoming webhook URL.
+ * @returns Slack notifier.
+ * @throws Error if the webhook URL is missing.
+ */
+export function createSlackNotifier(webhookUrl: string = SLACK.WEBHOOK_URL): Notifier {
+  if (!webhookUrl) {
+    throw new Error("SLACK_WEBHOOK_URL must be configured.");
+  }
+  return {
+    name: "slack",
+    async notify(plugin, _attachment, context) {
+      const embed = buildEmbed(plugin, context);
+      const text = [
+        `*${embed.title}*`,
+        embed.description,
+        ...embed.fields.map(field => `*${field.name}:* ${field.value}`)
+      ].join("\n");
+      await deliverWithRetry("Slack", () => httpClient.post(webhookUrl, { text, unfurl_links: false }), retryAfterHeader);
+      info(`Slack message delivered for ${plugin.file.raw_url ?? plugin.plugin_name ?? "unknown plugin"}.`);
+    }
+  };
+}
@@ -0,0 +1,82 @@
+// CHANGE: Deliver plugin announcements through the Telegram Bot API.
+// WHY: Telegram is one of the requested announcement channels.
+// QUOTE(TЗ): "at least Slack/Telegram/generic-HTTP implementations, each with its own attachment rules and rate-limit handling"
+// REF: REQ-12
+// SOURCE: user request
+
+import { AxiosError } from "axios";
+import FormData from "form-data";
+import sanitize from "sanitize-filename";
+import { FLAGS, TELEGRAM } from "../config.js";
+import { debug, info } from "../logger.js";
+import { httpClient } from "../utils/http.js";
+import { buildEmbed } from "../webhook.js";
+import { deliverWithRetry } from "./delivery.js";
+import { embedToHtml } from "./format.js";
+import { Notifier } from "./types.js";
+
+const CAPTION_LIMIT = 1024;
+const MESSAGE_LIMIT = 4096;
+
+function telegramRetryAfter(error: AxiosError): number | undefined {
+  const data = error.response?.data as { readonly parameters?: { readonly retry_after?: number } } | undefined;
+  const seconds = data?.parameters?.retry_after;
+  return typeof seconds === "number" ? Math.ceil(seconds * 1000) : undefined;
+}
+
+/**
+ * Create Telegram notifier. Attachments up to `TELEGRAM.MAX_ATTACHMENT_BYTES`
+ * are sent as documents with the announcement as caption; otherwise a text message is sent.
+ *
+ * @param botToken - Bot API token.
+ * @param chatId - Target chat or channel id.
+ * @returns Telegram notifier.
+ * @throws Error if token or chat id is missing.
+ */
+export function createTelegramNotifier(
+  botToken: string = TELEGRAM.BOT_TOKEN,
+  chatId: string = TELEGRAM.CHAT_ID
+): Notifier {
+  if (!botToken || !chatId) {
+    throw new Error("TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID must be configured.");
+  }
+  const baseUrl = `https://api.telegram.org/bot${botToken}`;
+  return {
+    name: "telegram",
+    async notify(plugin, attachment, context) {
+      const embed = buildEmbed(plugin, context);
+      const sendDocument =
+        attachment !== undefined &&
+        attachment.buffer.byteLength <= TELEGRAM.MAX_ATTACHMENT_BYTES &&
+        (!FLAGS.ONLY_CS_ATTACHMENTS || attachment.name.toLowerCase().endsWith(".cs"));
+      if (attachment && !sendDocument) {
+        debug(`Telegram attachment skipped for ${attachment.name}.`);
+      }
+      await deliverWithRetry(
+        "Telegram",
+        async () => {
+          if (attachment && sendDocument) {
+            const form = new FormData();
+            form.append("chat_id", chatId);
+            form.append("caption", embedToHtml(embed, CAPTION_LIMIT));
+            form.append("parse_mode", "HTML");
+            form.append("document", attachment.buffer, {
+              filename: sanitize(attachment.name),
+              contentType: "text/plain"
+            });
+            await httpClient.post(`${baseUrl}/sendDocument`, form, { headers: form.getHeaders() });
+          } else {
+            await httpClient.post(`${baseUrl}/sendMessage`, {
+              chat_id: chatId,
+              text: embedToHtml(embed, MESSAGE_LIMIT),
+              parse_mode: "HTML",
+              disable_web_page_preview: true
+            });
+          }
+        },
+        telegramRetryAfter
+      );
+      info(`Telegram message delivered for ${plugin.file.raw_url ?? plugin.plugin_name ?? "unknown plugin"}.`);
+    }
+  };
+}
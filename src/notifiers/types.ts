@@ -0,0 +1,46 @@
+// CHANGE: Define the notification sink contract dispatched by the upload loop.
+// WHY: Decouples plugin announcement from the Discord payload shape.
+// QUOTE(TЗ): "Please introduce a notifier interface that `processAllPluginsSequentially` dispatches to"
+// REF: REQ-12
+// SOURCE: user request
+
+import { DeliveryReceipt, IndexedPlugin } from "../types.js";
+import type { AnnouncementContext, AttachmentPayload, DiscordEmbed } from "../webhook.js";
+
+/**
+ * Notification sink able to announce a plugin on one platform.
+ *
+ * Invariant: `notify` resolves only after the platform accepted the message and
+ * applies its own attachment limits, so callers always pass the full download.
+ *
+ * @property name - Destination identifier of the sink, recorded in the state after delivery.
+ * @property accepts - Optional routing predicate; sinks without it receive every plugin.
+ *
+ * `notify` receives the receipt of the previous delivery to the same destination and may
+ * return a receipt (message/thread ids) to persist for the next one. Sinks able to modify
+ * delivered messages implement `edit` and `remove`; sinks able to post several embeds in
+ * one message implement `digest`.
+ */
+export interface Notifier {
+  readonly name: string;
+  readonly accepts?: (plugin: IndexedPlugin) => boolean;
+  notify(
+    plugin: IndexedPlugin,
+    attachment?: AttachmentPayload,
+    context?: AnnouncementContext,
+    previous?: DeliveryReceipt
+  ): Promise<DeliveryReceipt | void>;
+  edit?(
+    plugin: IndexedPlugin,
+    attachment: AttachmentPayload | undefined,
+    receipt: DeliveryReceipt,
+    context?: AnnouncementContext
+  ): Promise<DeliveryReceipt | void>;
+  remove?(receipt: DeliveryReceipt): Promise<void>;
+  // CHANGE: Let sinks post many plugins in one message.
+  // WHY: One message per plugin floods the channel and hammers rate limits.
+  // QUOTE(TЗ): "into multi-embed messages — Discord allows up to 10 embeds per webhook execution"
+  // REF: REQ-32
+  // SOURCE: user request
+  digest?(embeds: readonly DiscordEmbed[], title: string, attachment?: AttachmentPayload): Promise<DeliveryReceipt | void>;
+}
@@ -0,0 +1,158 @@
+// CHANGE: Retract announcements of plugins from deleted repositories or missing from every index.
+// WHY: filterDeleted silently drops such plugins while their announcements and state entries remain.
+// QUOTE(TЗ): "We want a `plugins prune` command that cross-references cached entries against the deleted list (and against plugins that disappeared from both indices), posts a «removed» notice or deletes the original message, and marks the entries as retracted in the state file."
+// REF: REQ-16
+// SOURCE: user request
+
+import type { StateCache } from "./cache.js";
+import { error as logError, info } from "./logger.js";
+import { deliveredDestinations, dispatchNotification, Notifier } from "./notifiers/index.js";
+import { rateLimitSummary } from "./notifiers/discord-rate-limit.js";
+import { CachedEntry, DeletedRepositoriesList, DeliveryReceipt, IndexedPlugin, RetractionReason } from "./types.js";
+import { pluginKey } from "./utils/plugin-key.js";
+import { repositoryFromRawUrl } from "./utils/url.js";
+
+/**
+ * How announcements are retracted: post a removal notice, or delete the original
+ * message where the destination supports it (falling back to a notice).
+ */
+export type PruneMode = "notice" | "delete";
+
+/**
+ * Cached entry selected for retraction.
+ *
+ * @property entry - Cached entry to retract.
+ * @property reason - Why the entry is retracted.
+ */
+export interface RetractionCandidate {
+  readonly entry: CachedEntry;
+  readonly reason: RetractionReason;
+}
+
+function entryRepository(entry: CachedEntry): string | undefined {
+  return entry.repository ?? repositoryFromRawUrl(entry.key);
+}
+
+/**
+ * Select cached entries that must be retracted.
+ *
+ * @param entries - Cached entries.
+ * @param indexed - Merged index items before deleted-repository filtering.
+ * @param deleted - Optional deleted repositories list.
+ * @returns Entries not yet retracted whose repository is deleted or whose key vanished from the index.
+ */
+export function findRetractions(
+  entries: readonly CachedEntry[],
+  indexed: readonly IndexedPlugin[],
+  deleted: DeletedRepositoriesList | null
+): RetractionCandidate[] {
+  const present = new Set(indexed.map(plugin => pluginKey(plugin)));
+  const banned = new Set((deleted?.repositories ?? []).map(entry => entry.toLowerCase()));
+  const candidates: RetractionCandidate[] = [];
+  for (const entry of entries) {
+    if (entry.retractedAt) {
+      continue;
+    }
+    const repository = entryRepository(entry);
+    if (repository && banned.has(repository.toLowerCase())) {
+      candidates.push({ entry, reason: "deleted-repository" });
+    } else if (!present.has(entry.key)) {
+      candidates.push({ entry, reason: "missing-from-index" });
+    }
+  }
+  return candidates;
+}
+
+function describeRetraction(entry: CachedEntry, reason: RetractionReason): string {
+  return reason === "deleted-repository"
+    ? `Repository ${entryRepository(entry) ?? "unknown"} was deleted.`
+    : "Plugin no longer appears in any upstream index.";
+}
+
+function entryAsPlugin(entry: CachedEntry): IndexedPlugin {
+  return {
+    plugin_name: entry.pluginName,
+    plugin_version: entry.pluginVersion,
+    file: { raw_url: entry.key, path: entry.key.split("/").pop() },
+    repository: entryRepository(entry) ? { full_name: entryRepository(entry) } : undefined
+  };
+}
+
+async function deleteMessages(
+  notifiers: readonly Notifier[],
+  receipts: Record<string, DeliveryReceipt>
+): Promise<Notifier[]> {
+  const remaining: Notifier[] = [];
+  for (const notifier of notifiers) {
+    const receipt = receipts[notifier.name];
+    if (!notifier.remove || !receipt?.messageId) {
+      remaining.push(notifier);
+      continue;
+    }
+    try {
+      await notifier.remove(receipt);
+      delete receipts[notifier.name];
+    } catch (error) {
+      logError(`Message deletion via ${notifier.name} failed: ${(error as Error).message}`);
+      remaining.push(notifier);
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Retract announcements sequentially, persisting each retraction.
+ *
+ * Invariant: an entry is marked retracted once its messages were deleted or at least one
+ * destination accepted the removal notice; otherwise it is retried on the next run.
+ *
+ * @param candidates - Entries selected by findRetractions.
+ * @param state - Cache receiving retraction markers.
+ * @param notifiers - Configured notifiers.
+ * @param mode - Retraction mode.
+ */
+export async function processPrune(
+  candidates: readonly RetractionCandidate[],
+  state: Pick<StateCache, "set" | "save">,
+  notifiers: readonly Notifier[],
+  mode: PruneMode
+): Promise<void> {
+  if (candidates.length === 0) {
+    info("Prune complete: nothing to retract.");
+    return;
+  }
+  info(`Prune starting for ${candidates.length} entries (mode ${mode}).`);
+  let retracted = 0;
+  for (const { entry, reason } of candidates) {
+    const delivered = deliveredDestinations(entry);
+    const targets = notifiers.filter(notifier => delivered.includes(notifier.name));
+    const receipts: Record<string, DeliveryReceipt> = { ...entry.receipts };
+    const noticeTargets = mode === "delete" ? await deleteMessages(targets, receipts) : targets;
+
+    if (noticeTargets.length > 0) {
+      try {
+        await dispatchNotification(
+          noticeTargets,
+          entryAsPlugin(entry),
+          undefined,
+          { reason: "removed", detail: describeRetraction(entry, reason) },
+          receipts
+        );
+      } catch (error) {
+        logError(`Removal notice failed for ${entry.key}: ${(error as Error).message}`);
+        continue;
+      }
+    }
+
+    state.set({
+      ...entry,
+      receipts: Object.keys(receipts).length > 0 ? receipts : undefined,
+      retractedAt: new Date().toISOString(),
+      retractionReason: reason
+    });
+    await state.save();
+    retracted += 1;
+  }
+  info(`Prune complete: retracted ${retracted}/${candidates.length} entries.`);
+  info(rateLimitSummary());
+}
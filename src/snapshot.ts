@@ -0,0 +1,136 @@
+// CHANGE: Download indices and plugin files into versioned snapshot directories.
+// WHY: Runs must be reproducible without network, including in CI with fixtures.
+// QUOTE(TЗ): "a `plugins snapshot` command that downloads the current indices and plugin files into a versioned directory, so notify/dry-run can run entirely against the snapshot."
+// REF: REQ-22
+// SOURCE: user request
+
+import path from "path";
+import fs from "fs-extra";
+import { fetchDeleted, fetchJsonDocument, filterDeleted, getFile, toPluginIndex } from "./api.js";
+import { FLAGS } from "./config.js";
+import { debug, info } from "./logger.js";
+import { mergeIndexList } from "./merger.js";
+import { parseSourcesConfig, SourcesConfig } from "./sources.js";
+import { JsonValue } from "./types.js";
+import { snapshotEntryPath } from "./utils/snapshot-path.js";
+import { normalizeRawUrl } from "./utils/url.js";
+
+const MANIFEST_FILE = "manifest.json";
+const SOURCES_FILE = "sources.json";
+const LATEST_FILE = "LATEST";
+
+/**
+ * Snapshot summary written next to the downloaded resources.
+ *
+ * @property indices - Captured indices with their item counts.
+ * @property deleted - Captured deleted list location, `null` when unavailable or disabled.
+ * @property files - Number of plugin files captured.
+ * @property missing - Raw URLs whose download failed.
+ */
+export interface SnapshotManifest {
+  readonly version: 1;
+  readonly createdAt: string;
+  readonly indices: readonly { readonly name: string; readonly location: string; readonly count: number }[];
+  readonly deleted: string | null;
+  readonly files: number;
+  readonly missing: readonly string[];
+}
+
+/**
+ * Resolve a snapshot directory, following the `LATEST` pointer of a snapshot root.
+ *
+ * @param directory - Snapshot directory or root holding several snapshots.
+ * @returns Directory containing a manifest.
+ * @throws Error if no snapshot is found.
+ */
+export function resolveSnapshotDirectory(directory: string): string {
+  if (fs.pathExistsSync(path.join(directory, MANIFEST_FILE))) {
+    return directory;
+  }
+  const latest = path.join(directory, LATEST_FILE);
+  if (fs.pathExistsSync(latest)) {
+    const resolved = path.join(directory, fs.readFileSync(latest, "utf8").trim());
+    if (fs.pathExistsSync(path.join(resolved, MANIFEST_FILE))) {
+      return resolved;
+    }
+  }
+  throw new Error(`No snapshot found in ${directory}. Create one with "plugins snapshot".`);
+}
+
+/**
+ * Read the sources a snapshot was taken from.
+ *
+ * @param directory - Resolved snapshot directory.
+ * @returns Sources config whose locations map into the snapshot.
+ */
+export function loadSnapshotSources(directory: string): SourcesConfig {
+  const file = path.join(directory, SOURCES_FILE);
+  return parseSourcesConfig(fs.readJsonSync(file) as JsonValue, file, directory);
+}
+
+/**
+ * Download the configured indices, deleted list and plugin files into `<root>/<timestamp>`
+ * and point `<root>/LATEST` at it.
+ *
+ * Invariant: only files notify would download are captured (`.cs` unless attachments are unrestricted).
+ *
+ * @param root - Directory receiving snapshots.
+ * @param sources - Sources to capture.
+ * @returns Snapshot directory and manifest.
+ */
+export async function createSnapshot(
+  root: string,
+  sources: SourcesConfig
+): Promise<{ readonly directory: string; readonly manifest: SnapshotManifest }> {
+  const createdAt = new Date().toISOString();
+  const name = createdAt.replace(/[:.]/g, "-");
+  const directory = path.join(root, name);
+  const indices = await Promise.all(
+    sources.indices.map(async source => {
+      const document = await fetchJsonDocument(source.location);
+      const index = toPluginIndex(document, source.location);
+      await fs.outputJson(snapshotEntryPath(directory, "indices", source.location), document);
+      return { name: source.name, location: source.location, index };
+    })
+  );
+  const deleted = sources.deleted ? await fetchDeleted(sources.deleted) : null;
+  if (sources.deleted && deleted) {
+    await fs.outputJson(snapshotEntryPath(directory, "indices", sources.deleted), deleted);
+  }
+  const plugins = filterDeleted(mergeIndexList(indices).items, deleted);
+  const rawUrls = plugins
+    .map(plugin => plugin.file.raw_url)
+    .filter((rawUrl): rawUrl is string => Boolean(rawUrl))
+    .filter(rawUrl => !FLAGS.ONLY_CS_ATTACHMENTS || rawUrl.toLowerCase().endsWith(".cs"));
+  const missing: string[] = [];
+  await Promise.all(
+    rawUrls.map(async rawUrl => {
+      try {
+        await fs.outputFile(snapshotEntryPath(directory, "files", normalizeRawUrl(rawUrl)), await getFile(rawUrl));
+      } catch (error) {
+        debug(`Snapshot download failed for ${rawUrl}: ${(error as Error).message}`);
+        missing.push(rawUrl);
+      }
+    })
+  );
+  await fs.outputJson(
+    path.join(directory, SOURCES_FILE),
+    {
+      indices: sources.indices,
+      deleted: deleted ? sources.deleted : null
+    },
+    { spaces: 2 }
+  );
+  const manifest: SnapshotManifest = {
+    version: 1,
+    createdAt,
+    indices: indices.map(({ name: indexName, location, index }) => ({ name: indexName, location, count: index.count })),
+    deleted: deleted ? sources.deleted : null,
+    files: rawUrls.length - missing.length,
+    missing: missing.sort()
+  };
+  await fs.outputJson(path.join(directory, MANIFEST_FILE), manifest, { spaces: 2 });
+  await fs.outputFile(path.join(root, LATEST_FILE), `${name}\n`);
+  info(`Snapshot ${directory}: ${indices.length} indices, ${manifest.files} files, ${missing.length} missing.`);
+  return { directory, manifest };
+}
@@ -0,0 +1,119 @@
+// CHANGE: Load configurable upstream index sources with merge priorities.
+// WHY: Curated indices and local mirrors must be mergeable alongside the upstream ones.
+// QUOTE(TЗ): "We want a sources config listing any number of indices (remote URLs or local file paths), each with a priority for `mergeIndices`, so we can add our own curated index or test against a local mirror."
+// REF: REQ-21
+// SOURCE: user request
+
+import path from "path";
+import fs from "fs-extra";
+import { SOURCES } from "./config.js";
+import { JsonValue } from "./types.js";
+
+/**
+ * Single plugin index source.
+ *
+ * @property name - Unique source name used in logs and merge summaries.
+ * @property location - Remote `http(s)` URL or local file path.
+ * @property priority - Merge precedence; filled fields of higher priorities win.
+ */
+export interface IndexSource {
+  readonly name: string;
+  readonly location: string;
+  readonly priority: number;
+}
+
+/**
+ * Sources file contents.
+ *
+ * @property indices - Plugin indices ordered by ascending priority (ties keep file order).
+ * @property deleted - Deleted repositories list location; `null` disables the filter.
+ */
+export interface SourcesConfig {
+  readonly indices: readonly IndexSource[];
+  readonly deleted: string | null;
+}
+
+/**
+ * Built-in sources reproducing the original oxide-then-crawled precedence.
+ */
+export const DEFAULT_SOURCES: SourcesConfig = {
+  indices: [
+    { name: "oxide", location: SOURCES.OXIDE, priority: 0 },
+    { name: "crawled", location: SOURCES.CRAWLED, priority: 10 }
+  ],
+  deleted: SOURCES.DELETED
+};
+
+function isRecord(value: JsonValue): value is { readonly [key: string]: JsonValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Determine whether a location refers to a remote resource.
+ *
+ * @param location - URL or file path.
+ * @returns True for `http(s)` URLs.
+ */
+export function isRemoteLocation(location: string): boolean {
+  return /^https?:\/\//i.test(location);
+}
+
+function resolveLocation(location: string, baseDir: string): string {
+  return isRemoteLocation(location) ? location : path.resolve(baseDir, location);
+}
+
+/**
+ * Parse sources JSON value. Relative file paths resolve against `baseDir`.
+ *
+ * @param value - Parsed JSON document.
+ * @param source - Source path used in error messages.
+ * @param baseDir - Directory relative locations resolve against.
+ * @returns Validated sources sorted by priority.
+ * @throws Error if the document is malformed or source names repeat.
+ */
+export function parseSourcesConfig(value: JsonValue, source: string, baseDir = process.cwd()): SourcesConfig {
+  if (!isRecord(value) || !Array.isArray(value.indices) || value.indices.length === 0) {
+    throw new Error(`Malformed sources config: ${source} (requires non-empty "indices")`);
+  }
+  const names = new Set<string>();
+  const indices = value.indices.map((raw, order) => {
+    if (!isRecord(raw) || typeof raw.name !== "string" || typeof raw.location !== "string" || raw.location.length === 0) {
+      throw new Error(`Malformed sources config: ${source} (index requires "name" and "location")`);
+    }
+    if (names.has(raw.name)) {
+      throw new Error(`Malformed sources config: ${source} (duplicate index "${raw.name}")`);
+    }
+    names.add(raw.name);
+    return {
+      name: raw.name,
+      location: resolveLocation(raw.location, baseDir),
+      priority: typeof raw.priority === "number" ? raw.priority : order
+    };
+  });
+  const deleted =
+    value.deleted === null
+      ? null
+      : typeof value.deleted === "string"
+        ? resolveLocation(value.deleted, baseDir)
+        : DEFAULT_SOURCES.deleted;
+  return {
+    indices: indices
+      .map((index, order) => ({ index, order }))
+      .sort((left, right) => left.index.priority - right.index.priority || left.order - right.order)
+      .map(({ index }) => index),
+    deleted
+  };
+}
+
+/**
+ * Read sources config from disk, falling back to the built-in upstream indices.
+ *
+ * @param configPath - JSON file path; empty selects {@link DEFAULT_SOURCES}.
+ * @returns Validated sources.
+ */
+export function loadSourcesConfig(configPath: string = SOURCES.CONFIG_PATH): SourcesConfig {
+  if (!configPath) {
+    return DEFAULT_SOURCES;
+  }
+  return parseSourcesConfig(fs.readJsonSync(configPath) as JsonValue, configPath, path.dirname(path.resolve(configPath)));
+}
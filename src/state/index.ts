@@ -0,0 +1,32 @@
+// CHANGE: Select the configured state backend.
+// WHY: Storage is chosen through `PLUGINS_STATE_BACKEND` without touching callers.
+// QUOTE(TЗ): "Please abstract the cache behind a storage interface and add a SQLite backend (with the JSON file kept as an option)"
+// REF: REQ-17
+// SOURCE: user request
+
+import { STATE } from "../config.js";
+import { JsonStateBackend } from "./json.js";
+import { SqliteStateBackend } from "./sqlite.js";
+import { StateBackend } from "./types.js";
+
+export type { StateBackend, StateLoadOptions } from "./types.js";
+export { JsonStateBackend } from "./json.js";
+export { SqliteStateBackend } from "./sqlite.js";
+
+/**
+ * Instantiate backend by name.
+ *
+ * @param name - `json` or `sqlite`, defaults to `STATE.BACKEND`.
+ * @returns Unloaded backend.
+ * @throws Error for unknown backend names.
+ */
+export function createStateBackend(name: string = STATE.BACKEND): StateBackend {
+  switch (name) {
+    case "json":
+      return new JsonStateBackend();
+    case "sqlite":
+      return new SqliteStateBackend();
+    default:
+      throw new Error(`Unknown state backend "${name}". Supported: json, sqlite.`);
+  }
+}
@@ -0,0 +1,132 @@
+// CHANGE: Keep the JSON state file as a backend option.
+// WHY: The committed `plugins-state.json` workflow must keep working next to the SQLite store.
+// QUOTE(TЗ): "add a SQLite backend (with the JSON file kept as an option)"
+// REF: REQ-17
+// SOURCE: user request
+
+import fs from "fs-extra";
+import { STATE } from "../config.js";
+import { debug, info } from "../logger.js";
+import { CachedEntry, JsonValue, StateFile } from "../types.js";
+import { migrateStateFile, parseStateFile } from "./migrations.js";
+import { StateBackend, StateLoadOptions } from "./types.js";
+
+function backupPath(path: string, label: string): string {
+  return `${path}.${label}-${new Date().toISOString().replace(/[:.]/g, "-")}.bak`;
+}
+
+/**
+ * Read a JSON state file, migrating older versions after backing up the original.
+ *
+ * @param path - File path.
+ * @param options - Load options.
+ * @returns Current-version state (or undefined when absent or force-reset) and whether it was migrated.
+ * @throws Error when the file is corrupted and `forceReset` is not set, or its version is unsupported.
+ */
+export async function readJsonStateFile(
+  path: string,
+  options: StateLoadOptions = {}
+): Promise<{ readonly state?: StateFile; readonly migrated: boolean }> {
+  if (!(await fs.pathExists(path))) {
+    debug("Cache file absent, starting with empty state.");
+    return { migrated: false };
+  }
+  let parsed: StateFile;
+  try {
+    parsed = parseStateFile((await fs.readJson(path)) as JsonValue);
+  } catch (error) {
+    const reason = (error as Error).message;
+    if (!options.forceReset) {
+      throw new Error(`State file ${path} is corrupted (${reason}). Re-run with --force-reset to back it up and start empty.`);
+    }
+    const backup = backupPath(path, "corrupt");
+    await fs.move(path, backup);
+    info(`State file ${path} is corrupted (${reason}); moved to ${backup} and reset.`);
+    return { migrated: false };
+  }
+  if (parsed.version === STATE.VERSION) {
+    return { state: parsed, migrated: false };
+  }
+  const { state, applied } = migrateStateFile(parsed);
+  const backup = backupPath(path, `v${parsed.version}`);
+  await fs.copy(path, backup);
+  for (const step of applied) {
+    info(`Migrated state from v${step.from} to v${step.from + 1}: ${step.description}.`);
+  }
+  info(`Original state backed up to ${backup}.`);
+  return { state, migrated: true };
+}
+
+/**
+ * JSON file backend. Entries live in a Map and the whole file is rewritten atomically on flush.
+ */
+export class JsonStateBackend implements StateBackend {
+  readonly name = "json";
+
+  private entriesByKey = new Map<string, CachedEntry>();
+
+  private lastUpdatedAt = "";
+
+  constructor(private readonly path: string = STATE.PATH) {}
+
+  async load(options: StateLoadOptions = {}): Promise<void> {
+    const { state, migrated } = await readJsonStateFile(this.path, options);
+    this.entriesByKey = new Map(Object.entries(state?.entries ?? {}));
+    this.lastUpdatedAt = state?.updatedAt ?? "";
+    if (migrated) {
+      await this.flush();
+    }
+  }
+
+  get(key: string): CachedEntry | undefined {
+    return this.entriesByKey.get(key);
+  }
+
+  upsert(entry: CachedEntry): void {
+    this.entriesByKey.set(entry.key, entry);
+  }
+
+  async flush(): Promise<void> {
+    const payload: StateFile = {
+      entries: Object.fromEntries(this.entriesByKey),
+      version: STATE.VERSION,
+      updatedAt: new Date().toISOString()
+    };
+    const tempPath = `${this.path}.tmp`;
+    await fs.writeJson(tempPath, payload, { spaces: 2 });
+    await fs.move(tempPath, this.path, { overwrite: true });
+    this.lastUpdatedAt = payload.updatedAt;
+    debug(`Cache saved with ${this.entriesByKey.size} entries.`);
+  }
+
+  async clear(): Promise<void> {
+    this.entriesByKey = new Map();
+    await this.flush();
+  }
+
+  entries(): readonly CachedEntry[] {
+    return Array.from(this.entriesByKey.values());
+  }
+
+  findByRepository(repository: string): readonly CachedEntry[] {
+    const wanted = repository.toLowerCase();
+    return this.entries().filter(entry => entry.repository?.toLowerCase() === wanted);
+  }
+
+  findByAuthor(author: string): readonly CachedEntry[] {
+    const wanted = author.toLowerCase();
+    return this.entries().filter(entry => entry.pluginAuthor?.toLowerCase() === wanted);
+  }
+
+  count(): number {
+    return this.entriesByKey.size;
+  }
+
+  updatedAt(): string {
+    return this.lastUpdatedAt;
+  }
+
+  close(): void {
+    // Nothing to release: the file is only open during flush.
+  }
+}
@@ -0,0 +1,229 @@
+// CHANGE: Upgrade older state files step by step instead of discarding them.
+// WHY: Resetting the cache on a version bump would re-upload every plugin to Discord.
+// QUOTE(TЗ): "We need a migration framework that upgrades older `StateFile` versions step by step, backs up the original file, and refuses to start (rather than reset) when the file is corrupted unless an explicit `--force-reset` is passed."
+// REF: REQ-18
+// SOURCE: user request
+
+import { STATE } from "../config.js";
+import type { SourceChangeSummary } from "../analysis/changelog.js";
+import { CachedEntry, DeliveryReceipt, JsonValue, RetractionReason, SafetyRule, StateFile } from "../types.js";
+import type { VersionChange } from "../utils/version.js";
+import type { AnnouncementContext, AnnouncementReason } from "../webhook.js";
+import { repositoryFromRawUrl } from "../utils/url.js";
+
+/**
+ * Single upgrade step from `from` to `from + 1`.
+ *
+ * @property from - Version the step applies to.
+ * @property description - Summary printed when the step runs.
+ */
+export interface StateMigration {
+  readonly from: number;
+  readonly description: string;
+  migrate(state: StateFile): StateFile;
+}
+
+function mapEntries(state: StateFile, version: number, update: (entry: CachedEntry) => CachedEntry): StateFile {
+  return {
+    ...state,
+    version,
+    entries: Object.fromEntries(Object.entries(state.entries).map(([key, entry]) => [key, update(entry)]))
+  };
+}
+
+/**
+ * Registered migrations ordered by source version.
+ */
+export const MIGRATIONS: readonly StateMigration[] = [
+  {
+    from: 1,
+    description: "record delivery destinations and repository for entries written before per-destination tracking",
+    migrate: state =>
+      mapEntries(state, 2, entry => ({
+        ...entry,
+        destinations: entry.destinations ?? ["discord"],
+        repository: entry.repository ?? repositoryFromRawUrl(entry.key)
+      }))
+  }
+];
+
+type JsonRecord = { readonly [key: string]: JsonValue };
+
+function isRecord(value: JsonValue): value is JsonRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function malformed(key: string, field: string, expected: string): Error {
+  return new Error(`malformed entry ${key}: ${field} must be ${expected}`);
+}
+
+function optionalString(entry: JsonRecord, key: string, field: string): string | undefined {
+  const value = entry[field];
+  if (value === undefined || typeof value === "string") {
+    return value;
+  }
+  throw malformed(key, field, "a string");
+}
+
+function optionalNumber(entry: JsonRecord, key: string, field: string): number | undefined {
+  const value = entry[field];
+  if (value === undefined || typeof value === "number") {
+    return value;
+  }
+  throw malformed(key, field, "a number");
+}
+
+function optionalStrings(entry: JsonRecord, key: string, field: string): string[] | undefined {
+  const value = entry[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === "string")) {
+    return value as string[];
+  }
+  throw malformed(key, field, "a list of strings");
+}
+
+function optionalReceipts(entry: JsonRecord, key: string): { readonly [destination: string]: DeliveryReceipt } | undefined {
+  const value = entry.receipts;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    throw malformed(key, "receipts", "an object");
+  }
+  const receipts: Record<string, DeliveryReceipt> = {};
+  for (const [destination, receipt] of Object.entries(value)) {
+    if (!isRecord(receipt)) {
+      throw malformed(key, `receipts.${destination}`, "an object");
+    }
+    receipts[destination] = {
+      messageId: optionalString(receipt, key, "messageId"),
+      threadId: optionalString(receipt, key, "threadId")
+    };
+  }
+  return receipts;
+}
+
+const ANNOUNCEMENT_REASONS: readonly string[] = ["new", "updated", "removed"];
+
+function optionalChanges(announcement: JsonRecord, key: string): SourceChangeSummary | undefined {
+  const value = announcement.changes;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value) || typeof value.added !== "number" || typeof value.removed !== "number" || !isRecord(value.methods)) {
+    throw malformed(key, "announcement.changes", "a source change summary");
+  }
+  const methods = value.methods;
+  return {
+    added: value.added,
+    removed: value.removed,
+    methods: {
+      added: optionalStrings(methods, key, "added") ?? [],
+      removed: optionalStrings(methods, key, "removed") ?? [],
+      changed: optionalStrings(methods, key, "changed") ?? []
+    }
+  };
+}
+
+function optionalAnnouncement(entry: JsonRecord, key: string): AnnouncementContext | undefined {
+  const value = entry.announcement;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value) || typeof value.reason !== "string" || !ANNOUNCEMENT_REASONS.includes(value.reason)) {
+    throw malformed(key, "announcement", "an announcement context");
+  }
+  return {
+    reason: value.reason as AnnouncementReason,
+    previousVersion: optionalString(value, key, "previousVersion"),
+    detail: optionalString(value, key, "detail"),
+    versionChange: optionalString(value, key, "versionChange") as VersionChange | undefined,
+    changes: optionalChanges(value, key)
+  };
+}
+
+function parseEntry(key: string, entry: JsonValue): CachedEntry {
+  if (!isRecord(entry) || entry.key !== key || typeof entry.notifiedAt !== "string") {
+    throw new Error(`malformed entry ${key}`);
+  }
+  return {
+    key,
+    notifiedAt: entry.notifiedAt,
+    etag: optionalString(entry, key, "etag"),
+    lastModified: optionalString(entry, key, "lastModified"),
+    contentHash: optionalString(entry, key, "contentHash"),
+    fileSha: optionalString(entry, key, "fileSha"),
+    fileSize: optionalNumber(entry, key, "fileSize"),
+    pluginVersion: optionalString(entry, key, "pluginVersion"),
+    destinations: optionalStrings(entry, key, "destinations"),
+    receipts: optionalReceipts(entry, key),
+    repository: optionalString(entry, key, "repository"),
+    metadataHash: optionalString(entry, key, "metadataHash"),
+    pluginName: optionalString(entry, key, "pluginName"),
+    pluginAuthor: optionalString(entry, key, "pluginAuthor"),
+    retractedAt: optionalString(entry, key, "retractedAt"),
+    retractionReason: optionalString(entry, key, "retractionReason") as RetractionReason | undefined,
+    aliases: optionalStrings(entry, key, "aliases"),
+    riskScore: optionalNumber(entry, key, "riskScore"),
+    riskFindings: optionalStrings(entry, key, "riskFindings") as SafetyRule[] | undefined,
+    contentPath: optionalString(entry, key, "contentPath"),
+    announcement: optionalAnnouncement(entry, key),
+    blockedAt: optionalString(entry, key, "blockedAt")
+  };
+}
+
+/**
+ * Validate the envelope of a parsed state document.
+ *
+ * @param value - Parsed JSON.
+ * @returns State file typed as the current schema; entries are upgraded by migrateStateFile.
+ * @throws Error describing the first structural problem.
+ */
+export function parseStateFile(value: JsonValue): StateFile {
+  if (!isRecord(value)) {
+    throw new Error("state is not an object");
+  }
+  if (typeof value.version !== "number" || !Number.isInteger(value.version) || value.version < 1) {
+    throw new Error("missing or invalid version");
+  }
+  if (!isRecord(value.entries)) {
+    throw new Error("missing entries object");
+  }
+  return {
+    entries: Object.fromEntries(Object.entries(value.entries).map(([key, entry]) => [key, parseEntry(key, entry)])),
+    version: value.version,
+    updatedAt: typeof value.updatedAt === "string" ? value.updatedAt : ""
+  };
+}
+
+/**
+ * Apply migrations until the state reaches the target version.
+ *
+ * @param state - Parsed state file.
+ * @param target - Desired version.
+ * @param migrations - Available migration steps.
+ * @returns Upgraded state and the versions migrated from.
+ * @throws Error when the state is newer than supported or a step is missing.
+ */
+export function migrateStateFile(
+  state: StateFile,
+  target: number = STATE.VERSION,
+  migrations: readonly StateMigration[] = MIGRATIONS
+): { readonly state: StateFile; readonly applied: readonly StateMigration[] } {
+  if (state.version > target) {
+    throw new Error(`State version ${state.version} is newer than supported version ${target}.`);
+  }
+  let current = state;
+  const applied: StateMigration[] = [];
+  while (current.version < target) {
+    const step = migrations.find(migration => migration.from === current.version);
+    if (!step) {
+      throw new Error(`No state migration registered from version ${current.version}.`);
+    }
+    current = step.migrate(current);
+    applied.push(step);
+  }
+  return { state: current, applied };
+}
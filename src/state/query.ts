@@ -0,0 +1,136 @@
+// CHANGE: Query notification state by key, date range, grouping and missing hashes.
+// WHY: Diagnosing why a plugin was not posted should not require opening the state file by hand.
+// QUOTE(TЗ): "look up a plugin by key or raw URL, list entries notified in a date range, group counts by repository/author/day, find entries missing content hashes, and output as table or JSON."
+// REF: REQ-20
+// SOURCE: user request
+
+import { CachedEntry } from "../types.js";
+
+/**
+ * Grouping dimension for entry counts.
+ */
+export type StateGroupBy = "repository" | "author" | "day";
+
+/**
+ * Entry filters; every provided filter must match.
+ *
+ * @property since - Inclusive lower bound on `notifiedAt`.
+ * @property until - Inclusive upper bound on `notifiedAt`.
+ * @property missingHashes - Keep only entries without a content hash.
+ */
+export interface StateQuery {
+  readonly since?: Date;
+  readonly until?: Date;
+  readonly missingHashes?: boolean;
+}
+
+/**
+ * Count of entries sharing one group value.
+ */
+export interface StateGroup {
+  readonly group: string;
+  readonly count: number;
+}
+
+/**
+ * Parse a date filter accepting ISO dates or timestamps.
+ *
+ * @param value - Raw option value.
+ * @param label - Option name used in the error message.
+ * @returns Parsed date.
+ * @throws Error when the value is not a date.
+ */
+export function parseQueryDate(value: string, label: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${label} date "${value}". Use an ISO date such as 2024-01-31.`);
+  }
+  return date;
+}
+
+/**
+ * Resolve an entry by exact key, falling back to URL-decoded and case-insensitive matches
+ * so a raw URL copied from a browser still finds its entry.
+ *
+ * @param entries - Entries to search.
+ * @param keyOrUrl - Cache key or raw URL.
+ * @returns Matching entry, if any.
+ */
+export function findStateEntry(entries: readonly CachedEntry[], keyOrUrl: string): CachedEntry | undefined {
+  const wanted = keyOrUrl.trim();
+  const normalize = (value: string): string => {
+    try {
+      return decodeURI(value).toLowerCase();
+    } catch {
+      return value.toLowerCase();
+    }
+  };
+  return entries.find(entry => entry.key === wanted) ?? entries.find(entry => normalize(entry.key) === normalize(wanted));
+}
+
+/**
+ * Filter entries by date range and hash presence.
+ *
+ * @param entries - Entries to filter.
+ * @param query - Filters to apply.
+ * @returns Matching entries ordered by `notifiedAt`.
+ */
+export function filterStateEntries(entries: readonly CachedEntry[], query: StateQuery): CachedEntry[] {
+  const since = query.since?.getTime() ?? Number.NEGATIVE_INFINITY;
+  const until = query.until?.getTime() ?? Number.POSITIVE_INFINITY;
+  return entries
+    .filter(entry => {
+      const notifiedAt = Date.parse(entry.notifiedAt);
+      return notifiedAt >= since && notifiedAt <= until && (!query.missingHashes || !entry.contentHash);
+    })
+    .sort((left, right) => Date.parse(left.notifiedAt) - Date.parse(right.notifiedAt));
+}
+
+function groupValue(entry: CachedEntry, groupBy: StateGroupBy): string {
+  switch (groupBy) {
+    case "repository":
+      return entry.repository ?? "(unknown)";
+    case "author":
+      return entry.pluginAuthor ?? "(unknown)";
+    case "day":
+      return entry.notifiedAt.slice(0, 10);
+  }
+}
+
+/**
+ * Count entries per repository, author or notification day.
+ *
+ * @param entries - Entries to group.
+ * @param groupBy - Grouping dimension.
+ * @returns Groups ordered by day for `day`, otherwise by descending count.
+ */
+export function groupStateEntries(entries: readonly CachedEntry[], groupBy: StateGroupBy): StateGroup[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const group = groupValue(entry, groupBy);
+    counts.set(group, (counts.get(group) ?? 0) + 1);
+  }
+  const groups = Array.from(counts, ([group, count]) => ({ group, count }));
+  return groupBy === "day"
+    ? groups.sort((left, right) => left.group.localeCompare(right.group))
+    : groups.sort((left, right) => right.count - left.count || left.group.localeCompare(right.group));
+}
+
+/**
+ * Flatten an entry into a one-line table row.
+ *
+ * @param entry - Cached entry.
+ * @returns Row for `console.table`.
+ */
+export function stateEntryRow(entry: CachedEntry): Record<string, string> {
+  return {
+    key: entry.key,
+    name: entry.pluginName ?? "",
+    author: entry.pluginAuthor ?? "",
+    version: entry.pluginVersion ?? "",
+    notifiedAt: entry.notifiedAt,
+    destinations: entry.destinations?.join(", ") ?? "",
+    contentHash: entry.contentHash ? entry.contentHash.slice(0, 12) : "",
+    retracted: entry.retractedAt ?? ""
+  };
+}
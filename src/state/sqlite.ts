@@ -0,0 +1,241 @@
+// CHANGE: Store notification state in SQLite with incremental upserts.
+// WHY: Rewriting the whole JSON file after each of 31k webhooks is O(n²).
+// QUOTE(TЗ): "add a SQLite backend ... supporting incremental upserts, indexed lookups by key/repo/author, and a migration path from the existing v1 JSON file."
+// REF: REQ-17
+// SOURCE: user request
+
+import Database from "better-sqlite3";
+import fs from "fs-extra";
+import { STATE } from "../config.js";
+import { debug, info } from "../logger.js";
+import { CachedEntry, StateFile } from "../types.js";
+import { readJsonStateFile } from "./json.js";
+import { migrateStateFile } from "./migrations.js";
+import { StateBackend, StateLoadOptions } from "./types.js";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS entries (
+  key TEXT PRIMARY KEY,
+  repository TEXT,
+  author TEXT,
+  notified_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS entries_repository ON entries (repository COLLATE NOCASE);
+CREATE INDEX IF NOT EXISTS entries_author ON entries (author COLLATE NOCASE);
+CREATE TABLE IF NOT EXISTS meta (
+  name TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+interface EntryRow {
+  readonly data: string;
+}
+
+function parseRows(rows: readonly EntryRow[]): CachedEntry[] {
+  return rows.map(row => JSON.parse(row.data) as CachedEntry);
+}
+
+/**
+ * SQLite backend. Staged entries are written in one transaction per flush; reads go to
+ * the database so memory stays flat regardless of state size.
+ *
+ * On first load of an empty database the JSON file at `jsonPath` is imported; databases
+ * written by older versions are backed up and migrated in place.
+ */
+export class SqliteStateBackend implements StateBackend {
+  readonly name = "sqlite";
+
+  private db: Database.Database | undefined;
+
+  private pending = new Map<string, CachedEntry>();
+
+  constructor(
+    private readonly path: string = STATE.SQLITE_PATH,
+    private readonly jsonPath: string = STATE.PATH
+  ) {}
+
+  async load(options: StateLoadOptions = {}): Promise<void> {
+    this.close();
+    this.pending = new Map();
+    this.db = await this.open(options);
+    const versionRow = this.db.prepare("SELECT value FROM meta WHERE name = 'version'").get() as
+      | { readonly value: string }
+      | undefined;
+    if (!versionRow) {
+      await this.migrateFromJson(options);
+      this.setVersion(STATE.VERSION);
+      return;
+    }
+    const version = Number.parseInt(versionRow.value, 10);
+    if (version !== STATE.VERSION) {
+      await this.migrateSchema(version);
+    }
+  }
+
+  // CHANGE: Refuse to open an unreadable database unless a reset is forced, backing it up first.
+  // WHY: Silently starting empty would re-announce every plugin.
+  // QUOTE(TЗ): "refuses to start (rather than reset) when the file is corrupted unless an explicit `--force-reset` is passed."
+  // REF: REQ-18
+  // SOURCE: user request
+  private async open(options: StateLoadOptions): Promise<Database.Database> {
+    try {
+      const db = new Database(this.path);
+      db.pragma("journal_mode = WAL");
+      db.exec(SCHEMA);
+      return db;
+    } catch (error) {
+      const reason = (error as Error).message;
+      if (!options.forceReset) {
+        throw new Error(
+          `State database ${this.path} is corrupted (${reason}). Re-run with --force-reset to back it up and start empty.`
+        );
+      }
+      const backup = `${this.path}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}.bak`;
+      await fs.move(this.path, backup);
+      info(`State database ${this.path} is corrupted (${reason}); moved to ${backup} and reset.`);
+      const db = new Database(this.path);
+      db.pragma("journal_mode = WAL");
+      db.exec(SCHEMA);
+      return db;
+    }
+  }
+
+  private setVersion(version: number): void {
+    this.database().prepare("INSERT OR REPLACE INTO meta (name, value) VALUES ('version', ?)").run(String(version));
+  }
+
+  private async migrateSchema(version: number): Promise<void> {
+    const stored: StateFile = {
+      entries: Object.fromEntries(this.entries().map(entry => [entry.key, entry] as const)),
+      version,
+      updatedAt: this.updatedAt()
+    };
+    const { state, applied } = migrateStateFile(stored);
+    const backup = `${this.path}.v${version}.bak`;
+    await this.database().backup(backup);
+    this.write(Object.values(state.entries), state.updatedAt);
+    this.setVersion(state.version);
+    for (const step of applied) {
+      info(`Migrated state from v${step.from} to v${step.from + 1}: ${step.description}.`);
+    }
+    info(`Original state database backed up to ${backup}.`);
+  }
+
+  private async migrateFromJson(options: StateLoadOptions): Promise<void> {
+    const { state } = await readJsonStateFile(this.jsonPath, options);
+    if (!state) {
+      return;
+    }
+    const entries = Object.values(state.entries);
+    this.write(entries, state.updatedAt);
+    info(`Migrated ${entries.length} entries from ${this.jsonPath} into ${this.path}.`);
+  }
+
+  private database(): Database.Database {
+    if (!this.db) {
+      throw new Error("SQLite state backend used before load().");
+    }
+    return this.db;
+  }
+
+  private write(entries: readonly CachedEntry[], updatedAt: string): void {
+    const db = this.database();
+    const upsert = db.prepare(
+      `INSERT INTO entries (key, repository, author, notified_at, data)
+       VALUES (@key, @repository, @author, @notifiedAt, @data)
+       ON CONFLICT(key) DO UPDATE SET
+         repository = excluded.repository,
+         author = excluded.author,
+         notified_at = excluded.notified_at,
+         data = excluded.data`
+    );
+    const touch = db.prepare("INSERT OR REPLACE INTO meta (name, value) VALUES ('updatedAt', ?)");
+    db.transaction(() => {
+      for (const entry of entries) {
+        upsert.run({
+          key: entry.key,
+          repository: entry.repository ?? null,
+          author: entry.pluginAuthor ?? null,
+          notifiedAt: entry.notifiedAt,
+          data: JSON.stringify(entry)
+        });
+      }
+      touch.run(updatedAt);
+    })();
+  }
+
+  get(key: string): CachedEntry | undefined {
+    const staged = this.pending.get(key);
+    if (staged) {
+      return staged;
+    }
+    const row = this.database().prepare("SELECT data FROM entries WHERE key = ?").get(key) as EntryRow | undefined;
+    return row ? (JSON.parse(row.data) as CachedEntry) : undefined;
+  }
+
+  upsert(entry: CachedEntry): void {
+    this.pending.set(entry.key, entry);
+  }
+
+  async flush(): Promise<void> {
+    const staged = Array.from(this.pending.values());
+    this.write(staged, new Date().toISOString());
+    this.pending = new Map();
+    debug(`Cache flushed ${staged.length} entries to SQLite.`);
+  }
+
+  async clear(): Promise<void> {
+    this.pending = new Map();
+    const db = this.database();
+    db.transaction(() => {
+      db.prepare("DELETE FROM entries").run();
+    })();
+    this.write([], new Date().toISOString());
+  }
+
+  entries(): readonly CachedEntry[] {
+    const stored = parseRows(this.database().prepare("SELECT data FROM entries ORDER BY rowid").all() as EntryRow[]);
+    if (this.pending.size === 0) {
+      return stored;
+    }
+    const merged = new Map(stored.map(entry => [entry.key, entry] as const));
+    for (const entry of this.pending.values()) {
+      merged.set(entry.key, entry);
+    }
+    return Array.from(merged.values());
+  }
+
+  findByRepository(repository: string): readonly CachedEntry[] {
+    const rows = this.database()
+      .prepare("SELECT data FROM entries WHERE repository = ? COLLATE NOCASE")
+      .all(repository) as EntryRow[];
+    return parseRows(rows);
+  }
+
+  findByAuthor(author: string): readonly CachedEntry[] {
+    const rows = this.database().prepare("SELECT data FROM entries WHERE author = ? COLLATE NOCASE").all(author) as EntryRow[];
+    return parseRows(rows);
+  }
+
+  count(): number {
+    const db = this.database();
+    const row = db.prepare("SELECT COUNT(*) AS count FROM entries").get() as { readonly count: number };
+    const exists = db.prepare("SELECT 1 FROM entries WHERE key = ?");
+    const unsaved = Array.from(this.pending.keys()).filter(key => !exists.get(key)).length;
+    return row.count + unsaved;
+  }
+
+  updatedAt(): string {
+    const row = this.database().prepare("SELECT value FROM meta WHERE name = 'updatedAt'").get() as
+      | { readonly value: string }
+      | undefined;
+    return row?.value ?? "";
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = undefined;
+  }
+}
@@ -0,0 +1,274 @@
+// CHANGE: Serialise, parse and merge notification state for transfer between machines.
+// WHY: Several runners keep their own state file and must be consolidated without duplicate announcements.
+// QUOTE(TЗ): "Please add `plugins state export`/`import`/`merge` subcommands that serialise the `StateFile` entries (JSON and CSV), merge two states by key preferring the latest `notifiedAt`, and report conflicts"
+// REF: REQ-19
+// SOURCE: user request
+
+import { STATE } from "../config.js";
+import { CachedEntry, DeliveryReceipt, JsonValue, RetractionReason, SafetyRule, StateFile } from "../types.js";
+import type { AnnouncementContext } from "../webhook.js";
+import { migrateStateFile, parseStateFile } from "./migrations.js";
+
+/**
+ * Supported transfer formats.
+ */
+export type StateFormat = "json" | "csv";
+
+/**
+ * Same key present on both sides with differing content.
+ *
+ * @property key - Plugin key.
+ * @property kept - Side whose entry won (latest `notifiedAt`, left on ties).
+ * @property fields - Names of fields whose values differ.
+ */
+export interface StateConflict {
+  readonly key: string;
+  readonly kept: "left" | "right";
+  readonly fields: readonly string[];
+}
+
+const CSV_COLUMNS = [
+  "key",
+  "notifiedAt",
+  "etag",
+  "lastModified",
+  "contentHash",
+  "fileSha",
+  "fileSize",
+  "pluginVersion",
+  "pluginName",
+  "pluginAuthor",
+  "repository",
+  "metadataHash",
+  "destinations",
+  "receipts",
+  "retractedAt",
+  "retractionReason",
+  "aliases",
+  "riskScore",
+  "riskFindings",
+  "contentPath",
+  "announcement",
+  "blockedAt"
+] as const;
+
+const COMPARED_FIELDS = ["contentHash", "fileSha", "fileSize", "pluginVersion", "etag", "lastModified", "retractedAt"] as const;
+
+/**
+ * Infer format from explicit option or file extension.
+ *
+ * @param path - File path.
+ * @param explicit - Format passed on the command line.
+ * @returns Transfer format.
+ * @throws Error for unsupported formats.
+ */
+export function resolveStateFormat(path: string, explicit?: string): StateFormat {
+  const format = (explicit ?? (path.toLowerCase().endsWith(".csv") ? "csv" : "json")).toLowerCase();
+  if (format !== "json" && format !== "csv") {
+    throw new Error(`Unsupported state format "${format}". Supported: json, csv.`);
+  }
+  return format;
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function entryToCsv(entry: CachedEntry): string {
+  const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+    key: entry.key,
+    notifiedAt: entry.notifiedAt,
+    etag: entry.etag ?? "",
+    lastModified: entry.lastModified ?? "",
+    contentHash: entry.contentHash ?? "",
+    fileSha: entry.fileSha ?? "",
+    fileSize: entry.fileSize === undefined ? "" : String(entry.fileSize),
+    pluginVersion: entry.pluginVersion ?? "",
+    pluginName: entry.pluginName ?? "",
+    pluginAuthor: entry.pluginAuthor ?? "",
+    repository: entry.repository ?? "",
+    metadataHash: entry.metadataHash ?? "",
+    destinations: entry.destinations?.join(";") ?? "",
+    receipts: entry.receipts ? JSON.stringify(entry.receipts) : "",
+    retractedAt: entry.retractedAt ?? "",
+    retractionReason: entry.retractionReason ?? "",
+    aliases: entry.aliases?.join(";") ?? "",
+    riskScore: entry.riskScore === undefined ? "" : String(entry.riskScore),
+    riskFindings: entry.riskFindings?.join(";") ?? "",
+    contentPath: entry.contentPath ?? "",
+    announcement: entry.announcement ? JSON.stringify(entry.announcement) : "",
+    blockedAt: entry.blockedAt ?? ""
+  };
+  return CSV_COLUMNS.map(column => csvCell(values[column])).join(",");
+}
+
+function csvToEntry(header: readonly string[], cells: readonly string[], line: number): CachedEntry {
+  const read = (column: (typeof CSV_COLUMNS)[number]): string | undefined => {
+    const index = header.indexOf(column);
+    const value = index >= 0 ? cells[index] : undefined;
+    return value === undefined || value === "" ? undefined : value;
+  };
+  const key = read("key");
+  const notifiedAt = read("notifiedAt");
+  if (!key || !notifiedAt) {
+    throw new Error(`Malformed state CSV: line ${line} requires key and notifiedAt`);
+  }
+  const fileSize = read("fileSize");
+  const receipts = read("receipts");
+  const riskScore = read("riskScore");
+  const announcement = read("announcement");
+  return {
+    key,
+    notifiedAt,
+    etag: read("etag"),
+    lastModified: read("lastModified"),
+    contentHash: read("contentHash"),
+    fileSha: read("fileSha"),
+    fileSize: fileSize === undefined ? undefined : Number.parseInt(fileSize, 10),
+    pluginVersion: read("pluginVersion"),
+    pluginName: read("pluginName"),
+    pluginAuthor: read("pluginAuthor"),
+    repository: read("repository"),
+    metadataHash: read("metadataHash"),
+    // An empty cell means "never delivered" for blocked entries and legacy Discord delivery otherwise.
+    destinations: read("destinations")?.split(";") ?? (read("blockedAt") ? [] : undefined),
+    receipts: receipts ? (JSON.parse(receipts) as { readonly [destination: string]: DeliveryReceipt }) : undefined,
+    retractedAt: read("retractedAt"),
+    retractionReason: read("retractionReason") as RetractionReason | undefined,
+    aliases: read("aliases")?.split(";"),
+    riskScore: riskScore === undefined ? undefined : Number.parseInt(riskScore, 10),
+    riskFindings: read("riskFindings")?.split(";") as SafetyRule[] | undefined,
+    contentPath: read("contentPath"),
+    announcement: announcement ? (JSON.parse(announcement) as AnnouncementContext) : undefined,
+    blockedAt: read("blockedAt")
+  };
+}
+
+/**
+ * Serialise entries. JSON produces a current-version `StateFile`; CSV one row per entry.
+ *
+ * @param entries - Entries to serialise.
+ * @param format - Output format.
+ * @returns File contents.
+ */
+export function serializeState(entries: readonly CachedEntry[], format: StateFormat): string {
+  if (format === "csv") {
+    return [CSV_COLUMNS.join(","), ...entries.map(entryToCsv)].join("\n") + "\n";
+  }
+  const payload: StateFile = {
+    entries: Object.fromEntries(entries.map(entry => [entry.key, entry] as const)),
+    version: STATE.VERSION,
+    updatedAt: new Date().toISOString()
+  };
+  return `${JSON.stringify(payload, null, 2)}\n`;
+}
+
+/**
+ * Parse serialised entries; JSON state files of older versions are migrated.
+ *
+ * @param text - File contents.
+ * @param format - Input format.
+ * @returns Parsed entries.
+ * @throws Error when the content is malformed.
+ */
+export function parseState(text: string, format: StateFormat): CachedEntry[] {
+  if (format === "json") {
+    const { state } = migrateStateFile(parseStateFile(JSON.parse(text) as JsonValue));
+    return Object.values(state.entries);
+  }
+  const [header, ...rows] = csvRows(text);
+  if (!header || !header.includes("key")) {
+    throw new Error("Malformed state CSV: missing header row");
+  }
+  return rows
+    .filter(cells => cells.some(cell => cell.length > 0))
+    .map((cells, index) => csvToEntry(header, cells, index + 2));
+}
+
+function mergePair(left: CachedEntry, right: CachedEntry): { readonly entry: CachedEntry; readonly conflict?: StateConflict } {
+  const keepRight = Date.parse(right.notifiedAt) > Date.parse(left.notifiedAt);
+  const [winner, loser] = keepRight ? [right, left] : [left, right];
+  const destinations = [...new Set([...(loser.destinations ?? []), ...(winner.destinations ?? [])])];
+  const receipts = { ...loser.receipts, ...winner.receipts };
+  const aliases = [...new Set([...(loser.aliases ?? []), ...(winner.aliases ?? [])])];
+  const entry: CachedEntry = {
+    ...winner,
+    aliases: aliases.length > 0 ? aliases : undefined,
+    destinations: destinations.length > 0 ? destinations : undefined,
+    receipts: Object.keys(receipts).length > 0 ? receipts : undefined
+  };
+  const fields = COMPARED_FIELDS.filter(field => left[field] !== undefined && right[field] !== undefined && left[field] !== right[field]);
+  return {
+    entry,
+    conflict: fields.length > 0 ? { key: left.key, kept: keepRight ? "right" : "left", fields } : undefined
+  };
+}
+
+/**
+ * Merge two entry sets by key, preferring the latest `notifiedAt` and uniting delivery destinations
+ * so neither side's announcements are repeated.
+ *
+ * @param left - First entry set.
+ * @param right - Second entry set.
+ * @returns Merged entries in left-then-right key order and detected conflicts.
+ */
+export function mergeStates(
+  left: readonly CachedEntry[],
+  right: readonly CachedEntry[]
+): { readonly entries: CachedEntry[]; readonly conflicts: StateConflict[] } {
+  const merged = new Map(left.map(entry => [entry.key, entry] as const));
+  const conflicts: StateConflict[] = [];
+  for (const entry of right) {
+    const existing = merged.get(entry.key);
+    if (!existing) {
+      merged.set(entry.key, entry);
+      continue;
+    }
+    const result = mergePair(existing, entry);
+    merged.set(entry.key, result.entry);
+    if (result.conflict) {
+      conflicts.push(result.conflict);
+    }
+  }
+  return { entries: Array.from(merged.values()), conflicts };
+}
@@ -0,0 +1,39 @@
+// CHANGE: Define the storage contract behind StateCache.
+// WHY: The JSON file rewrite after every webhook does not scale; backends must support incremental upserts.
+// QUOTE(TЗ): "Please abstract the cache behind a storage interface and add a SQLite backend (with the JSON file kept as an option)"
+// REF: REQ-17
+// SOURCE: user request
+
+import { CachedEntry } from "../types.js";
+
+/**
+ * Options controlling how persisted state is opened.
+ *
+ * @property forceReset - Back up and discard unreadable state instead of refusing to start.
+ */
+export interface StateLoadOptions {
+  readonly forceReset?: boolean;
+}
+
+/**
+ * Persistence backend for notification state.
+ *
+ * Invariant: `upsert` stages entries in memory; they become durable only after `flush`,
+ * which callers invoke after every successful delivery.
+ *
+ * @property name - Backend identifier used in logs.
+ */
+export interface StateBackend {
+  readonly name: string;
+  load(options?: StateLoadOptions): Promise<void>;
+  get(key: string): CachedEntry | undefined;
+  upsert(entry: CachedEntry): void;
+  flush(): Promise<void>;
+  clear(): Promise<void>;
+  entries(): readonly CachedEntry[];
+  findByRepository(repository: string): readonly CachedEntry[];
+  findByAuthor(author: string): readonly CachedEntry[];
+  count(): number;
+  updatedAt(): string;
+  close(): void;
+}
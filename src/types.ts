@@ -4,6 +4,8 @@
 // REF: REQ-1
 // SOURCE: internal reasoning
 
+import type { AnnouncementContext } from "./webhook.js";
+
 /**
  * JSON-like value type used for permissive properties without `any` usage.
  */
@@ -70,6 +72,8 @@ export interface PluginRepoRef {
  * @property file - File reference.
  * @property repository - Repository metadata.
  * @property extra - Additional un-modeled fields retained for completeness.
+ * @property source - Metadata extracted from the downloaded plugin source, when analysed.
+ * @property safety - Risky patterns found in the downloaded plugin source, when scanned.
  */
 export interface IndexedPlugin {
   readonly plugin_name?: string;
@@ -81,6 +85,70 @@ export interface IndexedPlugin {
   readonly file: PluginFileRef;
   readonly repository?: PluginRepoRef;
   readonly extra?: { readonly [key: string]: JsonValue };
+  // CHANGE: Carry metadata extracted from the plugin source into announcements.
+  // WHY: Embeds list permissions, commands and hooks found in the `.cs` file.
+  // QUOTE(TЗ): "adds permissions/commands/hooks to the embed."
+  // REF: REQ-27
+  // SOURCE: user request
+  readonly source?: PluginSourceInfo;
+  // CHANGE: Carry the safety scan of the plugin source into announcements.
+  // WHY: Redistributed `.cs` attachments may execute processes, open sockets or load assemblies.
+  // QUOTE(TЗ): "Results should appear as a warning field in the embed and be stored in the state"
+  // REF: REQ-28
+  // SOURCE: user request
+  readonly safety?: SafetyReport;
+}
+
+/**
+ * Metadata declared in an Oxide/uMod C# plugin source.
+ *
+ * @property name - Name from `[Info]`.
+ * @property author - Author from `[Info]`.
+ * @property version - Version from `[Info]`.
+ * @property description - Text of `[Description]`.
+ * @property permissions - Permissions registered via `permission.RegisterPermission`.
+ * @property commands - Chat commands (prefixed with `/`) and console commands.
+ * @property hooks - Oxide hook methods implemented by the plugin.
+ */
+export interface PluginSourceInfo {
+  readonly name?: string;
+  readonly author?: string;
+  readonly version?: string;
+  readonly description?: string;
+  readonly permissions: readonly string[];
+  readonly commands: readonly string[];
+  readonly hooks: readonly string[];
+}
+
+/**
+ * Risky pattern categories detected by the safety scanner.
+ */
+export type SafetyRule = "process" | "network" | "file-io" | "reflection" | "base64-blob" | "assembly-load";
+
+/**
+ * Occurrences of one risky pattern category in a plugin source.
+ *
+ * @property rule - Pattern category.
+ * @property weight - Risk points the category contributes to the score.
+ * @property lines - 1-based source lines where the pattern occurs.
+ */
+export interface SafetyFinding {
+  readonly rule: SafetyRule;
+  readonly weight: number;
+  readonly lines: readonly number[];
+}
+
+/**
+ * Result of scanning a plugin source for risky patterns.
+ *
+ * @property score - Sum of the weights of all detected categories.
+ * @property findings - Detected categories in scanner order.
+ *
+ * Invariant: `score` is 0 exactly when `findings` is empty.
+ */
+export interface SafetyReport {
+  readonly score: number;
+  readonly findings: readonly SafetyFinding[];
 }
 
 /**
@@ -109,6 +177,23 @@ export interface DeletedRepositoriesList {
   readonly updated_at?: string;
 }
 
+/**
+ * Identifiers returned by a notification destination for a delivered message.
+ *
+ * @property messageId - Id of the message created by the last delivery.
+ * @property threadId - Thread (forum post) that holds the plugin's messages.
+ */
+export interface DeliveryReceipt {
+  readonly messageId?: string;
+  readonly threadId?: string;
+}
+
+/**
+ * Reason for retracting an announcement: the repository is listed as deleted, or the
+ * plugin disappeared from every upstream index.
+ */
+export type RetractionReason = "deleted-repository" | "missing-from-index";
+
 /**
  * Cached notification entry persisted to avoid duplicate notifications.
  *
@@ -118,7 +203,22 @@ export interface DeletedRepositoriesList {
  * @property contentHash - SHA-256 hash of the downloaded attachment content.
  * @property fileSha - Upstream git hash from index entry.
  * @property fileSize - Reported size to cross-check attachments.
- * @property notifiedAt - ISO timestamp of the notification.
+ * @property pluginVersion - Plugin version announced with the notification.
+ * @property destinations - Notifier destination ids that received the plugin.
+ * @property receipts - Message and thread ids returned by each destination.
+ * @property repository - Repository full name of the announced plugin.
+ * @property metadataHash - Fingerprint of the metadata shown in the announcement.
+ * @property pluginName - Plugin name shown in the announcement.
+ * @property pluginAuthor - Plugin author shown in the announcement.
+ * @property retractedAt - ISO timestamp when the announcement was retracted.
+ * @property retractionReason - Why the announcement was retracted.
+ * @property aliases - Keys of forks and mirrors identified as this plugin and never announced separately.
+ * @property riskScore - Safety scan score of the announced source.
+ * @property riskFindings - Safety rules matched by the announced source.
+ * @property contentPath - Location of the retained copy of the announced file.
+ * @property announcement - Context the announcement was rendered with, reused when its messages are edited.
+ * @property blockedAt - ISO timestamp when the safety policy last blocked the file recorded in `fileSha`.
+ * @property notifiedAt - ISO timestamp of the notification, or of the first block for never announced entries.
  */
 export interface CachedEntry {
   readonly key: string;
@@ -132,6 +232,76 @@ export interface CachedEntry {
   // SOURCE: internal reasoning
   readonly fileSha?: string;
   readonly fileSize?: number;
+  // CHANGE: Remember the announced version to render previous vs current on updates.
+  // WHY: Updated embeds must show what changed since the last announcement.
+  // QUOTE(TЗ): "Updated plugins should get a visibly different embed ("Updated" with previous vs current version)"
+  // REF: REQ-11
+  // SOURCE: user request
+  readonly pluginVersion?: string;
+  // CHANGE: Track delivery per notification destination.
+  // WHY: Adding a destination must backfill only that destination.
+  // QUOTE(TЗ): "The state cache should track delivery per destination so adding a new channel backfills only that channel without re-spamming the existing ones."
+  // REF: REQ-13
+  // SOURCE: user request
+  readonly destinations?: readonly string[];
+  // CHANGE: Persist message and forum thread ids returned per destination.
+  // WHY: Later updates of the same plugin are posted as replies in its forum thread.
+  // QUOTE(TЗ): "record the returned message/thread id in `CachedEntry`"
+  // REF: REQ-14
+  // SOURCE: user request
+  readonly receipts?: { readonly [destination: string]: DeliveryReceipt };
+  // CHANGE: Record repository and announced metadata fingerprint.
+  // WHY: Enables editing messages on metadata changes and deleting messages of deleted repositories.
+  // QUOTE(TЗ): "store the message id returned with `?wait=true` in the state cache and add a mode that PATCHes"
+  // REF: REQ-15
+  // SOURCE: user request
+  readonly repository?: string;
+  readonly metadataHash?: string;
+  // CHANGE: Mark announcements retracted by `plugins prune`.
+  // WHY: Entries of deleted or vanished plugins stayed in the state forever without trace.
+  // QUOTE(TЗ): "and marks the entries as retracted in the state file."
+  // REF: REQ-16
+  // SOURCE: user request
+  readonly pluginName?: string;
+  // CHANGE: Record plugin author for indexed lookups by author.
+  // WHY: State backends expose lookups by key, repository and author.
+  // QUOTE(TЗ): "indexed lookups by key/repo/author"
+  // REF: REQ-17
+  // SOURCE: user request
+  readonly pluginAuthor?: string;
+  readonly retractedAt?: string;
+  readonly retractionReason?: RetractionReason;
+  // CHANGE: Record keys of forks and mirrors grouped under this announcement.
+  // WHY: The same plugin mirrored across forks or branches must be announced once.
+  // QUOTE(TЗ): "records aliases in the state so forks of already-announced plugins are skipped or grouped."
+  // REF: REQ-26
+  // SOURCE: user request
+  readonly aliases?: readonly string[];
+  // CHANGE: Record the safety scan of the announced source.
+  // WHY: Risky plugins already shared with the community must be traceable from the state.
+  // QUOTE(TЗ): "Results should appear as a warning field in the embed and be stored in the state"
+  // REF: REQ-28
+  // SOURCE: user request
+  readonly riskScore?: number;
+  readonly riskFindings?: readonly SafetyRule[];
+  // CHANGE: Point to the retained copy of the announced file.
+  // WHY: The next update is summarised against this content.
+  // QUOTE(TЗ): "That requires retaining the previous file content or its location alongside `CachedEntry`."
+  // REF: REQ-29
+  // SOURCE: user request
+  readonly contentPath?: string;
+  // CHANGE: Remember the context an announcement was rendered with.
+  // WHY: Refreshing an "Updated" message must not turn it back into a plain announcement.
+  // QUOTE(TЗ): "add a mode that PATCHes `/webhooks/{id}/{token}/messages/{message_id}` with a refreshed embed and attachment"
+  // REF: REQ-15
+  // SOURCE: user request
+  readonly announcement?: AnnouncementContext;
+  // CHANGE: Record plugins blocked by the safety policy.
+  // WHY: Blocked plugins were downloaded and scanned again on every run.
+  // QUOTE(TЗ): "Results should appear as a warning field in the embed and be stored in the state"
+  // REF: REQ-28
+  // SOURCE: user request
+  readonly blockedAt?: string;
   readonly notifiedAt: string;
 }
 
@@ -0,0 +1,51 @@
+// CHANGE: Retain announced plugin files on disk keyed by their SHA-256.
+// WHY: Changelogs of updates compare against the previously announced content, which upstream no longer serves.
+// QUOTE(TЗ): "That requires retaining the previous file content or its location alongside `CachedEntry`."
+// REF: REQ-29
+// SOURCE: user request
+
+import path from "path";
+import fs from "fs-extra";
+import { sha256 } from "./hashing.js";
+
+/**
+ * Path of the blob holding content with the given hash.
+ *
+ * @param dir - Content store root.
+ * @param hash - Hexadecimal SHA-256 of the content.
+ * @returns `<dir>/blobs/<first two hex digits>/<hash>`.
+ */
+export function contentBlobPath(dir: string, hash: string): string {
+  return path.join(dir, "blobs", hash.slice(0, 2), hash);
+}
+
+/**
+ * Write content to the store unless a blob with the same hash already exists.
+ *
+ * @param dir - Content store root.
+ * @param buffer - Content to retain.
+ * @returns Path of the blob.
+ */
+export async function storeContent(dir: string, buffer: Buffer): Promise<string> {
+  const target = contentBlobPath(dir, sha256(buffer));
+  if (!(await fs.pathExists(target))) {
+    await fs.ensureDir(path.dirname(target));
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, buffer);
+    await fs.move(temporary, target, { overwrite: true });
+  }
+  return target;
+}
+
+/**
+ * Read retained content.
+ *
+ * @param location - Blob path recorded with a cached entry.
+ * @returns Content, or undefined when the blob is gone.
+ */
+export async function readContent(location: string | undefined): Promise<Buffer | undefined> {
+  if (!location || !(await fs.pathExists(location))) {
+    return undefined;
+  }
+  return fs.readFile(location);
+}
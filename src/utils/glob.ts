@@ -0,0 +1,16 @@
+// CHANGE: Share `*` glob matching between routing and filter rules.
+// WHY: Repository and file path patterns use the same wildcard syntax in both config files.
+// QUOTE(TЗ): "include/exclude by category, author, repository glob, minimum `stargazers_count`, archived flag, file path pattern"
+// REF: REQ-31
+// SOURCE: user request
+
+/**
+ * Compile a case-insensitive glob where `*` matches any run of characters.
+ *
+ * @param pattern - Glob pattern, e.g. `owner/*`.
+ * @returns Anchored regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
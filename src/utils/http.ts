@@ -4,10 +4,13 @@
 // REF: REQ-8
 // SOURCE: internal reasoning
 
+import path from "path";
 import axios, { AxiosError, AxiosInstance, AxiosResponse } from "axios";
+import fs from "fs-extra";
 import pLimit from "p-limit";
 import { NET } from "../config.js";
 import { debug } from "../logger.js";
+import { sha256 } from "./hashing.js";
 
 const RETRY_ATTEMPTS = 3;
 const RETRY_BASE_DELAY_MS = 500;
@@ -78,6 +81,87 @@ export async function getJson<T>(url: string): Promise<{ readonly data: T; reado
   };
 }
 
+// CHANGE: Serve unchanged JSON documents from an on-disk cache using conditional requests.
+// WHY: Indices are re-downloaded in full on every run even when nothing changed.
+// QUOTE(TЗ): "We'd like `src/utils/http.ts` to support conditional requests with a small on-disk HTTP cache (ETag, Last-Modified, body), so unchanged indices return 304 and are served locally"
+// REF: REQ-23
+// SOURCE: user request
+
+/**
+ * Validators and body stored for a cached URL.
+ */
+export interface HttpCacheEntry {
+  readonly url: string;
+  readonly etag?: string;
+  readonly lastModified?: string;
+  readonly data: unknown;
+}
+
+function httpCachePath(cacheDir: string, url: string): string {
+  return path.join(cacheDir, `${sha256(Buffer.from(url))}.json`);
+}
+
+/**
+ * Read the cached response of a URL.
+ *
+ * @param url - Cached URL.
+ * @param cacheDir - Cache directory; empty disables the cache.
+ * @returns Cached entry, or undefined when absent or unreadable.
+ */
+export async function readHttpCache(url: string, cacheDir: string = NET.CACHE_DIR): Promise<HttpCacheEntry | undefined> {
+  if (!cacheDir) {
+    return undefined;
+  }
+  try {
+    const entry = (await fs.readJson(httpCachePath(cacheDir, url))) as HttpCacheEntry;
+    return entry.url === url ? entry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Perform conditional GET expecting JSON payload. A 304 response is answered from the cache;
+ * a 200 response carrying `ETag` or `Last-Modified` replaces the cached entry.
+ *
+ * @param url - Target URL.
+ * @param cacheDir - Cache directory; empty performs a plain GET.
+ * @returns Response data, headers and whether the server reported the document unchanged.
+ */
+export async function getJsonConditional<T>(
+  url: string,
+  cacheDir: string = NET.CACHE_DIR
+): Promise<{ readonly data: T; readonly headers: Record<string, string>; readonly status: number; readonly notModified: boolean }> {
+  const cached = await readHttpCache(url, cacheDir);
+  const conditions: Record<string, string> = {};
+  if (cached?.etag) {
+    conditions["If-None-Match"] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    conditions["If-Modified-Since"] = cached.lastModified;
+  }
+  const response = await concurrencyLimit(() =>
+    executeWithRetry(
+      () =>
+        httpClient.get<T>(url, {
+          headers: conditions,
+          validateStatus: status => (status >= 200 && status < 300) || (status === 304 && cached !== undefined)
+        }),
+      0
+    )
+  );
+  const headers = normaliseHeaders(response.headers);
+  if (response.status === 304 && cached) {
+    debug(`HTTP cache hit (304) for ${url}`);
+    return { data: cached.data as T, headers, status: response.status, notModified: true };
+  }
+  if (cacheDir && (headers.etag || headers["last-modified"])) {
+    const entry: HttpCacheEntry = { url, etag: headers.etag, lastModified: headers["last-modified"], data: response.data };
+    await fs.outputJson(httpCachePath(cacheDir, url), entry);
+  }
+  return { data: response.data, headers, status: response.status, notModified: false };
+}
+
 /**
  * Perform GET request expecting binary payload.
  *
@@ -0,0 +1,95 @@
+// CHANGE: Run tasks ahead of a sequential consumer while yielding results in input order.
+// WHY: Downloads waited for the previous webhook, so run time was the sum of both latencies.
+// QUOTE(TЗ): "We want a pipeline where downloads (and hashing) proceed ahead using the existing `NET.CONCURRENCY` limiter into a bounded buffer while webhook delivery stays strictly in index order, with backpressure and a memory cap on buffered attachments."
+// REF: REQ-34
+// SOURCE: user request
+
+/**
+ * Bounds of an ordered pipeline.
+ *
+ * @property depth - Maximum tasks started but not yet consumed, including the one being consumed.
+ * @property maxBytes - No task starts while unconsumed results and the expected size of in-flight tasks reach this many bytes.
+ */
+export interface PipelineLimits {
+  readonly depth: number;
+  readonly maxBytes: number;
+}
+
+type Settled<R> = { readonly ok: true; readonly value: R } | { readonly ok: false; readonly error: unknown };
+
+interface Slot<R> {
+  readonly settled: Promise<Settled<R>>;
+  bytes: number;
+}
+
+/**
+ * Start `task` for upcoming items while the consumer handles earlier results, and yield
+ * the results strictly in input order. A new task starts only while fewer than `depth`
+ * tasks are outstanding and buffered results, plus the expected size of every task still
+ * in flight including the new one, stay under `maxBytes`, so a slow consumer throttles
+ * the producers. An in-flight task counts its expected size until it settles, then its
+ * actual size until it is consumed.
+ *
+ * Invariant: at least one task is always outstanding while items remain, so a single
+ * result larger than `maxBytes` cannot stall the pipeline.
+ *
+ * @param items - Inputs in delivery order.
+ * @param task - Producer for one input; concurrency beyond `depth` is left to the task.
+ * @param limits - Depth and memory bounds.
+ * @param sizeOf - Bytes a result keeps in memory until consumed.
+ * @param expectedSizeOf - Bytes a task is expected to produce, known before it starts; 0 when unknown.
+ * @returns Results in input order; a rejected task rethrows when its turn comes.
+ */
+export async function* orderedPipeline<T, R>(
+  items: readonly T[],
+  task: (item: T) => Promise<R>,
+  limits: PipelineLimits,
+  sizeOf: (result: R) => number = () => 0,
+  expectedSizeOf: (item: T) => number = () => 0
+): AsyncGenerator<R> {
+  const depth = Math.max(1, limits.depth);
+  const queue: Slot<R>[] = [];
+  let next = 0;
+  let buffered = 0;
+  const fill = (): void => {
+    while (next < items.length && queue.length < depth) {
+      const item = items[next];
+      const expected = expectedSizeOf(item);
+      if (queue.length > 0 && buffered + expected >= limits.maxBytes) {
+        break;
+      }
+      next += 1;
+      buffered += expected;
+      const slot: Slot<R> = {
+        bytes: expected,
+        settled: task(item).then(
+          value => {
+            const size = sizeOf(value);
+            buffered += size - slot.bytes;
+            slot.bytes = size;
+            return { ok: true, value };
+          },
+          (error: unknown) => {
+            buffered -= slot.bytes;
+            slot.bytes = 0;
+            return { ok: false, error };
+          }
+        )
+      };
+      queue.push(slot);
+    }
+  };
+
+  fill();
+  while (queue.length > 0) {
+    const slot = queue[0];
+    const settled = await slot.settled;
+    if (!settled.ok) {
+      throw settled.error;
+    }
+    yield settled.value;
+    queue.shift();
+    buffered -= slot.bytes;
+    fill();
+  }
+}
@@ -0,0 +1,28 @@
+// CHANGE: Fingerprint the announcement-relevant metadata of a plugin.
+// WHY: Delivered messages are edited only when the metadata they display changed.
+// QUOTE(TЗ): "we cannot update an announcement when metadata (stars, description, version) changes."
+// REF: REQ-15
+// SOURCE: user request
+
+import { IndexedPlugin } from "../types.js";
+import { sha256 } from "./hashing.js";
+
+/**
+ * Compute SHA-256 over the plugin fields rendered in announcements.
+ *
+ * @param plugin - Plugin entry.
+ * @returns Hexadecimal digest that changes whenever the embed content would change.
+ */
+export function pluginFingerprint(plugin: IndexedPlugin): string {
+  const shown = [
+    plugin.plugin_name,
+    plugin.plugin_author,
+    plugin.plugin_version,
+    plugin.plugin_description,
+    plugin.categories,
+    plugin.file.path,
+    plugin.repository?.full_name,
+    plugin.repository?.stargazers_count
+  ];
+  return sha256(Buffer.from(JSON.stringify(shown)));
+}
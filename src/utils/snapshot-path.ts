@@ -0,0 +1,30 @@
+// CHANGE: Map source locations to stable file names inside a snapshot directory.
+// WHY: Offline runs must find the same index or plugin file the snapshot downloaded.
+// QUOTE(TЗ): "a `plugins snapshot` command that downloads the current indices and plugin files into a versioned directory, so notify/dry-run can run entirely against the snapshot."
+// REF: REQ-22
+// SOURCE: user request
+
+import path from "path";
+import sanitize from "sanitize-filename";
+import { sha256 } from "./hashing.js";
+
+/**
+ * Snapshot subdirectory holding a resource type.
+ */
+export type SnapshotKind = "indices" | "files";
+
+/**
+ * Resolve the snapshot path of a remote or local location.
+ *
+ * Invariant: the same location always maps to the same path, and distinct locations
+ * sharing a file name do not collide.
+ *
+ * @param directory - Snapshot directory.
+ * @param kind - Resource type.
+ * @param location - Original URL or path.
+ * @returns Path inside the snapshot.
+ */
+export function snapshotEntryPath(directory: string, kind: SnapshotKind, location: string): string {
+  const baseName = sanitize(location.split(/[\\/]/).pop() ?? "") || "resource";
+  return path.join(directory, kind, `${sha256(Buffer.from(location)).slice(0, 16)}-${baseName}`);
+}
@@ -13,3 +13,20 @@
 export function normalizeRawUrl(rawUrl: string): string {
   return rawUrl.replace(/#/g, "%23");
 }
+
+// CHANGE: Derive repository identifiers from raw GitHub URLs.
+// WHY: Cache entries written before the repository was recorded are matched against the deleted list by key.
+// QUOTE(TЗ): "a command to delete messages for plugins whose repositories appear in `deleted_repositories.json`."
+// REF: REQ-15
+// SOURCE: user request
+
+/**
+ * Extract `owner/repo` from a raw.githubusercontent.com URL.
+ *
+ * @param rawUrl - Raw file URL.
+ * @returns Repository full name or undefined for other hosts.
+ */
+export function repositoryFromRawUrl(rawUrl: string): string | undefined {
+  const match = /^https?:\/\/raw\.githubusercontent\.com\/([^/]+)\/([^/]+)\//i.exec(rawUrl);
+  return match ? `${match[1]}/${match[2]}` : undefined;
+}
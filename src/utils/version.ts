@@ -0,0 +1,107 @@
+// CHANGE: Parse and compare plugin versions instead of treating them as opaque strings.
+// WHY: Update announcements should say whether a release is a major, minor or patch bump, or a downgrade.
+// QUOTE(TЗ): "parse versions (semver and the common Oxide `1.2.3`/`1.2.3.4` forms), classify as major/minor/patch/downgrade"
+// REF: REQ-29
+// SOURCE: user request
+
+/**
+ * Parsed plugin version.
+ *
+ * @property numbers - Major, minor, patch and build components; missing ones are 0.
+ * @property prerelease - Dot-separated semver prerelease identifiers, empty for releases.
+ */
+export interface ParsedVersion {
+  readonly numbers: readonly [number, number, number, number];
+  readonly prerelease: readonly string[];
+}
+
+/**
+ * Classification of a version transition. `build` is a change of the fourth Oxide
+ * component; `unknown` means at least one side could not be parsed.
+ */
+export type VersionChange = "major" | "minor" | "patch" | "build" | "prerelease" | "downgrade" | "unchanged" | "unknown";
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/i;
+
+const CHANGE_BY_COMPONENT: readonly VersionChange[] = ["major", "minor", "patch", "build"];
+
+/**
+ * Parse semver (`1.2.3-beta.1+build`) and Oxide (`1.2`, `1.2.3`, `1.2.3.4`) versions.
+ *
+ * @param value - Version string, optionally prefixed with `v`.
+ * @returns Parsed version, or undefined when the string is not a version.
+ */
+export function parseVersion(value: string | undefined): ParsedVersion | undefined {
+  const match = VERSION_PATTERN.exec(value?.trim() ?? "");
+  if (!match) {
+    return undefined;
+  }
+  const component = (index: number): number => Number.parseInt(match[index] ?? "0", 10);
+  return {
+    numbers: [component(1), component(2), component(3), component(4)],
+    prerelease: match[5] ? match[5].split(".") : []
+  };
+}
+
+function compareIdentifiers(left: string, right: string): number {
+  const leftNumeric = /^\d+$/.test(left);
+  const rightNumeric = /^\d+$/.test(right);
+  if (leftNumeric && rightNumeric) {
+    return Number.parseInt(left, 10) - Number.parseInt(right, 10);
+  }
+  if (leftNumeric !== rightNumeric) {
+    return leftNumeric ? -1 : 1;
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Compare parsed versions with semver precedence: numeric components first, then a
+ * release ranks above any of its prereleases.
+ *
+ * @param left - First version.
+ * @param right - Second version.
+ * @returns Negative, zero or positive like `Array.prototype.sort` comparators.
+ */
+export function compareVersions(left: ParsedVersion, right: ParsedVersion): number {
+  for (let index = 0; index < left.numbers.length; index += 1) {
+    const difference = left.numbers[index] - right.numbers[index];
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return right.prerelease.length - left.prerelease.length;
+  }
+  for (let index = 0; index < Math.min(left.prerelease.length, right.prerelease.length); index += 1) {
+    const difference = compareIdentifiers(left.prerelease[index], right.prerelease[index]);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return left.prerelease.length - right.prerelease.length;
+}
+
+/**
+ * Classify the transition from a previously announced version to the current one.
+ *
+ * @param previous - Version recorded with the previous announcement.
+ * @param current - Version being announced.
+ * @returns Most significant component that increased, `downgrade`, `unchanged` or `unknown`.
+ */
+export function classifyVersionChange(previous: string | undefined, current: string | undefined): VersionChange {
+  const before = parseVersion(previous);
+  const after = parseVersion(current);
+  if (!before || !after) {
+    return previous !== undefined && previous === current ? "unchanged" : "unknown";
+  }
+  const order = compareVersions(after, before);
+  if (order < 0) {
+    return "downgrade";
+  }
+  if (order === 0) {
+    return "unchanged";
+  }
+  const component = after.numbers.findIndex((value, index) => value !== before.numbers[index]);
+  return component === -1 ? "prerelease" : CHANGE_BY_COMPONENT[component];
+}
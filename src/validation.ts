@@ -0,0 +1,226 @@
+// CHANGE: Validate index items collecting every problem instead of failing on the first.
+// WHY: One malformed entry among 31k aborted the run while wrong-typed fields were silently dropped.
+// QUOTE(TЗ): "We want a validation mode that collects all problems per item (path, field, expected type), skips only invalid items in lenient mode, fails in strict mode, and prints a `plugins validate` report so we can file issues upstream."
+// REF: REQ-25
+// SOURCE: user request
+
+import { IndexedPlugin, JsonValue, PluginFileRef, PluginIndex, PluginRepoRef } from "./types.js";
+
+/**
+ * `strict` rejects the whole index on any problem; `lenient` skips invalid items and
+ * drops wrong-typed optional fields.
+ */
+export type ValidationMode = "strict" | "lenient";
+
+/**
+ * Single schema violation.
+ *
+ * @property item - Position of the item inside `items`.
+ * @property key - Raw URL of the item, when readable.
+ * @property path - JSON path of the object holding the field.
+ * @property field - Offending field name.
+ * @property expected - Expected type.
+ * @property actual - Type found.
+ * @property rejected - Whether the problem makes the whole item invalid.
+ */
+export interface IndexProblem {
+  readonly item: number;
+  readonly key?: string;
+  readonly path: string;
+  readonly field: string;
+  readonly expected: string;
+  readonly actual: string;
+  readonly rejected: boolean;
+}
+
+/**
+ * Validation outcome: the index of valid items and every problem found.
+ */
+export interface IndexValidation {
+  readonly index: PluginIndex;
+  readonly problems: readonly IndexProblem[];
+  readonly rejected: number;
+}
+
+type FieldType = "string" | "number" | "boolean" | "string | number";
+
+const RESERVED_KEYS = new Set([
+  "plugin_name",
+  "plugin_author",
+  "plugin_version",
+  "plugin_description",
+  "plugin_resource_id",
+  "categories",
+  "file",
+  "repository"
+]);
+
+function isRecord(value: JsonValue | undefined): value is { readonly [key: string]: JsonValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeName(value: JsonValue | undefined): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function matches(value: JsonValue, expected: FieldType): boolean {
+  return expected === "string | number" ? typeof value === "string" || typeof value === "number" : typeof value === expected;
+}
+
+/**
+ * Collects problems of one item while reading its fields.
+ */
+class ItemReader {
+  readonly problems: IndexProblem[] = [];
+
+  constructor(
+    private readonly item: number,
+    private readonly key: string | undefined
+  ) {}
+
+  report(path: string, field: string, expected: string, value: JsonValue | undefined, rejected: boolean): void {
+    this.problems.push({ item: this.item, key: this.key, path, field, expected, actual: typeName(value), rejected });
+  }
+
+  read<T extends string | number | boolean>(
+    record: { readonly [key: string]: JsonValue },
+    path: string,
+    field: string,
+    expected: FieldType
+  ): T | undefined {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!matches(value, expected)) {
+      this.report(path, field, expected, value, false);
+      return undefined;
+    }
+    return value as T;
+  }
+
+  strings(record: { readonly [key: string]: JsonValue }, path: string, field: string): string[] | undefined {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!Array.isArray(value)) {
+      this.report(path, field, "string[]", value, false);
+      return undefined;
+    }
+    value.forEach((element, position) => {
+      if (typeof element !== "string") {
+        this.report(`${path}.${field}`, String(position), "string", element, false);
+      }
+    });
+    return value.filter((element): element is string => typeof element === "string");
+  }
+}
+
+function readFile(reader: ItemReader, value: { readonly [key: string]: JsonValue }, path: string): PluginFileRef {
+  return {
+    path: reader.read(value, path, "path", "string"),
+    raw_url: reader.read(value, path, "raw_url", "string"),
+    sha: reader.read(value, path, "sha", "string"),
+    size: reader.read(value, path, "size", "number")
+  };
+}
+
+function readRepository(reader: ItemReader, raw: { readonly [key: string]: JsonValue }, path: string): PluginRepoRef | undefined {
+  const value = raw.repository;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    reader.report(path, "repository", "object", value, false);
+    return undefined;
+  }
+  const repoPath = `${path}.repository`;
+  return {
+    name: reader.read(value, repoPath, "name", "string"),
+    full_name: reader.read(value, repoPath, "full_name", "string"),
+    html_url: reader.read(value, repoPath, "html_url", "string"),
+    description: reader.read(value, repoPath, "description", "string"),
+    stargazers_count: reader.read(value, repoPath, "stargazers_count", "number"),
+    archived: reader.read(value, repoPath, "archived", "boolean")
+  };
+}
+
+function readItem(raw: JsonValue, item: number): { readonly plugin?: IndexedPlugin; readonly problems: readonly IndexProblem[] } {
+  const path = `items[${item}]`;
+  if (!isRecord(raw)) {
+    const reader = new ItemReader(item, undefined);
+    reader.report("items", String(item), "object", raw, true);
+    return { problems: reader.problems };
+  }
+  const rawUrl = isRecord(raw.file) && typeof raw.file.raw_url === "string" ? raw.file.raw_url : undefined;
+  const reader = new ItemReader(item, rawUrl);
+  if (!isRecord(raw.file)) {
+    reader.report(path, "file", "object", raw.file, true);
+    return { problems: reader.problems };
+  }
+  const plugin: IndexedPlugin = {
+    plugin_name: reader.read(raw, path, "plugin_name", "string"),
+    plugin_author: reader.read(raw, path, "plugin_author", "string"),
+    plugin_version: reader.read(raw, path, "plugin_version", "string"),
+    plugin_description: reader.read(raw, path, "plugin_description", "string"),
+    plugin_resource_id: reader.read(raw, path, "plugin_resource_id", "string | number"),
+    categories: reader.strings(raw, path, "categories"),
+    file: readFile(reader, raw.file, `${path}.file`),
+    repository: readRepository(reader, raw, path),
+    extra: Object.fromEntries(Object.entries(raw).filter(([key]) => !RESERVED_KEYS.has(key)))
+  };
+  return { plugin, problems: reader.problems };
+}
+
+/**
+ * Validate an index document, collecting every problem.
+ *
+ * Invariant: items whose structure is unusable (not an object, no `file` object) are
+ * excluded and counted in `rejected`; wrong-typed optional fields are dropped from
+ * otherwise valid items.
+ *
+ * @param value - Parsed JSON document.
+ * @param url - Source location used in error messages.
+ * @returns Valid items and the problems found.
+ * @throws Error if the document has no `items` array.
+ */
+export function validatePluginIndex(value: JsonValue, url: string): IndexValidation {
+  if (!isRecord(value) || !Array.isArray(value.items)) {
+    throw new Error(`Malformed index: ${url}`);
+  }
+  const problems: IndexProblem[] = [];
+  const items: IndexedPlugin[] = [];
+  value.items.forEach((raw, item) => {
+    const result = readItem(raw, item);
+    problems.push(...result.problems);
+    if (result.plugin) {
+      items.push(result.plugin);
+    }
+  });
+  return {
+    index: {
+      generated_at: typeof value.generated_at === "string" ? value.generated_at : new Date().toISOString(),
+      query: typeof value.query === "string" ? value.query : undefined,
+      count: typeof value.count === "number" ? value.count : items.length,
+      items
+    },
+    problems,
+    rejected: value.items.length - items.length
+  };
+}
+
+/**
+ * Render one problem as a single report line.
+ *
+ * @param problem - Schema violation.
+ * @returns Human-readable description.
+ */
+export function formatProblem(problem: IndexProblem): string {
+  return `${problem.path}.${problem.field}: expected ${problem.expected}, got ${problem.actual}${
+    problem.rejected ? " (item rejected)" : ""
+  }${problem.key ? ` [${problem.key}]` : ""}`;
+}
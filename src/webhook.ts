@@ -6,26 +6,38 @@
 
 import FormData from "form-data";
 import sanitize from "sanitize-filename";
-import { AxiosError } from "axios";
+import { AxiosError, AxiosResponse } from "axios";
 import { DISCORD, FLAGS } from "./config.js";
-import { debug, error as logError, info } from "./logger.js";
-import { IndexedPlugin } from "./types.js";
+import type { SourceChangeSummary } from "./analysis/changelog.js";
+import type { DiffReason } from "./diff.js";
+import { debug, info } from "./logger.js";
+import { deliverWithRetry } from "./notifiers/delivery.js";
+import { discordRateLimiter, discordRoute } from "./notifiers/discord-rate-limit.js";
+import { DeliveryReceipt, IndexedPlugin, SafetyReport } from "./types.js";
 import { httpClient } from "./utils/http.js";
+import type { VersionChange } from "./utils/version.js";
 
-const MAX_WEBHOOK_ATTEMPTS = 5;
+const MAX_THREAD_NAME_LENGTH = 100;
+const MAX_FIELD_VALUE_LENGTH = 1024;
+const MAX_SAFETY_LINES = 5;
 
-interface AttachmentPayload {
+/**
+ * Maximum number of embeds Discord accepts in one webhook execution.
+ */
+export const MAX_EMBEDS_PER_MESSAGE = 10;
+
+export interface AttachmentPayload {
   readonly name: string;
   readonly buffer: Buffer;
 }
 
-interface DiscordEmbedField {
+export interface DiscordEmbedField {
   readonly name: string;
   readonly value: string;
   readonly inline?: boolean;
 }
 
-interface DiscordEmbed {
+export interface DiscordEmbed {
   readonly title: string;
   readonly description: string;
   readonly color: number;
@@ -33,36 +45,202 @@ interface DiscordEmbed {
   readonly timestamp: string;
 }
 
-function buildEmbed(plugin: IndexedPlugin): DiscordEmbed {
+/**
+ * Discord webhook target.
+ *
+ * @property url - Webhook execution URL.
+ * @property threadId - Optional thread inside the webhook channel to post into.
+ * @property forum - Whether the webhook targets a forum channel that gets one post per plugin.
+ */
+export interface DiscordDestination {
+  readonly url: string;
+  readonly threadId?: string;
+  readonly forum?: boolean;
+}
+
+/**
+ * Announcement kind: delta classification or retraction of a previous announcement.
+ */
+export type AnnouncementReason = DiffReason | "removed";
+
+/**
+ * Context describing why a plugin is being announced.
+ *
+ * @property reason - Delta classification produced by computeDelta, or `removed` for retractions.
+ * @property previousVersion - Version recorded with the previous notification.
+ * @property detail - Human readable explanation shown for retractions.
+ * @property versionChange - Classification of the version transition of an update.
+ * @property changes - Summary of the source diff against the previously announced file.
+ */
+export interface AnnouncementContext {
+  readonly reason: AnnouncementReason;
+  readonly previousVersion?: string;
+  readonly detail?: string;
+  // CHANGE: Describe how an update differs from the previous announcement.
+  // WHY: Update embeds should show the kind of release and what changed in the source.
+  // QUOTE(TЗ): "classify as major/minor/patch/downgrade, and include a unified diff summary of the `.cs`"
+  // REF: REQ-29
+  // SOURCE: user request
+  readonly versionChange?: VersionChange;
+  readonly changes?: SourceChangeSummary;
+}
+
+function listFieldValue(values: readonly string[]): string {
+  const shown: string[] = [];
+  let length = 0;
+  for (const value of values) {
+    const item = `\`${value}\``;
+    if (length + item.length + 2 > MAX_FIELD_VALUE_LENGTH - 20) {
+      break;
+    }
+    shown.push(item);
+    length += item.length + 2;
+  }
+  const rest = values.length - shown.length;
+  return rest > 0 ? `${shown.join(", ")} …+${rest} more` : shown.join(", ");
+}
+
+function changesFieldValue(changes: SourceChangeSummary): string {
+  const methodGroups: readonly [string, readonly string[]][] = [
+    ["added", changes.methods.added],
+    ["removed", changes.methods.removed],
+    ["changed", changes.methods.changed]
+  ];
+  const lines = [`+${changes.added} / −${changes.removed} lines`];
+  for (const [label, names] of methodGroups) {
+    if (names.length > 0) {
+      lines.push(`Methods ${label}: ${listFieldValue(names)}`);
+    }
+  }
+  return lines.join("\n").slice(0, MAX_FIELD_VALUE_LENGTH);
+}
+
+function safetyFieldValue(report: SafetyReport): string {
+  const lines = report.findings.map(finding => {
+    const shown = finding.lines.slice(0, MAX_SAFETY_LINES).map(line => `L${line}`);
+    const rest = finding.lines.length - shown.length;
+    return `\`${finding.rule}\` ${shown.join(", ")}${rest > 0 ? ` …+${rest} more` : ""}`;
+  });
+  return lines.join("\n").slice(0, MAX_FIELD_VALUE_LENGTH);
+}
+
+/**
+ * Build Discord embed for a plugin announcement.
+ *
+ * @param plugin - Plugin describing the notification.
+ * @param context - Optional delta context; updates render a distinct embed.
+ * @returns Discord embed object.
+ */
+export function buildEmbed(plugin: IndexedPlugin, context?: AnnouncementContext): DiscordEmbed {
+  // CHANGE: Render updated plugins with a distinct title, colour and version transition.
+  // WHY: Re-announcements must be distinguishable from first-time announcements.
+  // QUOTE(TЗ): "Updated plugins should get a visibly different embed ("Updated" with previous vs current version) from `buildEmbed`."
+  // REF: REQ-11
+  // SOURCE: user request
+  const updated = context?.reason === "updated";
   const fields: DiscordEmbedField[] = [];
   if (plugin.plugin_author) {
     fields.push({ name: "👤 Author", value: plugin.plugin_author, inline: true });
   }
-  if (plugin.plugin_version) {
+  if (updated) {
+    const change = context.versionChange && context.versionChange !== "unknown" ? ` (${context.versionChange})` : "";
+    fields.push({
+      name: "🏷 Version",
+      value: `${context.previousVersion ?? "unknown"} → ${plugin.plugin_version ?? "unknown"}${change}`,
+      inline: true
+    });
+  } else if (plugin.plugin_version) {
     fields.push({ name: "🏷 Version", value: plugin.plugin_version, inline: true });
   }
   if (plugin.repository?.full_name) {
     fields.push({ name: "📦 Repository", value: plugin.repository.full_name, inline: true });
   }
+  if (plugin.repository?.stargazers_count !== undefined) {
+    fields.push({ name: "⭐ Stars", value: String(plugin.repository.stargazers_count), inline: true });
+  }
   if (plugin.categories && plugin.categories.length > 0) {
     fields.push({ name: "🏷 Categories", value: plugin.categories.join(", "), inline: false });
   }
+  // CHANGE: List permissions, commands and hooks extracted from the plugin source.
+  // WHY: Server owners see what a plugin registers before downloading it.
+  // QUOTE(TЗ): "adds permissions/commands/hooks to the embed."
+  // REF: REQ-27
+  // SOURCE: user request
+  const sourceFields: readonly [string, readonly string[] | undefined][] = [
+    ["🔐 Permissions", plugin.source?.permissions],
+    ["💬 Commands", plugin.source?.commands],
+    ["🪝 Hooks", plugin.source?.hooks]
+  ];
+  for (const [fieldName, values] of sourceFields) {
+    if (values && values.length > 0) {
+      fields.push({ name: `${fieldName} (${values.length})`, value: listFieldValue(values), inline: false });
+    }
+  }
+  if (updated && context.changes) {
+    fields.push({ name: "📝 Changes", value: changesFieldValue(context.changes), inline: false });
+  }
+  // CHANGE: Warn about risky patterns found in the attached source.
+  // WHY: The community downloads the attachment, so risky code must be visible before it is run.
+  // QUOTE(TЗ): "Results should appear as a warning field in the embed"
+  // REF: REQ-28
+  // SOURCE: user request
+  if (plugin.safety && plugin.safety.findings.length > 0) {
+    fields.push({
+      name: `⚠️ Safety warnings (risk ${plugin.safety.score})`,
+      value: safetyFieldValue(plugin.safety),
+      inline: false
+    });
+  }
   if (plugin.file.raw_url) {
     fields.push({ name: "🔗 Raw", value: plugin.file.raw_url, inline: false });
   }
+  const name = plugin.plugin_name ?? plugin.file.path ?? "Plugin";
+  // CHANGE: Render retraction notices for plugins that are no longer available.
+  // WHY: Announcements of deleted or vanished plugins are followed by a visible "removed" notice.
+  // QUOTE(TЗ): "posts a «removed» notice or deletes the original message"
+  // REF: REQ-16
+  // SOURCE: user request
+  if (context?.reason === "removed") {
+    return {
+      title: `🗑 Removed: ${name}`,
+      description: context.detail ?? "Plugin is no longer available.",
+      color: 0xff4d4d,
+      fields: [...fields],
+      timestamp: new Date().toISOString()
+    };
+  }
   return {
-    title: `🧩 ${plugin.plugin_name ?? plugin.file.path ?? "Plugin"}`,
-    description: plugin.plugin_description?.slice(0, 500) ?? "New or updated plugin detected.",
-    color: 0x00adff,
+    title: updated ? `🔄 Updated: ${name}` : `🧩 ${name}`,
+    description:
+      plugin.plugin_description?.slice(0, 500) ?? (updated ? "Plugin content changed." : "New or updated plugin detected."),
+    color: updated ? 0xffa500 : 0x00adff,
     fields: [...fields],
     timestamp: new Date().toISOString()
   };
 }
 
-function sleep(delayMs: number): Promise<void> {
-  return new Promise(resolve => {
-    setTimeout(resolve, delayMs);
-  });
+/**
+ * Subset of the Discord message object returned by `?wait=true` executions.
+ *
+ * @property id - Created message id.
+ * @property channel_id - Channel of the message; the thread id for forum posts.
+ */
+interface DiscordMessage {
+  readonly id?: string;
+  readonly channel_id?: string;
+}
+
+// CHANGE: Leave 429 waits to the shared rate limiter instead of sleeping in the retry loop.
+// WHY: The limiter already holds the route (or every route on a global limit) until the reset.
+// QUOTE(TЗ): "`sendPluginWebhook` only reacts after a 429, sleeping for `retry_after`, and ignores `X-RateLimit-Remaining`/`X-RateLimit-Reset-After` and the global flag."
+// REF: REQ-33
+// SOURCE: user request
+function discordRetryAfter(): number {
+  return 0;
+}
+
+function paced<T>(method: string, url: string, operation: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
+  return discordRateLimiter.schedule(discordRoute(method, url), operation);
 }
 
 function attachmentAllowed(plugin: IndexedPlugin, attachment: AttachmentPayload): boolean {
@@ -77,56 +255,240 @@ function attachmentAllowed(plugin: IndexedPlugin, attachment: AttachmentPayload)
   return true;
 }
 
+function executionUrl(url: string, query: { readonly [key: string]: string | undefined }): string {
+  const target = new URL(url);
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      target.searchParams.set(key, value);
+    }
+  }
+  return target.toString();
+}
+
+function messageUrl(destination: DiscordDestination, receipt: DeliveryReceipt & { readonly messageId: string }): string {
+  const target = new URL(destination.url);
+  target.pathname = `${target.pathname.replace(/\/+$/, "")}/messages/${receipt.messageId}`;
+  target.search = "";
+  const threadId = receipt.threadId ?? destination.threadId;
+  if (threadId) {
+    target.searchParams.set("thread_id", threadId);
+  }
+  return target.toString();
+}
+
+function threadName(plugin: IndexedPlugin): string {
+  return (plugin.plugin_name ?? plugin.file.path ?? "Plugin").slice(0, MAX_THREAD_NAME_LENGTH);
+}
+
 /**
  * Send Discord webhook message with optional attachment.
  *
  * @param plugin - Plugin describing the notification.
  * @param attachment - Optional attachment payload.
+ * @param context - Optional delta context used to render updated embeds.
+ * @param destination - Target webhook, defaults to `DISCORD.WEBHOOK_URL`.
+ * @param previous - Receipt of the previous delivery to this destination, used to reply in its forum thread.
+ * @returns Receipt with the created message id and, for forum destinations, the thread id.
  */
-export async function sendPluginWebhook(plugin: IndexedPlugin, attachment?: AttachmentPayload): Promise<void> {
-  if (!DISCORD.WEBHOOK_URL) {
+export async function sendPluginWebhook(
+  plugin: IndexedPlugin,
+  attachment?: AttachmentPayload,
+  context?: AnnouncementContext,
+  destination: DiscordDestination = { url: DISCORD.WEBHOOK_URL, forum: DISCORD.FORUM_THREADS },
+  previous?: DeliveryReceipt
+): Promise<DeliveryReceipt> {
+  if (!destination.url) {
     throw new Error("DISCORD_WEBHOOK_URL must be configured.");
   }
+  // CHANGE: Post to the routed webhook and optional thread instead of the single global URL.
+  // WHY: Plugins are routed to different channels or threads by category, repository, author or extension.
+  // QUOTE(TЗ): "maps `IndexedPlugin.categories`, `repository.full_name` patterns, author names, or file extension to different webhook URLs or threads (`thread_id`)"
+  // REF: REQ-13
+  // SOURCE: user request
+  // CHANGE: Open one forum post per plugin and reply in it for later updates, waiting for the created message.
+  // WHY: The thread id must be recorded from Discord's response to route subsequent updates.
+  // QUOTE(TЗ): "create one forum post per plugin (named after `plugin_name`), record the returned message/thread id in `CachedEntry`, and post subsequent updates of the same plugin as replies in that thread"
+  // REF: REQ-14
+  // SOURCE: user request
+  const forumThreadId = destination.forum ? previous?.threadId : undefined;
+  const targetUrl = executionUrl(destination.url, {
+    wait: "true",
+    thread_id: forumThreadId ?? destination.threadId
+  });
+  const createsThread = destination.forum === true && forumThreadId === undefined;
 
-  const embed = buildEmbed(plugin);
+  const embed = buildEmbed(plugin, context);
+  const payload = createsThread ? { embeds: [embed], thread_name: threadName(plugin) } : { embeds: [embed] };
   const sanitizedName = attachment ? sanitize(attachment.name) : undefined;
 
-  for (let attempt = 0; attempt < MAX_WEBHOOK_ATTEMPTS; attempt += 1) {
-    try {
+  const response = await deliverWithRetry(
+    "Discord",
+    async () => {
       if (attachment && sanitizedName && attachmentAllowed(plugin, attachment)) {
         const form = new FormData();
-        form.append("payload_json", JSON.stringify({ embeds: [embed] }));
+        form.append("payload_json", JSON.stringify(payload));
         form.append("file", attachment.buffer, {
           filename: sanitizedName,
           contentType: "text/plain"
         });
-        await httpClient.post(DISCORD.WEBHOOK_URL, form, {
-          headers: form.getHeaders()
-        });
-      } else {
-        await httpClient.post(DISCORD.WEBHOOK_URL, { embeds: [embed] });
+        return paced("POST", targetUrl, () =>
+          httpClient.post<DiscordMessage | null>(targetUrl, form, {
+            headers: form.getHeaders()
+          })
+        );
       }
-      info(`Webhook delivered for ${plugin.file.raw_url ?? plugin.plugin_name ?? "unknown plugin"}.`);
-      return;
-    } catch (cause) {
-      const axiosError = cause as AxiosError<{ readonly retry_after?: number }>;
-      const status = axiosError.response?.status ?? 0;
-      if (status === 429) {
-        const retryAfterSeconds = axiosError.response?.data?.retry_after ?? 1;
-        const retryDelay = Math.ceil(retryAfterSeconds * 1000);
-        debug(`Discord rate limited, retrying after ${retryDelay}ms.`);
-        await sleep(retryDelay);
-        continue;
+      return paced("POST", targetUrl, () => httpClient.post<DiscordMessage | null>(targetUrl, payload));
+    },
+    discordRetryAfter
+  );
+  info(`Webhook delivered for ${plugin.file.raw_url ?? plugin.plugin_name ?? "unknown plugin"}.`);
+  const message = response.data ?? undefined;
+  return {
+    messageId: message?.id,
+    threadId: destination.forum ? forumThreadId ?? message?.channel_id : undefined
+  };
+}
+
+// CHANGE: Post standalone embeds that do not describe a single plugin.
+// WHY: Index diff reports are delivered to Discord as a digest embed.
+// QUOTE(TЗ): "outputs a human-readable summary, JSON, or a Discord digest embed."
+// REF: REQ-24
+// SOURCE: user request
+
+/**
+ * Send a webhook message carrying the given embeds. Forum destinations get a new post
+ * named `title`.
+ *
+ * @param embeds - Embeds to post (Discord accepts at most ten per message).
+ * @param title - Forum post name.
+ * @param destination - Target webhook, defaults to `DISCORD.WEBHOOK_URL`.
+ * @param attachment - Optional file sent with the embeds when within `MAX_ATTACHMENT_BYTES`.
+ * @returns Receipt with the created message id.
+ * @throws Error if more than ten embeds are given.
+ */
+export async function sendDiscordEmbeds(
+  embeds: readonly DiscordEmbed[],
+  title: string,
+  destination: DiscordDestination = { url: DISCORD.WEBHOOK_URL, forum: DISCORD.FORUM_THREADS },
+  attachment?: AttachmentPayload
+): Promise<DeliveryReceipt> {
+  if (!destination.url) {
+    throw new Error("DISCORD_WEBHOOK_URL must be configured.");
+  }
+  if (embeds.length > MAX_EMBEDS_PER_MESSAGE) {
+    throw new Error(`Discord accepts at most ${MAX_EMBEDS_PER_MESSAGE} embeds per message, got ${embeds.length}.`);
+  }
+  const targetUrl = executionUrl(destination.url, { wait: "true", thread_id: destination.threadId });
+  const payload =
+    destination.forum === true && !destination.threadId
+      ? { embeds, thread_name: title.slice(0, MAX_THREAD_NAME_LENGTH) }
+      : { embeds };
+  // CHANGE: Attach a generated file to embed-only messages.
+  // WHY: Summary digests carry an index of every included plugin.
+  // QUOTE(TЗ): "or a single summary embed with a generated index attachment"
+  // REF: REQ-32
+  // SOURCE: user request
+  const file = attachment && attachment.buffer.byteLength <= DISCORD.MAX_ATTACHMENT_BYTES ? attachment : undefined;
+  if (attachment && !file) {
+    debug(`Attachment ${attachment.name} exceeds limit, sending embeds only.`);
+  }
+  const response = await deliverWithRetry(
+    "Discord",
+    async () => {
+      if (file) {
+        const form = new FormData();
+        form.append("payload_json", JSON.stringify(payload));
+        form.append("file", file.buffer, { filename: sanitize(file.name), contentType: "application/json" });
+        return paced("POST", targetUrl, () =>
+          httpClient.post<DiscordMessage | null>(targetUrl, form, { headers: form.getHeaders() })
+        );
       }
-      if (status >= 500 && status < 600) {
-        const delay = 500 * (attempt + 1);
-        debug(`Discord 5xx response (${status}), retrying after ${delay}ms.`);
-        await sleep(delay);
-        continue;
+      return paced("POST", targetUrl, () => httpClient.post<DiscordMessage | null>(targetUrl, payload));
+    },
+    discordRetryAfter
+  );
+  info(`Webhook delivered ${embeds.length} embeds: ${title}.`);
+  const message = response.data ?? undefined;
+  return { messageId: message?.id, threadId: destination.forum ? message?.channel_id : undefined };
+}
+
+// CHANGE: Edit and delete previously delivered webhook messages by their recorded id.
+// WHY: Announcements are refreshed when plugin metadata changes and removed for deleted repositories.
+// QUOTE(TЗ): "add a mode that PATCHes `/webhooks/{id}/{token}/messages/{message_id}` with a refreshed embed and attachment, plus a command to delete messages for plugins whose repositories appear in `deleted_repositories.json`."
+// REF: REQ-15
+// SOURCE: user request
+
+/**
+ * Replace embed (and attachment, when provided and allowed) of a delivered webhook message.
+ *
+ * @param plugin - Plugin with refreshed metadata.
+ * @param attachment - Optional replacement attachment.
+ * @param destination - Webhook that created the message.
+ * @param receipt - Receipt of the delivered message.
+ * @param context - Context the message was announced with, so updates keep their embed.
+ * @returns Receipt of the edited message.
+ * @throws Error if the receipt has no message id.
+ */
+export async function editPluginWebhook(
+  plugin: IndexedPlugin,
+  attachment: AttachmentPayload | undefined,
+  destination: DiscordDestination,
+  receipt: DeliveryReceipt,
+  context?: AnnouncementContext
+): Promise<DeliveryReceipt> {
+  const { messageId } = receipt;
+  if (!messageId) {
+    throw new Error(`No Discord message id recorded for ${plugin.file.raw_url ?? "unknown plugin"}.`);
+  }
+  const targetUrl = messageUrl(destination, { ...receipt, messageId });
+  const embed = buildEmbed(plugin, context);
+  const sanitizedName = attachment ? sanitize(attachment.name) : undefined;
+
+  await deliverWithRetry(
+    "Discord",
+    async () => {
+      if (attachment && sanitizedName && attachmentAllowed(plugin, attachment)) {
+        const form = new FormData();
+        form.append("payload_json", JSON.stringify({ embeds: [embed], attachments: [{ id: 0, filename: sanitizedName }] }));
+        form.append("files[0]", attachment.buffer, {
+          filename: sanitizedName,
+          contentType: "text/plain"
+        });
+        return paced("PATCH", targetUrl, () =>
+          httpClient.patch(targetUrl, form, {
+            headers: form.getHeaders()
+          })
+        );
       }
-      logError(`Webhook failed with status ${status}: ${axiosError.message}`);
-      throw axiosError;
+      return paced("PATCH", targetUrl, () => httpClient.patch(targetUrl, { embeds: [embed] }));
+    },
+    discordRetryAfter
+  );
+  info(`Webhook message ${messageId} edited for ${plugin.file.raw_url ?? plugin.plugin_name ?? "unknown plugin"}.`);
+  return receipt;
+}
+
+/**
+ * Delete a delivered webhook message. Messages already gone (404) count as deleted.
+ *
+ * @param destination - Webhook that created the message.
+ * @param receipt - Receipt of the delivered message.
+ * @throws Error if the receipt has no message id.
+ */
+export async function deletePluginWebhookMessage(destination: DiscordDestination, receipt: DeliveryReceipt): Promise<void> {
+  const { messageId } = receipt;
+  if (!messageId) {
+    throw new Error("No Discord message id recorded.");
+  }
+  const targetUrl = messageUrl(destination, { ...receipt, messageId });
+  try {
+    await deliverWithRetry("Discord", () => paced("DELETE", targetUrl, () => httpClient.delete(targetUrl)), discordRetryAfter);
+  } catch (cause) {
+    if ((cause as AxiosError).response?.status === 404) {
+      debug(`Webhook message ${messageId} already deleted.`);
+      return;
     }
+    throw cause;
   }
-  throw new Error("Failed to deliver webhook after retries.");
+  info(`Webhook message ${messageId} deleted.`);
 }
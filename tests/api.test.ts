@@ -4,8 +4,11 @@
 // REF: REQ-1
 // SOURCE: internal reasoning
 
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { fetchIndex, filterDeleted, headMeta } from "../src/api.js";
+import { fetchIndex, filterDeleted, headMeta, sourcesRevision } from "../src/api.js";
 import * as http from "../src/utils/http.js";
 import { normalizeRawUrl } from "../src/utils/url.js";
 import { DeletedRepositoriesList, JsonValue } from "../src/types.js";
@@ -29,10 +32,11 @@ const sampleIndex = {
 
 describe("api.fetchIndex", () => {
   beforeEach(() => {
-    vi.spyOn(http, "getJson").mockResolvedValue({
+    vi.spyOn(http, "getJsonConditional").mockResolvedValue({
       data: sampleIndex,
       headers: {},
-      status: 200
+      status: 200,
+      notModified: false
     });
   });
 
@@ -45,6 +49,24 @@ describe("api.fetchIndex", () => {
     expect(index.items).toHaveLength(1);
     expect(index.items[0].plugin_name).toBe("Sample");
   });
+
+  // CHANGE: Confirm local file paths are read without HTTP.
+  // WHY: Sources may point to a local mirror.
+  // QUOTE(TЗ): "We want a sources config listing any number of indices (remote URLs or local file paths)"
+  // REF: REQ-21
+  // SOURCE: user request
+  it("reads local index files from disk", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-index-"));
+    const file = path.join(dir, "index.json");
+    await fs.writeJson(file, sampleIndex);
+    try {
+      const index = await fetchIndex(file);
+      expect(index.items[0].plugin_name).toBe("Sample");
+      expect(http.getJsonConditional).not.toHaveBeenCalled();
+    } finally {
+      await fs.remove(dir);
+    }
+  });
 });
 
 describe("api.filterDeleted", () => {
@@ -93,3 +115,30 @@ describe("normalizeRawUrl", () => {
     expect(normalizeRawUrl("https://example.com/a#b")).toBe("https://example.com/a%23b");
   });
 });
+
+describe("api.sourcesRevision", () => {
+  // CHANGE: Confirm source revisions track file changes and require validators.
+  // WHY: Notify may only short-circuit when every index is known to be unchanged.
+  // QUOTE(TЗ): "and `notify` can short-circuit entirely when no index changed since the last run."
+  // REF: REQ-23
+  // SOURCE: user request
+  it("changes with local files and is unknown for uncached URLs", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-revision-"));
+    const file = path.join(dir, "index.json");
+    await fs.writeJson(file, sampleIndex);
+    try {
+      const sources = { indices: [{ name: "local", location: file, priority: 0 }], deleted: null };
+      const before = await sourcesRevision(sources);
+      await fs.writeJson(file, { ...sampleIndex, count: 2 });
+      await fs.utimes(file, new Date(), new Date(Date.now() + 60_000));
+
+      expect(before).toBeDefined();
+      expect(await sourcesRevision(sources)).not.toBe(before);
+      expect(
+        await sourcesRevision({ ...sources, deleted: "https://example.com/never-fetched.json" })
+      ).toBeUndefined();
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+});
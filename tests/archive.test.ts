@@ -0,0 +1,85 @@
+// CHANGE: Validate the content-addressed plugin archive and its manifest.
+// WHY: Every announced version must be stored once, listed, restorable and reclaimable when unreferenced.
+// QUOTE(TЗ): "A `plugins archive` command should list versions, restore a specific one, and garbage-collect blobs no longer referenced."
+// REF: REQ-30
+// SOURCE: user request
+
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { PluginArchive } from "../src/archive.js";
+import { contentBlobPath, storeContent } from "../src/utils/content-store.js";
+import { sha256 } from "../src/utils/hashing.js";
+
+const key = "https://raw.githubusercontent.com/owner/repo/main/Kits.cs";
+const first = Buffer.from("class Kits { /* 1.0.0 */ }");
+const second = Buffer.from("class Kits { /* 1.1.0 */ }");
+
+describe("PluginArchive", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-archive-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  it("stores each buffer once and records versions per key in the manifest", async () => {
+    const archive = new PluginArchive(directory);
+    const blob = await archive.add(key, first, "1.0.0");
+    await archive.add(key, first, "1.0.0");
+    await archive.add(key, second, "1.1.0");
+    await archive.add("https://example.com/mirror/Kits.cs", first, "1.0.0");
+
+    expect(blob).toBe(contentBlobPath(directory, sha256(first)));
+    expect(await fs.readFile(blob)).toEqual(first);
+    const reopened = new PluginArchive(directory);
+    expect((await reopened.versions(key)).map(version => [version.sha, version.version])).toEqual([
+      [sha256(first), "1.0.0"],
+      [sha256(second), "1.1.0"]
+    ]);
+    expect([...(await reopened.entries()).keys()]).toEqual([key, "https://example.com/mirror/Kits.cs"]);
+  });
+
+  it("restores the latest version, a version string or a sha prefix", async () => {
+    const archive = new PluginArchive(directory);
+    await archive.add(key, first, "1.0.0");
+    await archive.add(key, second, "1.1.0");
+    const target = path.join(directory, "out", "Kits.cs");
+
+    expect((await archive.restore(key, undefined, target)).version).toBe("1.1.0");
+    expect(await fs.readFile(target)).toEqual(second);
+    await archive.restore(key, "1.0.0", target);
+    expect(await fs.readFile(target)).toEqual(first);
+    await archive.restore(key, sha256(second).slice(0, 8), target);
+    expect(await fs.readFile(target)).toEqual(second);
+    await expect(archive.restore(key, "9.9.9", target)).rejects.toThrow(/No archived version 9\.9\.9/);
+  });
+
+  it("garbage-collects blobs referenced neither by the manifest nor the caller", async () => {
+    const archive = new PluginArchive(directory);
+    await archive.add(key, first, "1.0.0");
+    const referenced = await storeContent(directory, Buffer.from("retained by state"));
+    const orphan = await storeContent(directory, Buffer.from("orphan"));
+
+    expect(await archive.gc([referenced])).toEqual({ removed: 1, bytes: 6 });
+    expect(await fs.pathExists(orphan)).toBe(false);
+    expect(await fs.pathExists(referenced)).toBe(true);
+    expect(await fs.pathExists(contentBlobPath(directory, sha256(first)))).toBe(true);
+  });
+
+  it("drops versions of plugins no longer tracked and deletes their blobs", async () => {
+    const archive = new PluginArchive(directory);
+    const dropped = "https://example.com/dropped/Kits.cs";
+    await archive.add(key, first, "1.0.0");
+    const orphan = await archive.add(dropped, second, "1.1.0");
+
+    expect(await archive.gc([], [key])).toEqual({ removed: 1, bytes: second.length });
+    expect(await fs.pathExists(orphan)).toBe(false);
+    expect(await fs.pathExists(contentBlobPath(directory, sha256(first)))).toBe(true);
+    expect([...(await new PluginArchive(directory).entries()).keys()]).toEqual([key]);
+  });
+});
@@ -0,0 +1,116 @@
+// CHANGE: Exercise JSON and SQLite state backends behind StateCache.
+// WHY: Backends must persist incremental upserts, support lookups and migrate the v1 JSON file.
+// QUOTE(TЗ): "add a SQLite backend ... supporting incremental upserts, indexed lookups by key/repo/author, and a migration path from the existing v1 JSON file."
+// REF: REQ-17
+// SOURCE: user request
+
+import os from "os";
+import path from "path";
+import Database from "better-sqlite3";
+import fs from "fs-extra";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { StateCache } from "../src/cache.js";
+import { JsonStateBackend, SqliteStateBackend } from "../src/state/index.js";
+import { CachedEntry } from "../src/types.js";
+
+const alpha: CachedEntry = {
+  key: "https://example.com/alpha.cs",
+  repository: "Owner/Alpha",
+  pluginAuthor: "Dev",
+  notifiedAt: "2024-01-01T00:00:00Z"
+};
+const beta: CachedEntry = {
+  key: "https://example.com/beta.cs",
+  repository: "owner/beta",
+  pluginAuthor: "Other",
+  notifiedAt: "2024-01-02T00:00:00Z"
+};
+
+describe("state backends", () => {
+  let dir: string;
+  const opened: StateCache[] = [];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-state-"));
+  });
+
+  afterEach(async () => {
+    opened.splice(0).forEach(cache => cache.close());
+    await fs.remove(dir);
+  });
+
+  async function open(backend: JsonStateBackend | SqliteStateBackend): Promise<StateCache> {
+    const cache = new StateCache(backend);
+    opened.push(cache);
+    await cache.load();
+    return cache;
+  }
+
+  it("persists JSON entries across reloads", async () => {
+    const file = path.join(dir, "state.json");
+    const first = await open(new JsonStateBackend(file));
+    first.set(alpha);
+    await first.save();
+
+    const second = await open(new JsonStateBackend(file));
+    expect(second.get(alpha.key)).toEqual(alpha);
+    expect(second.findByRepository("owner/alpha")).toEqual([alpha]);
+  });
+
+  it("upserts SQLite entries incrementally with indexed lookups", async () => {
+    const file = path.join(dir, "state.sqlite");
+    const first = await open(new SqliteStateBackend(file, path.join(dir, "missing.json")));
+    first.set(alpha);
+    await first.save();
+    first.set(beta);
+    first.set({ ...alpha, pluginVersion: "2.0.0" });
+    expect(first.stats().count).toBe(2);
+    await first.save();
+    first.close();
+
+    const second = await open(new SqliteStateBackend(file, path.join(dir, "missing.json")));
+    expect(second.get(alpha.key)?.pluginVersion).toBe("2.0.0");
+    expect(second.findByRepository("OWNER/ALPHA").map(entry => entry.key)).toEqual([alpha.key]);
+    expect(second.findByAuthor("other")).toEqual([beta]);
+    expect(second.stats()).toMatchObject({ count: 2, backend: "sqlite" });
+  });
+
+  it("migrates the v1 JSON file into an empty SQLite database once", async () => {
+    const jsonFile = path.join(dir, "plugins-state.json");
+    await fs.writeJson(jsonFile, {
+      entries: { [alpha.key]: alpha, [beta.key]: beta },
+      version: 1,
+      updatedAt: "2024-01-03T00:00:00Z"
+    });
+    const file = path.join(dir, "state.sqlite");
+    const migrated = await open(new SqliteStateBackend(file, jsonFile));
+    expect(migrated.entries()).toHaveLength(2);
+    expect(migrated.stats().updatedAt).toBe("2024-01-03T00:00:00Z");
+    await migrated.clear();
+    migrated.close();
+
+    const reopened = await open(new SqliteStateBackend(file, jsonFile));
+    expect(reopened.entries()).toHaveLength(0);
+  });
+
+  // CHANGE: Verify SQLite databases of older versions are backed up and migrated in place.
+  // WHY: Schema version bumps must not wipe state.
+  // QUOTE(TЗ): "upgrades older `StateFile` versions step by step, backs up the original file"
+  // REF: REQ-18
+  // SOURCE: user request
+  it("migrates an older SQLite database after backing it up", async () => {
+    const file = path.join(dir, "state.sqlite");
+    const legacy = { key: "https://raw.githubusercontent.com/owner/repo/main/a.cs", notifiedAt: "2024-01-01T00:00:00Z" };
+    const created = await open(new SqliteStateBackend(file, path.join(dir, "missing.json")));
+    created.set(legacy);
+    await created.save();
+    created.close();
+    const raw = new Database(file);
+    raw.prepare("UPDATE meta SET value = '1' WHERE name = 'version'").run();
+    raw.close();
+
+    const migrated = await open(new SqliteStateBackend(file, path.join(dir, "missing.json")));
+    expect(migrated.get(legacy.key)).toMatchObject({ destinations: ["discord"], repository: "owner/repo" });
+    expect(await fs.pathExists(`${file}.v1.bak`)).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+// CHANGE: Validate source change summaries and their rendering in update embeds.
+// WHY: Update announcements report lines added/removed and changed method names.
+// QUOTE(TЗ): "include a unified diff summary of the `.cs` (lines added/removed, changed method names) against the previously stored content."
+// REF: REQ-29
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { extractMethods, summariseSourceChange } from "../src/analysis/changelog.js";
+import { buildEmbed } from "../src/webhook.js";
+
+const before = `namespace Oxide.Plugins
+{
+    public class Kits : RustPlugin
+    {
+        private void Init()
+        {
+            permission.RegisterPermission("kits.use", this);
+        }
+
+        private object CanLootEntity(BasePlayer player) => null;
+
+        private void Give(BasePlayer player, string kit) { Puts("{"); }
+    }
+}`;
+
+const after = `namespace Oxide.Plugins
+{
+    public class Kits : RustPlugin
+    {
+        private void Init()
+        {
+            permission.RegisterPermission("kits.use", this);
+            permission.RegisterPermission("kits.admin", this);
+        }
+
+        private void Give(BasePlayer player, string kit) { Puts("{"); }
+
+        private Dictionary<string, List<int>> Cooldowns() { return new Dictionary<string, List<int>>(); }
+    }
+}`;
+
+describe("extractMethods", () => {
+  it("keys method declarations by name and ignores braces inside strings", () => {
+    expect([...extractMethods(before).keys()]).toEqual(["Init", "CanLootEntity", "Give"]);
+    expect(extractMethods(before).get("Give")).toBe('private void Give(BasePlayer player, string kit) { Puts("{"); }');
+  });
+});
+
+describe("summariseSourceChange", () => {
+  it("counts diff lines and lists added, removed and changed methods", () => {
+    expect(summariseSourceChange(before, after)).toEqual({
+      added: 3,
+      removed: 2,
+      methods: { added: ["Cooldowns"], removed: ["CanLootEntity"], changed: ["Init"] }
+    });
+  });
+
+  it("renders the version classification and summary in update embeds", () => {
+    const embed = buildEmbed(
+      { plugin_name: "Kits", plugin_version: "1.1.0", file: { path: "Kits.cs" } },
+      {
+        reason: "updated",
+        previousVersion: "1.0.0",
+        versionChange: "minor",
+        changes: summariseSourceChange(before, after)
+      }
+    );
+    expect(embed.fields).toContainEqual({ name: "🏷 Version", value: "1.0.0 → 1.1.0 (minor)", inline: true });
+    expect(embed.fields).toContainEqual({
+      name: "📝 Changes",
+      value: "+3 / −2 lines\nMethods added: `Cooldowns`\nMethods removed: `CanLootEntity`\nMethods changed: `Init`",
+      inline: false
+    });
+  });
+});
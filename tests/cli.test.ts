@@ -13,6 +13,6 @@ describe("CLI program", () => {
     const pluginsCommand = program.commands.find(command => command.name() === "plugins");
     expect(pluginsCommand).toBeDefined();
     const subCommands = pluginsCommand?.commands.map(command => command.name()) ?? [];
-    expect(subCommands).toEqual(expect.arrayContaining(["notify", "dry-run", "reset", "state"]));
+    expect(subCommands).toEqual(expect.arrayContaining(["notify", "watch", "refresh", "delete-messages", "prune", "dry-run", "index-diff", "validate", "snapshot", "archive", "digest", "reset", "state"]));
   });
 });
@@ -0,0 +1,81 @@
+// CHANGE: Validate C# source metadata extraction and plugin enrichment.
+// WHY: Announcements rely on the analyser for missing fields and permission/command/hook lists.
+// QUOTE(TЗ): "We want a lightweight C# source analyser that extracts this metadata, fills missing `plugin_name`/`plugin_author`/`plugin_version` fields, and adds permissions/commands/hooks to the embed."
+// REF: REQ-27
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { analyseCSharpSource, enrichPlugin, stripComments } from "../src/analysis/csharp.js";
+import { buildEmbed } from "../src/webhook.js";
+
+const source = `
+using Oxide.Core.Libraries.Covalence;
+
+namespace Oxide.Plugins
+{
+    [Info("Kits", "Dev \\"K\\"", "4.1.2")]
+    [Description("Create kits of items that players can redeem // not a comment")]
+    public class Kits : RustPlugin
+    {
+        private const string PermUse = "kits.use";
+        // permission.RegisterPermission("kits.commented", this);
+        /* [ChatCommand("hidden")] */
+
+        private void Init()
+        {
+            permission.RegisterPermission(PermUse, this);
+            permission.RegisterPermission("kits.admin", this);
+            permission.RegisterPermission(Name + ".computed", this);
+            cmd.AddChatCommand("kitlist", this, nameof(ListCommand));
+            AddCovalenceCommand(new[] { "kitgive", "kg" }, nameof(GiveCommand));
+        }
+
+        private object OnPlayerRespawned(BasePlayer player) => null;
+
+        bool? CanLootEntity(BasePlayer player, StorageContainer container) { return null; }
+
+        private void Unload() { }
+
+        [ChatCommand("kit")]
+        private void KitCommand(BasePlayer player, string command, string[] args) { }
+
+        [ConsoleCommand("kits.reset")]
+        private void ResetCommand(ConsoleSystem.Arg arg) { }
+
+        private void Helper() { OnPlayerRespawned(null); }
+    }
+}
+`;
+
+describe("analyseCSharpSource", () => {
+  it("extracts Info, Description, permissions, commands and hooks", () => {
+    expect(analyseCSharpSource(source)).toEqual({
+      name: "Kits",
+      author: "Dev \"K\"",
+      version: "4.1.2",
+      description: "Create kits of items that players can redeem // not a comment",
+      permissions: ["kits.use", "kits.admin"],
+      commands: ["/kit", "kits.reset", "/kitlist", "kitgive", "kg"],
+      hooks: ["Init", "OnPlayerRespawned", "CanLootEntity", "Unload"]
+    });
+  });
+
+  it("keeps strings and verbatim strings when stripping comments", () => {
+    expect(stripComments('var a = "http://x"; // note\nvar b = @"C:\\path ""q"" //";')).toBe(
+      'var a = "http://x"; \nvar b = @"C:\\path ""q"" //";'
+    );
+  });
+
+  it("fills missing index fields and renders source lists in the embed", () => {
+    const plugin = enrichPlugin(
+      { plugin_name: "Kits Index", file: { path: "Kits.cs", raw_url: "https://example.com/Kits.cs" } },
+      Buffer.from(source)
+    );
+
+    expect(plugin).toMatchObject({ plugin_name: "Kits Index", plugin_author: "Dev \"K\"", plugin_version: "4.1.2" });
+    const fields = buildEmbed(plugin).fields.map(field => [field.name, field.value]);
+    expect(fields).toContainEqual(["🔐 Permissions (2)", "`kits.use`, `kits.admin`"]);
+    expect(fields).toContainEqual(["🪝 Hooks (4)", "`Init`, `OnPlayerRespawned`, `CanLootEntity`, `Unload`"]);
+    expect(enrichPlugin({ file: { path: "readme.md" } }, Buffer.from(source))).toEqual({ file: { path: "readme.md" } });
+  });
+});
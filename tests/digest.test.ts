@@ -0,0 +1,143 @@
+// CHANGE: Validate digest batching and state bookkeeping after delivered batches.
+// WHY: Digest mode must never record plugins whose batch failed, nor exceed Discord's embed limit.
+// QUOTE(TЗ): "recording all included keys in `StateCache` after the batch succeeds."
+// REF: REQ-32
+// SOURCE: user request
+
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/config.js", () => ({
+  DISCORD: { WEBHOOK_URL: "https://discord.example/webhook", MAX_ATTACHMENT_BYTES: 1024 },
+  FLAGS: { ONLY_CS_ATTACHMENTS: true },
+  NOTIFIERS: { SINKS: ["discord"] },
+  SOURCES: {
+    OXIDE: "",
+    CRAWLED: "",
+    DELETED: ""
+  },
+  STATE: { PATH: "plugins-state.json", VERSION: 1 },
+  NET: { TIMEOUT: 1000, CONCURRENCY: 2 },
+  CONTENT: { DIR: "" }
+}));
+
+import { processDigest } from "../src/cli.js";
+import { buildDigestIndexAttachment, buildDigestSummaryEmbed, planDigest, pluginTimestamp } from "../src/digest.js";
+import { Notifier } from "../src/notifiers/index.js";
+import { CachedEntry, IndexedPlugin, PluginIndex } from "../src/types.js";
+import { pluginKey } from "../src/utils/plugin-key.js";
+
+function plugin(name: string, repository: string, extra?: IndexedPlugin["extra"]): IndexedPlugin {
+  return {
+    plugin_name: name,
+    plugin_version: "1.0.0",
+    file: { raw_url: `https://example.com/${repository}/${name}.cs`, path: `${name}.cs` },
+    repository: { full_name: repository },
+    extra
+  };
+}
+
+function memoryState(entries: CachedEntry[] = []) {
+  const map = new Map(entries.map(entry => [entry.key, entry] as const));
+  return {
+    entries: () => Array.from(map.values()),
+    get: (key: string) => map.get(key),
+    set: (entry: CachedEntry) => {
+      map.set(entry.key, entry);
+    },
+    save: vi.fn(async () => undefined)
+  };
+}
+
+describe("planDigest", () => {
+  it("chunks plugins by count and numbers the parts", () => {
+    const plugins = ["a", "b", "c", "d", "e"].map(name => plugin(name, "owner/repo"));
+    const batches = planDigest(plugins, "count", 2);
+    expect(batches.map(batch => batch.title)).toEqual(["Plugins (1/3)", "Plugins (2/3)", "Plugins (3/3)"]);
+    expect(batches.flatMap(batch => batch.plugins)).toEqual(plugins);
+  });
+
+  it("groups by repository and by day of the plugin timestamp", () => {
+    const now = new Date("2024-05-02T12:00:00Z");
+    const plugins = [
+      plugin("a", "owner/one", { updated_at: "2024-05-01T08:30:00Z" }),
+      plugin("b", "owner/two"),
+      plugin("c", "owner/one", { pushed_at: "2024-05-01T21:00:00Z" })
+    ];
+    expect(planDigest(plugins, "repository", 10, now).map(batch => [batch.title, batch.plugins.length])).toEqual([
+      ["owner/one", 2],
+      ["owner/two", 1]
+    ]);
+    expect(planDigest(plugins, "day", 10, now).map(batch => batch.title)).toEqual(["2024-05-01", "2024-05-02"]);
+    expect(planDigest(plugins, "hour", 10, now).map(batch => batch.title)).toEqual([
+      "2024-05-01T08:00Z",
+      "2024-05-02T12:00Z",
+      "2024-05-01T21:00Z"
+    ]);
+    expect(pluginTimestamp(plugin("d", "owner/one", { updated_at: "not a date" }), now)).toBe(now);
+  });
+
+  it("rejects non-positive sizes", () => {
+    expect(() => planDigest([], "count", 0)).toThrow("positive integer");
+  });
+});
+
+describe("digest summary", () => {
+  it("lists plugins in the embed and attaches the batch index", () => {
+    const batch = { title: "owner/one", plugins: [plugin("a", "owner/one"), plugin("b", "owner/one")] };
+    const embed = buildDigestSummaryEmbed(batch);
+    expect(embed.title).toBe("📚 owner/one: 2 plugins");
+    expect(embed.description).toBe("• a 1.0.0 — owner/one\n• b 1.0.0 — owner/one");
+    const attachment = buildDigestIndexAttachment(batch);
+    expect(attachment.name).toBe("owner-one.json");
+    const index = JSON.parse(attachment.buffer.toString("utf8")) as PluginIndex;
+    expect(index.count).toBe(2);
+    expect(index.items.map(item => item.plugin_name)).toEqual(["a", "b"]);
+  });
+});
+
+describe("processDigest", () => {
+  it("records every key of delivered batches and leaves failed batches pending", async () => {
+    const plugins = ["a", "b", "c"].map(name => plugin(name, "owner/repo"));
+    const digest = vi.fn().mockResolvedValueOnce({ messageId: "1" }).mockRejectedValueOnce(new Error("boom"));
+    const notifiers: Notifier[] = [{ name: "discord", notify: vi.fn(), digest }];
+    const state = memoryState();
+
+    const delivered = await processDigest(plugins, state, notifiers, { size: 2 });
+
+    expect(delivered).toEqual({ discord: 2 });
+    expect(digest).toHaveBeenCalledTimes(2);
+    expect(digest.mock.calls[0][0]).toHaveLength(2);
+    expect(digest.mock.calls[0][1]).toBe("Plugins (1/2)");
+    expect(state.entries().map(entry => entry.key)).toEqual([pluginKey(plugins[0]), pluginKey(plugins[1])]);
+    expect(state.get(pluginKey(plugins[0]))).toMatchObject({ destinations: ["discord"], pluginName: "a" });
+    expect(state.get(pluginKey(plugins[0]))?.receipts).toBeUndefined();
+    expect(state.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips delivered plugins, sends summaries with an index and ignores sinks without digests", async () => {
+    const plugins = ["a", "b", "c"].map(name => plugin(name, "owner/repo"));
+    const digest = vi.fn().mockResolvedValue({});
+    const plain = vi.fn();
+    const notifiers: Notifier[] = [
+      { name: "discord", notify: vi.fn(), digest },
+      { name: "slack", notify: plain }
+    ];
+    const state = memoryState([
+      { key: pluginKey(plugins[0]), notifiedAt: "2024-01-01T00:00:00.000Z", destinations: ["discord"] }
+    ]);
+
+    await processDigest(plugins, state, notifiers, { size: 50, summary: true });
+
+    expect(digest).toHaveBeenCalledTimes(1);
+    const [embeds, title, attachment] = digest.mock.calls[0];
+    expect(embeds).toHaveLength(1);
+    expect(title).toBe("Plugins");
+    expect((JSON.parse(attachment.buffer.toString("utf8")) as PluginIndex).count).toBe(2);
+    expect(plain).not.toHaveBeenCalled();
+    expect(state.entries()).toHaveLength(3);
+  });
+
+  it("refuses more than ten embeds per message outside summary mode", async () => {
+    await expect(processDigest([], memoryState(), [], { size: 11 })).rejects.toThrow("exceeds 10 embeds");
+  });
+});
@@ -0,0 +1,88 @@
+// CHANGE: Validate proactive Discord pacing with a fake clock.
+// WHY: Bucket and global limits must delay requests before Discord answers with 429.
+// QUOTE(TЗ): "It should be testable with a fake clock."
+// REF: REQ-33
+// SOURCE: user request
+
+import { AxiosError, AxiosResponse } from "axios";
+import { describe, expect, it } from "vitest";
+import { Clock, DiscordRateLimiter, discordRoute, rateLimitSummary } from "../src/notifiers/discord-rate-limit.js";
+
+class FakeClock implements Clock {
+  time = 0;
+  readonly sleeps: number[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  async sleep(delayMs: number): Promise<void> {
+    this.sleeps.push(delayMs);
+    this.time += delayMs;
+  }
+}
+
+function response(status: number, headers: Record<string, string>, data: unknown = null): AxiosResponse {
+  return { status, statusText: "", headers, data, config: {} } as AxiosResponse;
+}
+
+function rateLimited(headers: Record<string, string>, data: unknown): AxiosError {
+  const error = new AxiosError("rate limited");
+  error.response = response(429, headers, data);
+  return error;
+}
+
+const ROUTE_A = discordRoute("POST", "https://discord.com/api/webhooks/1/a?wait=true");
+const ROUTE_B = discordRoute("POST", "https://discord.com/api/webhooks/2/b?wait=true");
+
+describe("DiscordRateLimiter", () => {
+  it("collapses message ids and query strings into route keys", () => {
+    expect(discordRoute("patch", "https://discord.com/api/webhooks/1/a/messages/42?thread_id=7")).toBe(
+      "PATCH /api/webhooks/1/a/messages/:id"
+    );
+    expect(ROUTE_A).toBe("POST /api/webhooks/1/a");
+  });
+
+  it("waits for the bucket reset once no requests remain", async () => {
+    const clock = new FakeClock();
+    const limiter = new DiscordRateLimiter(clock);
+    await limiter.schedule(ROUTE_A, async () =>
+      response(200, { "x-ratelimit-bucket": "abc", "x-ratelimit-remaining": "1", "x-ratelimit-reset-after": "2.5" })
+    );
+    await limiter.acquire(ROUTE_A);
+    expect(clock.sleeps).toEqual([]);
+    await limiter.acquire(ROUTE_A);
+    expect(clock.sleeps).toEqual([2500]);
+    await limiter.acquire(ROUTE_B);
+    expect(clock.sleeps).toEqual([2500]);
+    expect(limiter.stats()).toEqual({ requests: 4, rateLimited: 0, globalLimited: 0, waitedMs: 2500 });
+  });
+
+  it("holds only the limited route on a bucket 429", async () => {
+    const clock = new FakeClock();
+    const limiter = new DiscordRateLimiter(clock);
+    await expect(
+      limiter.schedule(ROUTE_A, async () => {
+        throw rateLimited({}, { retry_after: 1.2, global: false });
+      })
+    ).rejects.toThrow("rate limited");
+    await limiter.acquire(ROUTE_B);
+    expect(clock.sleeps).toEqual([]);
+    await limiter.acquire(ROUTE_A);
+    expect(clock.sleeps).toEqual([1200]);
+    expect(limiter.stats().rateLimited).toBe(1);
+  });
+
+  it("holds every webhook on a global 429 and reports it in the summary", async () => {
+    const clock = new FakeClock();
+    const limiter = new DiscordRateLimiter(clock);
+    await expect(
+      limiter.schedule(ROUTE_A, async () => {
+        throw rateLimited({ "x-ratelimit-global": "true" }, { retry_after: 3 });
+      })
+    ).rejects.toThrow("rate limited");
+    await limiter.acquire(ROUTE_B);
+    expect(clock.sleeps).toEqual([3000]);
+    expect(rateLimitSummary(limiter.stats())).toBe("Discord: 2 requests, 1 rate limited (1 global), paced 3000ms.");
+  });
+});
@@ -0,0 +1,86 @@
+// CHANGE: Validate filter config parsing and rule evaluation.
+// WHY: Filter rules decide which plugins are announced and dry-run reports the deciding rule.
+// QUOTE(TЗ): "We want a declarative filter config (include/exclude by category, author, repository glob, minimum `stargazers_count`, archived flag, file path pattern, description keywords, file size) evaluated against `IndexedPlugin` before download, with `dry-run` showing which rule accepted or rejected each plugin."
+// REF: REQ-31
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { evaluateFilters, loadFilterConfig, matchesFilter, parseFilterConfig } from "../src/filters.js";
+import { IndexedPlugin } from "../src/types.js";
+
+const plugin: IndexedPlugin = {
+  plugin_name: "Kits",
+  plugin_author: "Dev",
+  plugin_description: "Create kits. Deprecated in favour of Loadouts.",
+  categories: ["Admin Tools"],
+  file: { path: "plugins/Kits.cs", raw_url: "https://example.com/Kits.cs", size: 4096 },
+  repository: { full_name: "publicrust/kits", stargazers_count: 12, archived: false }
+};
+
+describe("matchesFilter", () => {
+  it("requires every specified criterion to match", () => {
+    expect(matchesFilter({}, plugin)).toBe(true);
+    expect(matchesFilter({ categories: ["admin tools"], authors: ["DEV"] }, plugin)).toBe(true);
+    expect(matchesFilter({ repositories: ["publicrust/*"], paths: ["plugins/*.cs"] }, plugin)).toBe(true);
+    expect(matchesFilter({ keywords: ["deprecated"], minStars: 12, archived: false }, plugin)).toBe(true);
+    expect(matchesFilter({ minSize: 1024, maxSize: 4096 }, plugin)).toBe(true);
+    expect(matchesFilter({ repositories: ["publicrust/*"], minStars: 13 }, plugin)).toBe(false);
+    expect(matchesFilter({ archived: true }, plugin)).toBe(false);
+    expect(matchesFilter({ maxSize: 100 }, plugin)).toBe(false);
+  });
+
+  it("never matches numeric criteria when the index lacks the value", () => {
+    const bare: IndexedPlugin = { file: { raw_url: "https://example.com/a.cs" } };
+    expect(matchesFilter({ minStars: 0 }, bare)).toBe(false);
+    expect(matchesFilter({ maxSize: 10 }, bare)).toBe(false);
+    expect(matchesFilter({ archived: false }, bare)).toBe(true);
+  });
+});
+
+describe("evaluateFilters", () => {
+  const config = parseFilterConfig(
+    {
+      default: "exclude",
+      rules: [
+        { name: "deprecated", action: "exclude", match: { keywords: ["deprecated"] } },
+        { name: "team", action: "include", match: { repositories: ["publicrust/*"] } }
+      ]
+    },
+    "filters.json"
+  );
+
+  it("lets the first matching rule decide and falls back to the default", () => {
+    expect(evaluateFilters(config, plugin)).toEqual({ accepted: false, rule: "deprecated" });
+    expect(evaluateFilters(config, { ...plugin, plugin_description: "Create kits." })).toEqual({ accepted: true, rule: "team" });
+    expect(evaluateFilters(config, { file: { raw_url: "https://example.com/a.cs" } })).toEqual({
+      accepted: false,
+      rule: "default"
+    });
+  });
+
+  it("loads the example config and treats an empty path as disabled", () => {
+    expect(loadFilterConfig("filters.example.json")?.rules.map(rule => rule.name)).toContain("archived");
+    expect(loadFilterConfig("")).toBeUndefined();
+  });
+
+  it("rejects malformed configs", () => {
+    expect(() => parseFilterConfig({ rules: [{ name: "x", action: "allow", match: {} }] }, "f.json")).toThrow(
+      /rule "x" action must be "include" or "exclude"/
+    );
+    expect(() => parseFilterConfig({ rules: [{ name: "x", action: "include", match: { stars: 5 } }] }, "f.json")).toThrow(
+      /unknown criteria stars/
+    );
+    expect(() =>
+      parseFilterConfig(
+        {
+          rules: [
+            { name: "x", action: "include", match: {} },
+            { name: "x", action: "exclude", match: {} }
+          ]
+        },
+        "f.json"
+      )
+    ).toThrow(/duplicate rule "x"/);
+    expect(parseFilterConfig({ rules: [] }, "f.json").default).toBe("include");
+  });
+});
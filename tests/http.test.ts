@@ -4,9 +4,12 @@
 // REF: REQ-8
 // SOURCE: internal reasoning
 
+import os from "os";
+import path from "path";
 import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import fs from "fs-extra";
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { getJson, httpClient } from "../src/utils/http.js";
+import { getJson, getJsonConditional, httpClient } from "../src/utils/http.js";
 
 describe("getJson", () => {
   afterEach(() => {
@@ -44,3 +47,42 @@ describe("getJson", () => {
     expect(spy).toHaveBeenCalledTimes(2);
   });
 });
+
+describe("getJsonConditional", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // CHANGE: Verify validators are replayed and 304 responses are served from disk.
+  // WHY: Unchanged indices must not be downloaded again.
+  // QUOTE(TЗ): "so unchanged indices return 304 and are served locally"
+  // REF: REQ-23
+  // SOURCE: user request
+  it("stores validators and answers 304 from the on-disk cache", async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-http-cache-"));
+    const config = { url: "https://example.com/index.json", headers: {} } as InternalAxiosRequestConfig;
+    const spy = vi.spyOn(httpClient, "get");
+    spy.mockResolvedValueOnce({
+      status: 200,
+      statusText: "OK",
+      headers: { etag: "\"v1\"", "last-modified": "Mon, 01 Jan 2024 00:00:00 GMT" },
+      config,
+      data: { items: [] }
+    } satisfies AxiosResponse);
+    spy.mockResolvedValueOnce({ status: 304, statusText: "Not Modified", headers: {}, config, data: "" } satisfies AxiosResponse);
+
+    try {
+      const first = await getJsonConditional<{ readonly items: readonly unknown[] }>("https://example.com/index.json", cacheDir);
+      const second = await getJsonConditional<{ readonly items: readonly unknown[] }>("https://example.com/index.json", cacheDir);
+
+      expect(first.notModified).toBe(false);
+      expect(second).toMatchObject({ notModified: true, status: 304, data: { items: [] } });
+      expect(spy.mock.calls[1]?.[1]?.headers).toEqual({
+        "If-None-Match": "\"v1\"",
+        "If-Modified-Since": "Mon, 01 Jan 2024 00:00:00 GMT"
+      });
+    } finally {
+      await fs.remove(cacheDir);
+    }
+  });
+});
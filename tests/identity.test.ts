@@ -0,0 +1,66 @@
+// CHANGE: Validate grouping of forks and mirrors and canonical selection.
+// WHY: Forks of one plugin must produce a single announcement.
+// QUOTE(TЗ): "We'd like an identity resolver that groups entries by normalised plugin name + author + `[Info]` attribute, content sha256 or the upstream git `sha`, picks a canonical entry (e.g. most stars, not archived), and records aliases in the state so forks of already-announced plugins are skipped or grouped."
+// REF: REQ-26
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { resolveIdentities, withAliases } from "../src/identity.js";
+import { CachedEntry, IndexedPlugin } from "../src/types.js";
+
+function plugin(
+  repository: string,
+  name: string,
+  author: string | undefined,
+  sha: string,
+  repo: { readonly stars?: number; readonly archived?: boolean } = {}
+): IndexedPlugin {
+  return {
+    plugin_name: name,
+    plugin_author: author,
+    file: { raw_url: `https://raw.githubusercontent.com/${repository}/main/${name}.cs`, sha },
+    repository: { full_name: repository, stargazers_count: repo.stars, archived: repo.archived }
+  };
+}
+
+describe("resolveIdentities", () => {
+  it("keeps the unarchived most-starred member of an unannounced group", () => {
+    const original = plugin("owner/kits", "Kits", "Dev", "a", { stars: 50, archived: true });
+    const fork = plugin("fork/kits", "Kits", "Dev", "b", { stars: 3 });
+    const mirror = plugin("mirror/kits", "kits", "dev", "c", { stars: 10 });
+    const unrelated = plugin("other/zones", "Zones", "Other", "d");
+
+    const { plugins, aliases } = resolveIdentities([original, fork, mirror, unrelated], []);
+
+    expect(plugins).toEqual([mirror, unrelated]);
+    expect(aliases.get(mirror.file.raw_url as string)).toEqual([original.file.raw_url, fork.file.raw_url]);
+  });
+
+  it("skips forks of announced plugins matched by git sha, content hash or recorded alias", () => {
+    const announced: CachedEntry = {
+      key: "https://raw.githubusercontent.com/owner/kits/main/Kits.cs",
+      notifiedAt: "2024-01-01T00:00:00Z",
+      fileSha: "a",
+      contentHash: "hash"
+    };
+    const bySha = plugin("fork/kits", "Renamed", undefined, "a");
+    const byAlias = plugin("branch/kits", "Other", undefined, "z");
+    const entries: CachedEntry[] = [{ ...announced, aliases: [byAlias.file.raw_url as string] }];
+
+    const { plugins, aliases } = resolveIdentities([bySha, byAlias], entries);
+
+    expect(plugins).toEqual([]);
+    expect(aliases.get(announced.key)).toEqual([bySha.file.raw_url, byAlias.file.raw_url]);
+    expect(withAliases(entries[0], aliases.get(announced.key) ?? [])?.aliases).toEqual(
+      [bySha.file.raw_url, byAlias.file.raw_url].sort()
+    );
+    expect(withAliases(entries[0], [byAlias.file.raw_url as string])).toBeUndefined();
+  });
+
+  it("ignores retracted entries when grouping", () => {
+    const fork = plugin("fork/kits", "Kits", "Dev", "a");
+    const retracted: CachedEntry = { key: "gone", notifiedAt: "2024-01-01T00:00:00Z", fileSha: "a", retractedAt: "2024-02-01T00:00:00Z" };
+
+    expect(resolveIdentities([fork], [retracted]).plugins).toEqual([fork]);
+  });
+});
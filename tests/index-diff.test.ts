@@ -0,0 +1,57 @@
+// CHANGE: Validate index diff classification and rendering.
+// WHY: Upstream change reports must classify additions, removals, bumps, moves and sha changes correctly.
+// QUOTE(TЗ): "We want to know what changed upstream between two index snapshots: plugins added, removed, version bumped, moved repositories, changed sha."
+// REF: REQ-24
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { buildIndexDiffEmbed, diffIndices, formatIndexDiff, indexDiffReport } from "../src/index-diff.js";
+import { IndexedPlugin } from "../src/types.js";
+
+function plugin(name: string, repository: string, overrides: Partial<IndexedPlugin> = {}): IndexedPlugin {
+  return {
+    plugin_name: name,
+    plugin_version: "1.0.0",
+    file: { raw_url: `https://raw.githubusercontent.com/${repository}/main/${name}.cs`, path: `${name}.cs`, sha: "a" },
+    repository: { full_name: repository },
+    ...overrides
+  };
+}
+
+describe("diffIndices", () => {
+  const before = [plugin("Alpha", "o/r"), plugin("Beta", "o/r"), plugin("Gamma", "o/r"), plugin("Delta", "o/r")];
+  const after = [
+    plugin("Alpha", "o/r", { plugin_version: "1.1.0" }),
+    plugin("Beta", "fork/r"),
+    plugin("Delta", "o/r", { file: { ...plugin("Delta", "o/r").file, sha: "b" } }),
+    plugin("Epsilon", "o/r")
+  ];
+
+  it("classifies added, removed, version, moved and sha changes", () => {
+    const diff = diffIndices(before, after);
+
+    expect(diff.added.map(item => item.plugin_name)).toEqual(["Epsilon"]);
+    expect(diff.removed.map(item => item.plugin_name)).toEqual(["Gamma"]);
+    expect(diff.versionChanged.map(({ from, to }) => [from, to])).toEqual([["1.0.0", "1.1.0"]]);
+    expect(diff.moved).toEqual([
+      expect.objectContaining({ from: "o/r", to: "fork/r", fromKey: before[1].file.raw_url, key: after[1].file.raw_url })
+    ]);
+    expect(diff.shaChanged.map(change => change.plugin.plugin_name)).toEqual(["Delta"]);
+  });
+
+  it("renders summary, JSON report and digest embed", () => {
+    const diff = diffIndices(before, after);
+
+    expect(formatIndexDiff(diff)).toContain("Moved: 1\n  Beta o/r → fork/r");
+    expect(indexDiffReport(diff)).toMatchObject({ before: 4, after: 4, added: [after[3].file.raw_url] });
+    const embed = buildIndexDiffEmbed(diff);
+    expect(embed.fields.map(field => field.name)).toEqual([
+      "Added (1)",
+      "Removed (1)",
+      "Version changed (1)",
+      "Moved (1)",
+      "Sha changed (1)"
+    ]);
+    expect(buildIndexDiffEmbed(diffIndices(before, before)).fields[0].name).toBe("No changes");
+  });
+});
@@ -0,0 +1,104 @@
+// CHANGE: Validate the run journal and shutdown signal handling.
+// WHY: An interrupted run must report its last and in-flight plugin, and signals must stop between items.
+// QUOTE(TЗ): "signal handling that finishes or aborts the current item cleanly, flushes `StateCache`, and a run journal (run id, started, last key, counts)"
+// REF: REQ-35
+// SOURCE: user request
+
+import { EventEmitter } from "events";
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { describeRunJournal, readRunJournal, RunJournal } from "../src/journal.js";
+import { ShutdownController, SignalSource } from "../src/shutdown.js";
+
+describe("RunJournal", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-journal-"));
+    file = path.join(dir, "plugins-run.json");
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("records counts, last key and the in-flight plugin", async () => {
+    const journal = await RunJournal.open("notify", undefined, file);
+    await journal.record("alpha", "delivered");
+    await journal.record("beta", "skipped");
+    await journal.begin("gamma");
+
+    const stored = await readRunJournal(file);
+    expect(stored).toMatchObject({
+      runId: journal.current.runId,
+      status: "running",
+      lastKey: "beta",
+      inFlight: "gamma",
+      counts: { delivered: 1, skipped: 1, failed: 0 }
+    });
+    expect(describeRunJournal(stored!)).toContain(
+      "1 delivered, 1 skipped, 0 failed; continues after beta; gamma was in flight"
+    );
+  });
+
+  it("keeps the aborted in-flight plugin when a run is interrupted", async () => {
+    const journal = await RunJournal.open("notify", undefined, file);
+    await journal.begin("alpha");
+    await journal.finish("interrupted");
+
+    expect(await readRunJournal(file)).toMatchObject({ status: "interrupted", inFlight: "alpha" });
+  });
+
+  it("continues an interrupted run under the same id", async () => {
+    const first = await RunJournal.open("notify", undefined, file);
+    await first.record("alpha", "delivered");
+    await first.finish("interrupted");
+
+    const previous = await readRunJournal(file);
+    const resumed = await RunJournal.open("notify", previous, file);
+    await resumed.record("beta", "failed");
+
+    expect(resumed.current).toMatchObject({
+      runId: first.current.runId,
+      status: "running",
+      lastKey: "beta",
+      counts: { delivered: 1, skipped: 0, failed: 1 }
+    });
+    expect(resumed.current.resumedAt).toHaveLength(1);
+    await expect(readRunJournal(path.join(dir, "missing.json"))).resolves.toBeUndefined();
+  });
+});
+
+describe("ShutdownController", () => {
+  it("requests a stop on the first signal and exits after the cleanups on the second", async () => {
+    const emitter = new EventEmitter();
+    const exit = vi.fn();
+    const source = Object.assign(emitter, { exit }) as unknown as SignalSource;
+    const calls: string[] = [];
+    const shutdown = new ShutdownController(source)
+      .onAbort(async () => {
+        calls.push("save");
+      })
+      .onAbort(async () => {
+        throw new Error("journal unavailable");
+      })
+      .install();
+    exit.mockImplementation(() => calls.push("exit"));
+
+    emitter.emit("SIGTERM", "SIGTERM");
+    expect(shutdown.requested).toBe(true);
+    expect(shutdown.exitCode).toBe(143);
+    expect(exit).not.toHaveBeenCalled();
+
+    emitter.emit("SIGINT", "SIGINT");
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(130));
+    expect(calls).toEqual(["save", "exit"]);
+
+    shutdown.dispose();
+    expect(emitter.listenerCount("SIGINT")).toBe(0);
+    expect(emitter.listenerCount("SIGTERM")).toBe(0);
+  });
+});
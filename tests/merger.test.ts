@@ -5,7 +5,7 @@
 // SOURCE: internal reasoning
 
 import { describe, expect, it } from "vitest";
-import { mergeIndices } from "../src/merger.js";
+import { mergeIndexList, mergeIndices } from "../src/merger.js";
 import { PluginIndex } from "../src/types.js";
 
 describe("mergeIndices", () => {
@@ -57,4 +57,31 @@ describe("mergeIndices", () => {
     expect(plugin.categories).toStrictEqual(["crawled"]);
     expect(plugin.file.path).toBe("src/plugin.cs");
   });
+
+  // CHANGE: Verify ordered N-way merge precedence.
+  // WHY: Higher-priority sources must override filled fields of lower ones.
+  // QUOTE(TЗ): "Merge precedence should generalise from the current oxide-then-crawled rule to an ordered N-way merge."
+  // REF: REQ-21
+  // SOURCE: user request
+  it("merges any number of indices with later ones taking precedence", () => {
+    const index = (name: string | undefined, version: string | undefined, url: string): PluginIndex => ({
+      generated_at: "2024-01-01T00:00:00Z",
+      query: undefined,
+      count: 1,
+      items: [{ plugin_name: name, plugin_version: version, file: { raw_url: url }, extra: {} }]
+    });
+
+    const merged = mergeIndexList([
+      { name: "oxide", index: index("Base", "1.0.0", "https://example.com/a.cs") },
+      { name: "crawled", index: index("Crawled", undefined, "https://example.com/a.cs") },
+      { name: "curated", index: index(undefined, "3.0.0", "https://example.com/a.cs") },
+      { name: "mirror", index: index("Other", "1.0.0", "https://example.com/b.cs") }
+    ]);
+
+    expect(merged.query).toBe("Merged oxide(1) + crawled(1) + curated(1) + mirror(1)");
+    expect(merged.items.map(plugin => [plugin.plugin_name, plugin.plugin_version])).toEqual([
+      ["Crawled", "3.0.0"],
+      ["Other", "1.0.0"]
+    ]);
+  });
 });
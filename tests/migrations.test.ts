@@ -0,0 +1,91 @@
+// CHANGE: Validate step-by-step state migrations, backups and corruption handling.
+// WHY: Version bumps must upgrade state instead of wiping it and re-announcing every plugin.
+// QUOTE(TЗ): "We need a migration framework that upgrades older `StateFile` versions step by step, backs up the original file, and refuses to start (rather than reset) when the file is corrupted unless an explicit `--force-reset` is passed."
+// REF: REQ-18
+// SOURCE: user request
+
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { STATE } from "../src/config.js";
+import { JsonStateBackend } from "../src/state/index.js";
+import { migrateStateFile, parseStateFile, StateMigration } from "../src/state/migrations.js";
+import { StateFile } from "../src/types.js";
+
+const v1: StateFile = {
+  entries: {
+    "https://raw.githubusercontent.com/owner/repo/main/a.cs": {
+      key: "https://raw.githubusercontent.com/owner/repo/main/a.cs",
+      notifiedAt: "2024-01-01T00:00:00Z"
+    }
+  },
+  version: 1,
+  updatedAt: "2024-01-01T00:00:00Z"
+};
+
+describe("migrateStateFile", () => {
+  it("upgrades v1 entries with destinations and repository", () => {
+    const { state, applied } = migrateStateFile(v1, 2);
+    expect(applied.map(step => step.from)).toEqual([1]);
+    expect(state.version).toBe(2);
+    expect(Object.values(state.entries)[0]).toMatchObject({ destinations: ["discord"], repository: "owner/repo" });
+  });
+
+  it("applies registered steps in order and rejects newer or unreachable versions", () => {
+    const steps: StateMigration[] = [
+      { from: 2, description: "second", migrate: state => ({ ...state, version: 3, updatedAt: `${state.updatedAt}+2` }) },
+      { from: 1, description: "first", migrate: state => ({ ...state, version: 2, updatedAt: "1" }) }
+    ];
+    expect(migrateStateFile(v1, 3, steps).state.updatedAt).toBe("1+2");
+    expect(() => migrateStateFile({ ...v1, version: 4 }, 3, steps)).toThrow("newer than supported");
+    expect(() => migrateStateFile(v1, 3, [])).toThrow("No state migration registered from version 1");
+  });
+
+  it("rejects structurally invalid documents", () => {
+    expect(() => parseStateFile({ entries: {}, updatedAt: "" })).toThrow("version");
+    expect(() => parseStateFile({ version: 1, entries: { a: { key: "b", notifiedAt: "" } } })).toThrow("malformed entry a");
+    expect(() => parseStateFile({ version: 2, entries: { a: { key: "a", notifiedAt: "", fileSize: "12" } } })).toThrow(
+      "malformed entry a: fileSize must be a number"
+    );
+    expect(() =>
+      parseStateFile({ version: 2, entries: { a: { key: "a", notifiedAt: "", destinations: ["discord", 1] } } })
+    ).toThrow("destinations must be a list of strings");
+  });
+});
+
+describe("JsonStateBackend loading", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-migrate-"));
+    file = path.join(dir, "plugins-state.json");
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("migrates older file, keeps a backup and rewrites current version", async () => {
+    await fs.writeJson(file, v1);
+    const backend = new JsonStateBackend(file);
+    await backend.load();
+
+    expect(backend.count()).toBe(1);
+    expect((await fs.readJson(file)).version).toBe(STATE.VERSION);
+    const backups = (await fs.readdir(dir)).filter(name => name.includes(".v1-"));
+    expect(backups).toHaveLength(1);
+    expect(await fs.readJson(path.join(dir, backups[0] ?? ""))).toEqual(v1);
+  });
+
+  it("refuses corrupted file unless reset is forced", async () => {
+    await fs.writeFile(file, "{ not json");
+    await expect(new JsonStateBackend(file).load()).rejects.toThrow("--force-reset");
+
+    const backend = new JsonStateBackend(file);
+    await backend.load({ forceReset: true });
+    expect(backend.count()).toBe(0);
+    expect((await fs.readdir(dir)).some(name => name.includes(".corrupt-"))).toBe(true);
+  });
+});
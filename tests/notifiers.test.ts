@@ -0,0 +1,182 @@
+// CHANGE: Verify notifier selection, fan-out and platform-specific payloads.
+// WHY: Sinks must be combinable while each applies its own attachment and rate-limit rules.
+// QUOTE(TЗ): "introduce a notifier interface ... selectable and combinable via configuration."
+// REF: REQ-12
+// SOURCE: user request
+
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import FormData from "form-data";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/config.js", () => ({
+  DISCORD: { WEBHOOK_URL: "https://discord.example/webhook", MAX_ATTACHMENT_BYTES: 1024 },
+  FLAGS: { ONLY_CS_ATTACHMENTS: true },
+  NOTIFIERS: { SINKS: ["discord"] },
+  SLACK: { WEBHOOK_URL: "https://slack.example/hook" },
+  TELEGRAM: { BOT_TOKEN: "token", CHAT_ID: "42", MAX_ATTACHMENT_BYTES: 1024 },
+  MATRIX: { HOMESERVER_URL: "", ACCESS_TOKEN: "", ROOM_ID: "" },
+  GENERIC_WEBHOOK: { URL: "https://hooks.example/plugins", INCLUDE_CONTENT: true, MAX_ATTACHMENT_BYTES: 16 },
+  NET: { TIMEOUT: 1000, CONCURRENCY: 2 },
+  STATE: { PATH: "plugins-state.json", VERSION: 1 }
+}));
+
+import { createConfiguredNotifiers, dispatchNotification, Notifier } from "../src/notifiers/index.js";
+import { createDiscordNotifiers } from "../src/notifiers/discord.js";
+import { parseRoutingTable } from "../src/notifiers/discord-routes.js";
+import { createHttpNotifier } from "../src/notifiers/http.js";
+import { createSlackNotifier } from "../src/notifiers/slack.js";
+import { createTelegramNotifier } from "../src/notifiers/telegram.js";
+import { IndexedPlugin } from "../src/types.js";
+import { httpClient } from "../src/utils/http.js";
+
+const plugin: IndexedPlugin = {
+  plugin_name: "Test",
+  plugin_version: "1.0.0",
+  file: { raw_url: "https://example.com/plugin.cs", path: "plugin.cs" },
+  repository: { full_name: "owner/repo" }
+};
+
+describe("notifier selection", () => {
+  it("creates notifiers in configured order", () => {
+    const notifiers = createConfiguredNotifiers(["slack", "discord", "slack"]);
+    expect(notifiers.map(notifier => notifier.name)).toEqual(["slack", "discord"]);
+  });
+
+  it("rejects unknown and misconfigured notifiers", () => {
+    expect(() => createConfiguredNotifiers(["pigeon"])).toThrow('Unknown notifier "pigeon"');
+    expect(() => createConfiguredNotifiers(["matrix"])).toThrow("MATRIX_HOMESERVER_URL");
+  });
+});
+
+// CHANGE: Verify routing table selection and default fallback.
+// WHY: Plugins must reach the destinations matching their metadata only.
+// QUOTE(TЗ): "maps `IndexedPlugin.categories`, `repository.full_name` patterns, author names, or file extension to different webhook URLs or threads (`thread_id`), with a default fallback."
+// REF: REQ-13
+// SOURCE: user request
+describe("Discord routing", () => {
+  const table = parseRoutingTable(
+    {
+      routes: [
+        { name: "admin", url: "https://discord.example/admin", match: { categories: ["Admin"] } },
+        {
+          name: "team",
+          url: "https://discord.example/team",
+          threadId: "99",
+          match: { repositories: ["publicrust/*"], extensions: [".cs"] }
+        }
+      ]
+    },
+    "routes.json"
+  );
+
+  it("routes by category and repository pattern with default fallback", () => {
+    const notifiers = createDiscordNotifiers(table);
+    const accepted = (candidate: IndexedPlugin) =>
+      notifiers.filter(notifier => notifier.accepts?.(candidate) ?? true).map(notifier => notifier.name);
+
+    expect(accepted({ ...plugin, categories: ["admin"] })).toEqual(["discord:admin"]);
+    expect(accepted({ ...plugin, repository: { full_name: "PublicRust/tools" } })).toEqual(["discord:team"]);
+    expect(accepted(plugin)).toEqual(["discord"]);
+  });
+
+  it("rejects duplicate route names", () => {
+    expect(() =>
+      parseRoutingTable(
+        {
+          routes: [
+            { name: "a", url: "https://discord.example/a", match: {} },
+            { name: "a", url: "https://discord.example/b", match: {} }
+          ]
+        },
+        "routes.json"
+      )
+    ).toThrow('duplicate route "a"');
+  });
+});
+
+describe("dispatchNotification", () => {
+  const failing: Notifier = { name: "failing", notify: vi.fn().mockRejectedValue(new Error("down")) };
+
+  it("succeeds when at least one notifier delivers", async () => {
+    const working: Notifier = { name: "working", notify: vi.fn().mockResolvedValue(undefined) };
+    await expect(dispatchNotification([failing, working], plugin)).resolves.toEqual({ working: {} });
+    expect(working.notify).toHaveBeenCalledTimes(1);
+  });
+
+  it("rethrows when every notifier fails", async () => {
+    await expect(dispatchNotification([failing], plugin)).rejects.toThrow("down");
+  });
+});
+
+describe("platform notifiers", () => {
+  beforeEach(() => {
+    vi.spyOn(httpClient, "post").mockResolvedValue({} as AxiosResponse);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("sends Telegram document when attachment fits and text message otherwise", async () => {
+    const notifier = createTelegramNotifier();
+    await notifier.notify(plugin, { name: "plugin.cs", buffer: Buffer.alloc(64) });
+    await notifier.notify(plugin, { name: "plugin.cs", buffer: Buffer.alloc(2048) });
+    const calls = vi.mocked(httpClient.post).mock.calls;
+    expect(calls[0]?.[0]).toBe("https://api.telegram.org/bottoken/sendDocument");
+    expect(calls[0]?.[1]).toBeInstanceOf(FormData);
+    expect(calls[1]?.[0]).toBe("https://api.telegram.org/bottoken/sendMessage");
+    expect(calls[1]?.[1]).toMatchObject({ chat_id: "42", parse_mode: "HTML" });
+  });
+
+  it("truncates long Telegram text before escaping so entities stay intact", async () => {
+    const append = vi.spyOn(FormData.prototype, "append");
+    const notifier = createTelegramNotifier();
+    const long: IndexedPlugin = {
+      ...plugin,
+      plugin_description: "Tom & Jerry <3 ".repeat(40),
+      categories: Array.from({ length: 800 }, () => "A&B")
+    };
+    await notifier.notify(long, { name: "plugin.cs", buffer: Buffer.alloc(64) });
+    await notifier.notify(long, { name: "plugin.cs", buffer: Buffer.alloc(2048) });
+    const caption = String(append.mock.calls.find(call => call[0] === "caption")?.[1]);
+    const text = (vi.mocked(httpClient.post).mock.calls[1]?.[1] as { text: string }).text;
+    for (const html of [caption, text]) {
+      expect(html.endsWith("…")).toBe(true);
+      expect(html).not.toMatch(/&[a-z]*…$/);
+      expect(html.split("<b>").length).toBe(html.split("</b>").length);
+    }
+    expect(caption.length).toBeLessThanOrEqual(1024);
+    expect(text.length).toBeLessThanOrEqual(4096);
+  });
+
+  it("never uploads files to Slack and honours Retry-After", async () => {
+    vi.useFakeTimers();
+    const rateLimited = new AxiosError("rate limited");
+    rateLimited.response = {
+      status: 429,
+      statusText: "Too Many Requests",
+      headers: { "retry-after": "1" },
+      config: { headers: {} } as InternalAxiosRequestConfig,
+      data: null
+    };
+    vi.mocked(httpClient.post).mockRejectedValueOnce(rateLimited);
+
+    const promise = createSlackNotifier().notify(plugin, { name: "plugin.cs", buffer: Buffer.alloc(64) });
+    await vi.runAllTimersAsync();
+    await promise;
+
+    const calls = vi.mocked(httpClient.post).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(calls[1]?.[1]).toMatchObject({ text: expect.stringContaining("*🧩 Test*") });
+  });
+
+  it("inlines generic webhook content only within the size limit", async () => {
+    const notifier = createHttpNotifier();
+    await notifier.notify(plugin, { name: "plugin.cs", buffer: Buffer.from("small") });
+    await notifier.notify(plugin, { name: "plugin.cs", buffer: Buffer.alloc(64) });
+    const calls = vi.mocked(httpClient.post).mock.calls;
+    expect(calls[0]?.[1]).toMatchObject({ event: "new", attachment: { content_base64: Buffer.from("small").toString("base64") } });
+    expect(calls[1]?.[1]).toMatchObject({ attachment: { size: 64, content_base64: undefined } });
+  });
+});
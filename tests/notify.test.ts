@@ -0,0 +1,163 @@
+// CHANGE: Verify the notify marker never hides deliveries that are still owed.
+// WHY: A failed webhook must be retried on the next run even when no index changed.
+// QUOTE(TЗ): "write the marker only when no entry has pending or failed destinations."
+// REF: REQ-23
+// SOURCE: review feedback
+
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/config.js", async () => {
+  const os = await import("os");
+  const path = await import("path");
+  const fs = await import("fs");
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "plugins-notify-"));
+  return {
+    DISCORD: { WEBHOOK_URL: "https://discord.example/webhook", ROUTES_PATH: "", MAX_ATTACHMENT_BYTES: 1024 },
+    FLAGS: { ONLY_CS_ATTACHMENTS: true },
+    NOTIFIERS: { SINKS: ["discord"] },
+    SOURCES: { OXIDE: "oxide.json", CRAWLED: "crawled.json", DELETED: "", CONFIG_PATH: "" },
+    FILTERS: { CONFIG_PATH: "" },
+    STATE: {
+      PATH: path.join(directory, "plugins-state.json"),
+      JOURNAL_PATH: path.join(directory, "plugins-run.json"),
+      BACKEND: "json",
+      VERSION: 2
+    },
+    NET: {
+      TIMEOUT: 1000,
+      CONCURRENCY: 2,
+      CACHE_DIR: path.join(directory, "http-cache"),
+      PIPELINE_DEPTH: 4,
+      PIPELINE_MAX_BYTES: 1024
+    },
+    IDENTITY: { DEDUPE: false },
+    SAFETY: { BLOCK_SCORE: 0 },
+    CONTENT: { DIR: "" }
+  };
+});
+
+const getFileMock = vi.hoisted(() => vi.fn());
+const fetchIndexMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../src/api.js", () => ({
+  fetchIndex: fetchIndexMock,
+  fetchDeleted: vi.fn().mockResolvedValue(null),
+  filterDeleted: (items: unknown) => items,
+  getFile: getFileMock,
+  getOfflineDirectory: () => undefined,
+  sourcesRevision: vi.fn().mockResolvedValue("oxide.json=etag-1")
+}));
+
+const sendPluginWebhookMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../src/webhook.js", () => ({
+  sendPluginWebhook: sendPluginWebhookMock
+}));
+
+import path from "path";
+import fs from "fs-extra";
+import { notifyAction } from "../src/cli.js";
+import { FILTERS, IDENTITY, NET, STATE } from "../src/config.js";
+import { IndexedPlugin } from "../src/types.js";
+
+const alpha: IndexedPlugin = {
+  plugin_name: "Alpha",
+  file: { raw_url: "https://example.com/alpha.cs", path: "alpha.cs" },
+  repository: { full_name: "owner/alpha" }
+};
+
+function serveIndex(items: readonly IndexedPlugin[]): void {
+  fetchIndexMock.mockResolvedValue({ count: items.length, items });
+}
+
+describe("notifyAction", () => {
+  beforeEach(() => {
+    serveIndex([alpha]);
+  });
+
+  afterEach(async () => {
+    getFileMock.mockReset();
+    sendPluginWebhookMock.mockReset();
+    Object.assign(IDENTITY, { DEDUPE: false });
+    Object.assign(FILTERS, { CONFIG_PATH: "" });
+    await fs.remove(STATE.PATH);
+    await fs.remove(STATE.JOURNAL_PATH);
+    await fs.remove(NET.CACHE_DIR);
+  });
+
+  afterAll(async () => {
+    await fs.remove(path.dirname(STATE.PATH));
+  });
+
+  it("retries a failed delivery on the next run although the index is unchanged", async () => {
+    getFileMock.mockResolvedValue(Buffer.from("class Alpha {}"));
+    sendPluginWebhookMock.mockRejectedValueOnce(new Error("webhook down")).mockResolvedValue({});
+
+    const marker = path.join(NET.CACHE_DIR, "notify-run.json");
+
+    await notifyAction();
+
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(1);
+    expect(await fs.pathExists(marker)).toBe(false);
+
+    await notifyAction();
+
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(2);
+    expect(Object.keys(((await fs.readJson(STATE.PATH)) as { entries: object }).entries)).toEqual([
+      "https://example.com/alpha.cs"
+    ]);
+    expect(await fs.pathExists(marker)).toBe(true);
+  });
+
+  it("does not download unavailable files again while the index is unchanged", async () => {
+    const dead: IndexedPlugin = { plugin_name: "Dead", file: { raw_url: "https://example.com/dead.cs", path: "dead.cs" } };
+    serveIndex([alpha, dead]);
+    getFileMock.mockImplementation(async (url: string) => {
+      if (url.includes("dead")) {
+        throw new Error("Request failed with status code 404");
+      }
+      return Buffer.from("class Alpha {}");
+    });
+    sendPluginWebhookMock.mockResolvedValue({});
+
+    await notifyAction();
+
+    expect(getFileMock).toHaveBeenCalledTimes(2);
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(1);
+    expect(await fs.pathExists(path.join(NET.CACHE_DIR, "notify-run.json"))).toBe(true);
+
+    await notifyAction();
+
+    expect(getFileMock).toHaveBeenCalledTimes(2);
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("groups forks only among plugins accepted by the filters", async () => {
+    const filtersPath = path.join(path.dirname(STATE.PATH), "filters.json");
+    await fs.writeJson(filtersPath, {
+      default: "include",
+      rules: [{ name: "upstream", action: "exclude", match: { repositories: ["upstream/*"] } }]
+    });
+    Object.assign(FILTERS, { CONFIG_PATH: filtersPath });
+    Object.assign(IDENTITY, { DEDUPE: true });
+    const upstream: IndexedPlugin = {
+      plugin_name: "Beta",
+      plugin_author: "Someone",
+      file: { raw_url: "https://example.com/upstream/beta.cs", path: "beta.cs" },
+      repository: { full_name: "upstream/beta", stargazers_count: 50 }
+    };
+    const fork: IndexedPlugin = {
+      ...upstream,
+      file: { raw_url: "https://example.com/fork/beta.cs", path: "beta.cs" },
+      repository: { full_name: "fork/beta", stargazers_count: 1 }
+    };
+    serveIndex([upstream, fork]);
+    getFileMock.mockResolvedValue(Buffer.from("class Beta {}"));
+    sendPluginWebhookMock.mockResolvedValue({});
+
+    await notifyAction();
+
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(1);
+    expect(sendPluginWebhookMock.mock.calls[0]?.[0].file.raw_url).toBe("https://example.com/fork/beta.cs");
+  });
+});
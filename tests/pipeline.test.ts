@@ -0,0 +1,122 @@
+// CHANGE: Validate ordering, backpressure and the memory cap of the download pipeline.
+// WHY: Prefetching must never reorder results nor buffer unbounded attachments.
+// QUOTE(TЗ): "into a bounded buffer while webhook delivery stays strictly in index order, with backpressure and a memory cap on buffered attachments."
+// REF: REQ-34
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { orderedPipeline } from "../src/utils/pipeline.js";
+
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve: (value: T) => void = () => undefined;
+  const promise = new Promise<T>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+async function flush(): Promise<void> {
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+describe("orderedPipeline", () => {
+  it("yields results in input order while later tasks finish first", async () => {
+    const tasks = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const pipeline = orderedPipeline([0, 1, 2], async index => tasks[index].promise, { depth: 3, maxBytes: 100 });
+    const results: string[] = [];
+    const consumed = (async () => {
+      for await (const result of pipeline) {
+        results.push(result);
+      }
+    })();
+    tasks[2].resolve("c");
+    tasks[1].resolve("b");
+    await flush();
+    expect(results).toEqual([]);
+    tasks[0].resolve("a");
+    await consumed;
+    expect(results).toEqual(["a", "b", "c"]);
+  });
+
+  it("keeps at most depth tasks outstanding until the consumer catches up", async () => {
+    const started: number[] = [];
+    const pipeline = orderedPipeline(
+      [0, 1, 2, 3, 4],
+      async index => {
+        started.push(index);
+        return index;
+      },
+      { depth: 2, maxBytes: 100 }
+    );
+    expect((await pipeline.next()).value).toBe(0);
+    expect(started).toEqual([0, 1]);
+    expect((await pipeline.next()).value).toBe(1);
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it("stops prefetching while buffered results exceed the memory cap", async () => {
+    const started: number[] = [];
+    const pipeline = orderedPipeline(
+      [0, 1, 2, 3, 4, 5],
+      async index => {
+        started.push(index);
+        return Buffer.alloc(60);
+      },
+      { depth: 4, maxBytes: 100 },
+      buffer => buffer.byteLength
+    );
+    await pipeline.next();
+    await flush();
+    expect(started).toEqual([0, 1, 2, 3]);
+    await pipeline.next();
+    await pipeline.next();
+    await flush();
+    expect(started).toEqual([0, 1, 2, 3]);
+    await pipeline.next();
+    expect(started).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("counts the expected size of in-flight tasks against the memory cap", async () => {
+    const tasks = [deferred<Buffer>(), deferred<Buffer>(), deferred<Buffer>()];
+    const started: number[] = [];
+    const pipeline = orderedPipeline(
+      [0, 1, 2],
+      async index => {
+        started.push(index);
+        return tasks[index].promise;
+      },
+      { depth: 4, maxBytes: 100 },
+      buffer => buffer.byteLength,
+      () => 60
+    );
+    const first = pipeline.next();
+    await flush();
+    expect(started).toEqual([0]);
+    tasks[0].resolve(Buffer.alloc(60));
+    await first;
+    const second = pipeline.next();
+    await flush();
+    expect(started).toEqual([0, 1]);
+    tasks[1].resolve(Buffer.alloc(60));
+    await second;
+    const third = pipeline.next();
+    expect(started).toEqual([0, 1, 2]);
+    tasks[2].resolve(Buffer.alloc(60));
+    expect((await third).done).toBe(false);
+  });
+
+  it("rethrows a failed task when its turn comes", async () => {
+    const pipeline = orderedPipeline(
+      [0, 1],
+      async index => {
+        if (index === 1) {
+          throw new Error("download failed");
+        }
+        return index;
+      },
+      { depth: 2, maxBytes: 100 }
+    );
+    expect((await pipeline.next()).value).toBe(0);
+    await expect(pipeline.next()).rejects.toThrow("download failed");
+  });
+});
@@ -0,0 +1,94 @@
+// CHANGE: Validate retraction of announcements for deleted or vanished plugins.
+// WHY: Cached entries must be cross-referenced, retracted and marked in the state.
+// QUOTE(TЗ): "We want a `plugins prune` command that cross-references cached entries against the deleted list (and against plugins that disappeared from both indices)"
+// REF: REQ-16
+// SOURCE: user request
+
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/config.js", () => ({
+  DISCORD: { WEBHOOK_URL: "https://discord.example/webhook", MAX_ATTACHMENT_BYTES: 1024 },
+  FLAGS: { ONLY_CS_ATTACHMENTS: true },
+  NOTIFIERS: { SINKS: ["discord"] },
+  NET: { TIMEOUT: 1000, CONCURRENCY: 2 },
+  STATE: { PATH: "plugins-state.json", VERSION: 1 }
+}));
+
+import { findRetractions, processPrune } from "../src/prune.js";
+import { CachedEntry, IndexedPlugin } from "../src/types.js";
+
+const gone: CachedEntry = {
+  key: "https://raw.githubusercontent.com/owner/gone/main/gone.cs",
+  receipts: { discord: { messageId: "m1" } },
+  notifiedAt: "2024-01-01T00:00:00Z"
+};
+const vanished: CachedEntry = {
+  key: "https://raw.githubusercontent.com/owner/vanished/main/vanished.cs",
+  pluginName: "Vanished",
+  notifiedAt: "2024-01-01T00:00:00Z"
+};
+const kept: CachedEntry = {
+  key: "https://raw.githubusercontent.com/owner/kept/main/kept.cs",
+  notifiedAt: "2024-01-01T00:00:00Z"
+};
+const indexed: IndexedPlugin[] = [
+  { file: { raw_url: gone.key } },
+  { file: { raw_url: kept.key } }
+];
+
+function createState() {
+  return {
+    set: vi.fn(),
+    save: vi.fn().mockResolvedValue(undefined)
+  } satisfies Pick<import("../src/cache.js").StateCache, "set" | "save">;
+}
+
+describe("findRetractions", () => {
+  it("selects deleted repositories and vanished keys, skipping retracted entries", () => {
+    const retracted: CachedEntry = { ...vanished, key: "https://example.com/old.cs", retractedAt: "2024-02-01T00:00:00Z" };
+    const candidates = findRetractions([gone, vanished, kept, retracted], indexed, { repositories: ["Owner/Gone"] });
+    expect(candidates).toEqual([
+      { entry: gone, reason: "deleted-repository" },
+      { entry: vanished, reason: "missing-from-index" }
+    ]);
+  });
+});
+
+describe("processPrune", () => {
+  it("posts removal notices and marks entries retracted", async () => {
+    const notifier = { name: "discord", notify: vi.fn().mockResolvedValue(undefined) };
+    const state = createState();
+
+    await processPrune([{ entry: vanished, reason: "missing-from-index" }], state, [notifier], "notice");
+
+    expect(notifier.notify.mock.calls[0]?.[0]).toMatchObject({ plugin_name: "Vanished" });
+    expect(notifier.notify.mock.calls[0]?.[2]).toMatchObject({ reason: "removed" });
+    expect(state.set).toHaveBeenCalledWith(
+      expect.objectContaining({ key: vanished.key, retractionReason: "missing-from-index", retractedAt: expect.any(String) })
+    );
+  });
+
+  it("deletes original messages in delete mode without posting notices", async () => {
+    const notifier = {
+      name: "discord",
+      notify: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined)
+    };
+    const state = createState();
+
+    await processPrune([{ entry: gone, reason: "deleted-repository" }], state, [notifier], "delete");
+
+    expect(notifier.remove).toHaveBeenCalledWith({ messageId: "m1" });
+    expect(notifier.notify).not.toHaveBeenCalled();
+    expect(state.set).toHaveBeenCalledWith(expect.objectContaining({ receipts: undefined, retractionReason: "deleted-repository" }));
+  });
+
+  it("keeps entry unretracted when the notice fails", async () => {
+    const notifier = { name: "discord", notify: vi.fn().mockRejectedValue(new Error("down")) };
+    const state = createState();
+
+    await processPrune([{ entry: vanished, reason: "missing-from-index" }], state, [notifier], "notice");
+
+    expect(state.set).not.toHaveBeenCalled();
+  });
+});
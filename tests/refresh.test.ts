@@ -0,0 +1,125 @@
+// CHANGE: Validate editing of delivered messages and deletion for deleted repositories.
+// WHY: Announcements must follow metadata changes and disappear with their repositories.
+// QUOTE(TЗ): "add a mode that PATCHes `/webhooks/{id}/{token}/messages/{message_id}` with a refreshed embed and attachment, plus a command to delete messages for plugins whose repositories appear in `deleted_repositories.json`."
+// REF: REQ-15
+// SOURCE: user request
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/config.js", () => ({
+  DISCORD: { WEBHOOK_URL: "https://discord.example/webhook", MAX_ATTACHMENT_BYTES: 1024 },
+  FLAGS: { ONLY_CS_ATTACHMENTS: true },
+  NOTIFIERS: { SINKS: ["discord"] },
+  SOURCES: {
+    OXIDE: "",
+    CRAWLED: "",
+    DELETED: ""
+  },
+  STATE: { PATH: "plugins-state.json", VERSION: 1 },
+  NET: { TIMEOUT: 1000, CONCURRENCY: 2 },
+  CONTENT: { DIR: "" }
+}));
+
+const getFileMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../src/api.js", () => ({
+  fetchIndex: vi.fn(),
+  fetchDeleted: vi.fn(),
+  filterDeleted: (items: unknown) => items,
+  headMeta: vi.fn(),
+  getFile: getFileMock
+}));
+
+import { deleteMessagesForDeleted, processRefreshSequentially } from "../src/cli.js";
+import { CachedEntry, IndexedPlugin } from "../src/types.js";
+import { pluginFingerprint } from "../src/utils/plugin-fingerprint.js";
+
+const plugin: IndexedPlugin = {
+  plugin_name: "Alpha",
+  plugin_version: "1.1.0",
+  file: { raw_url: "https://raw.githubusercontent.com/owner/alpha/main/alpha.cs", path: "alpha.cs" },
+  repository: { full_name: "owner/alpha", stargazers_count: 10 }
+};
+
+function createState(entries: CachedEntry[]) {
+  return {
+    entries: vi.fn().mockReturnValue(entries),
+    set: vi.fn(),
+    save: vi.fn().mockResolvedValue(undefined)
+  } satisfies Pick<import("../src/cache.js").StateCache, "entries" | "set" | "save">;
+}
+
+function createNotifier() {
+  return {
+    name: "discord",
+    notify: vi.fn(),
+    edit: vi.fn().mockResolvedValue(undefined),
+    remove: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+describe("processRefreshSequentially", () => {
+  afterEach(() => {
+    getFileMock.mockReset();
+  });
+
+  it("edits updated announcements with the context they were announced with", async () => {
+    getFileMock.mockResolvedValue(Buffer.from("class Alpha {}"));
+    const key = plugin.file.raw_url ?? "";
+    const announcement = { reason: "updated", previousVersion: "1.0.0", versionChange: "minor" } as const;
+    const state = createState([
+      { key, receipts: { discord: { messageId: "m1" } }, metadataHash: "old", announcement, notifiedAt: "2024-01-01T00:00:00Z" }
+    ]);
+    const notifier = createNotifier();
+
+    await processRefreshSequentially([plugin], state, [notifier]);
+
+    expect(notifier.edit.mock.calls[0]?.[3]).toEqual(announcement);
+    expect(state.set).toHaveBeenCalledWith(expect.objectContaining({ announcement }));
+  });
+
+  it("edits messages only when metadata fingerprint changed", async () => {
+    getFileMock.mockResolvedValue(Buffer.from("class Alpha {}"));
+    const key = plugin.file.raw_url ?? "";
+    const receipts = { discord: { messageId: "m1" } };
+    const stale = createState([
+      { key, receipts, metadataHash: "old", pluginName: "OldAlpha", notifiedAt: "2024-01-01T00:00:00Z" }
+    ]);
+    const fresh = createState([{ key, receipts, metadataHash: pluginFingerprint(plugin), notifiedAt: "2024-01-01T00:00:00Z" }]);
+    const notifier = createNotifier();
+
+    await processRefreshSequentially([plugin], stale, [notifier]);
+    await processRefreshSequentially([plugin], fresh, [notifier]);
+
+    expect(notifier.edit).toHaveBeenCalledTimes(1);
+    expect(notifier.edit.mock.calls[0]?.[2]).toEqual({ messageId: "m1" });
+    expect(stale.set).toHaveBeenCalledWith(
+      expect.objectContaining({ metadataHash: pluginFingerprint(plugin), pluginName: "Alpha" })
+    );
+    expect(fresh.set).not.toHaveBeenCalled();
+  });
+});
+
+describe("deleteMessagesForDeleted", () => {
+  it("removes messages of entries whose repository is deleted, including legacy keys", async () => {
+    const state = createState([
+      {
+        key: "https://raw.githubusercontent.com/Owner/Gone/main/gone.cs",
+        receipts: { discord: { messageId: "m1" } },
+        notifiedAt: "2024-01-01T00:00:00Z"
+      },
+      {
+        key: "https://raw.githubusercontent.com/owner/kept/main/kept.cs",
+        receipts: { discord: { messageId: "m2" } },
+        notifiedAt: "2024-01-01T00:00:00Z"
+      }
+    ]);
+    const notifier = createNotifier();
+
+    await deleteMessagesForDeleted({ repositories: ["owner/gone"] }, state, [notifier]);
+
+    expect(notifier.remove).toHaveBeenCalledTimes(1);
+    expect(notifier.remove).toHaveBeenCalledWith({ messageId: "m1" });
+    expect(state.set).toHaveBeenCalledWith(expect.objectContaining({ receipts: undefined }));
+  });
+});
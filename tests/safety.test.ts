@@ -0,0 +1,71 @@
+// CHANGE: Validate the plugin source safety scan and blocking policy.
+// WHY: Risky attachments must be flagged in embeds, recorded in state and optionally withheld.
+// QUOTE(TЗ): "Results should appear as a warning field in the embed and be stored in the state, with a configurable policy to block announcements above a risk threshold."
+// REF: REQ-28
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { exceedsRiskThreshold, scanCSharpSource, scanPlugin } from "../src/analysis/safety.js";
+import { buildEmbed } from "../src/webhook.js";
+
+const blob = "QUJD".repeat(40);
+
+const source = [
+  "using System.Diagnostics;",
+  "// Process.Start(\"calc.exe\"); commented out",
+  "namespace Oxide.Plugins {",
+  "  class Risky : RustPlugin {",
+  "    void Init() {",
+  "      System.Diagnostics.Process.Start(\"cmd.exe\");",
+  "      var client = new WebClient();",
+  "      File.WriteAllText(\"/etc/passwd\", \"x\");",
+  "      File.WriteAllText(Interface.Oxide.DataDirectory + \"/risky.json\", \"{}\");",
+  "      var method = typeof(BasePlayer).GetMethod(\"Kill\", BindingFlags.NonPublic);",
+  `      var payload = "${blob}";`,
+  "      Assembly.Load(Convert.FromBase64String(payload));",
+  "    }",
+  "  }",
+  "}"
+].join("\n");
+
+describe("scanCSharpSource", () => {
+  it("reports each risky pattern with its lines and weighted score", () => {
+    expect(scanCSharpSource(source)).toEqual({
+      score: 21,
+      findings: [
+        { rule: "process", weight: 5, lines: [6] },
+        { rule: "assembly-load", weight: 5, lines: [12] },
+        { rule: "network", weight: 3, lines: [7] },
+        { rule: "reflection", weight: 3, lines: [10] },
+        { rule: "base64-blob", weight: 3, lines: [11] },
+        { rule: "file-io", weight: 2, lines: [8] }
+      ]
+    });
+  });
+
+  it("returns an empty report for plugins using Oxide APIs only", () => {
+    const clean = 'void OnServerInitialized() { Interface.Oxide.DataFileSystem.WriteObject("kits", data); webrequest.Enqueue(url, null, Callback, this); }';
+    expect(scanCSharpSource(clean)).toEqual({ score: 0, findings: [] });
+  });
+});
+
+describe("safety policy", () => {
+  it("blocks only when a positive threshold is reached", () => {
+    const report = scanCSharpSource(source);
+    expect(exceedsRiskThreshold(report, 0)).toBe(false);
+    expect(exceedsRiskThreshold(report, 21)).toBe(true);
+    expect(exceedsRiskThreshold(report, 22)).toBe(false);
+    expect(exceedsRiskThreshold(undefined, 1)).toBe(false);
+  });
+
+  it("adds a warning field to the embed of scanned C# plugins", () => {
+    const plugin = scanPlugin({ plugin_name: "Risky", file: { path: "Risky.cs" } }, Buffer.from(source));
+    const warning = buildEmbed(plugin).fields.find(field => field.name.startsWith("⚠️"));
+    expect(warning).toEqual({
+      name: "⚠️ Safety warnings (risk 21)",
+      value: "`process` L6\n`assembly-load` L12\n`network` L7\n`reflection` L10\n`base64-blob` L11\n`file-io` L8",
+      inline: false
+    });
+    expect(scanPlugin({ file: { path: "README.md" } }, Buffer.from(source)).safety).toBeUndefined();
+  });
+});
@@ -9,13 +9,16 @@ import { afterEach, describe, expect, it, vi } from "vitest";
 vi.mock("../src/config.js", () => ({
   DISCORD: { WEBHOOK_URL: "https://discord.example/webhook", MAX_ATTACHMENT_BYTES: 1024 },
   FLAGS: { ONLY_CS_ATTACHMENTS: true },
+  NOTIFIERS: { SINKS: ["discord"] },
   SOURCES: {
     OXIDE: "",
     CRAWLED: "",
     DELETED: ""
   },
   STATE: { PATH: "plugins-state.json", VERSION: 1 },
-  NET: { TIMEOUT: 1000, CONCURRENCY: 2 }
+  NET: { TIMEOUT: 1000, CONCURRENCY: 2, PIPELINE_DEPTH: 4, PIPELINE_MAX_BYTES: 1024 },
+  SAFETY: { BLOCK_SCORE: 5 },
+  CONTENT: { DIR: "" }
 }));
 
 const getFileMock = vi.hoisted(() => vi.fn());
@@ -80,6 +83,45 @@ describe("processAllPluginsSequentially", () => {
     expect(state.save).toHaveBeenCalledTimes(2);
   });
 
+  it("withholds plugins whose source reaches the risk threshold and records every scan", async () => {
+    getFileMock.mockImplementation(async (url: string) =>
+      Buffer.from(url.includes("risky") ? 'Process.Start("cmd.exe");' : "var client = new WebClient();")
+    );
+
+    const plugins: IndexedPlugin[] = [
+      { plugin_name: "Risky", file: { raw_url: "https://example.com/risky.cs", path: "risky.cs", sha: "abc" } },
+      { plugin_name: "Fetcher", file: { raw_url: "https://example.com/fetcher.cs", path: "fetcher.cs" } }
+    ];
+
+    const state = {
+      entries: vi.fn().mockReturnValue([]),
+      set: vi.fn(),
+      save: vi.fn().mockResolvedValue(undefined)
+    } satisfies Pick<import("../src/cache.js").StateCache, "entries" | "set" | "save">;
+
+    await processAllPluginsSequentially(plugins, state);
+
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(1);
+    expect(sendPluginWebhookMock.mock.calls[0]?.[0].plugin_name).toBe("Fetcher");
+    expect(state.set).toHaveBeenCalledTimes(2);
+    const blocked = state.set.mock.calls[0]?.[0];
+    expect(blocked).toMatchObject({
+      key: "https://example.com/risky.cs",
+      destinations: [],
+      fileSha: "abc",
+      riskFindings: ["process"],
+      blockedAt: expect.any(String)
+    });
+    expect(state.set.mock.calls[1]?.[0]).toMatchObject({ riskScore: 3, riskFindings: ["network"] });
+
+    getFileMock.mockClear();
+    state.entries.mockReturnValue([blocked, state.set.mock.calls[1]?.[0]]);
+    await processAllPluginsSequentially(plugins, state);
+
+    expect(getFileMock).not.toHaveBeenCalled();
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(1);
+  });
+
   it("skips plugins already tracked in cache", async () => {
     getFileMock.mockResolvedValue(Buffer.from("class Plugin {}"));
 
@@ -143,4 +185,103 @@ describe("processAllPluginsSequentially", () => {
     expect(sendPluginWebhookMock).toHaveBeenCalledTimes(2);
     expect(state.set).toHaveBeenCalledTimes(1);
   });
+
+  // CHANGE: Verify downloads run ahead of delivery while announcements keep index order.
+  // WHY: Prefetching must not reorder webhook messages.
+  // QUOTE(TЗ): "while webhook delivery stays strictly in index order"
+  // REF: REQ-34
+  // SOURCE: user request
+  it("prefetches downloads and announces plugins in index order", async () => {
+    const releases = new Map<string, () => void>();
+    getFileMock.mockImplementation(
+      (url: string) =>
+        new Promise<Buffer>(resolve => {
+          releases.set(url, () => resolve(Buffer.from("class Plugin {}")));
+        })
+    );
+    const plugins: IndexedPlugin[] = ["alpha", "beta", "gamma"].map(name => ({
+      plugin_name: name,
+      file: { raw_url: `https://example.com/${name}.cs`, path: `${name}.cs` }
+    }));
+    const state = {
+      entries: vi.fn().mockReturnValue([]),
+      set: vi.fn(),
+      save: vi.fn().mockResolvedValue(undefined)
+    } satisfies Pick<import("../src/cache.js").StateCache, "entries" | "set" | "save">;
+
+    const run = processAllPluginsSequentially(plugins, state);
+    await vi.waitFor(() => expect(getFileMock).toHaveBeenCalledTimes(3));
+    releases.get("https://example.com/gamma.cs")?.();
+    releases.get("https://example.com/beta.cs")?.();
+    releases.get("https://example.com/alpha.cs")?.();
+    await run;
+
+    expect(sendPluginWebhookMock.mock.calls.map(call => call[0].plugin_name)).toEqual(["alpha", "beta", "gamma"]);
+  });
+
+  // CHANGE: Verify a shutdown request lets the current delivery finish and stops before the next one.
+  // WHY: A signal mid-webhook must not lose the delivered plugin nor start another one.
+  // QUOTE(TЗ): "signal handling that finishes or aborts the current item cleanly, flushes `StateCache`"
+  // REF: REQ-35
+  // SOURCE: user request
+  it("stops before the next plugin once a shutdown is requested", async () => {
+    getFileMock.mockResolvedValue(Buffer.from("class Plugin {}"));
+    const plugins: IndexedPlugin[] = ["alpha", "beta"].map(name => ({
+      plugin_name: name,
+      file: { raw_url: `https://example.com/${name}.cs`, path: `${name}.cs` }
+    }));
+    const shutdown = { requested: false };
+    const journal = { begin: vi.fn().mockResolvedValue(undefined), record: vi.fn().mockResolvedValue(undefined) };
+    sendPluginWebhookMock.mockImplementation(async () => {
+      shutdown.requested = true;
+      return {};
+    });
+    const state = {
+      entries: vi.fn().mockReturnValue([]),
+      set: vi.fn(),
+      save: vi.fn().mockResolvedValue(undefined)
+    } satisfies Pick<import("../src/cache.js").StateCache, "entries" | "set" | "save">;
+
+    await processAllPluginsSequentially(plugins, state, undefined, {
+      journal: journal as unknown as import("../src/journal.js").RunJournal,
+      shutdown
+    });
+
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(1);
+    expect(state.set).toHaveBeenCalledTimes(1);
+    expect(state.save).toHaveBeenCalledTimes(2);
+    expect(journal.begin).toHaveBeenCalledWith("https://example.com/alpha.cs");
+    expect(journal.record).toHaveBeenCalledWith("https://example.com/alpha.cs", "delivered");
+  });
+
+  // CHANGE: Verify that a new destination is backfilled without re-posting elsewhere.
+  // WHY: Delivery is tracked per destination in the state cache.
+  // QUOTE(TЗ): "adding a new channel backfills only that channel without re-spamming the existing ones."
+  // REF: REQ-13
+  // SOURCE: user request
+  it("backfills only destinations missing from cached entry", async () => {
+    getFileMock.mockResolvedValue(Buffer.from("class Plugin {}"));
+    const plugins: IndexedPlugin[] = [
+      {
+        plugin_name: "Alpha",
+        file: { raw_url: "https://example.com/alpha.cs", path: "alpha.cs" },
+        repository: { full_name: "owner/alpha" }
+      }
+    ];
+    const discord = { name: "discord", notify: vi.fn().mockResolvedValue(undefined) };
+    const slack = { name: "slack", notify: vi.fn().mockResolvedValue(undefined) };
+    const state = {
+      entries: vi.fn().mockReturnValue([
+        { key: "https://example.com/alpha.cs", destinations: ["discord"], notifiedAt: "2024-01-01T00:00:00Z" }
+      ]),
+      set: vi.fn(),
+      save: vi.fn().mockResolvedValue(undefined)
+    } satisfies Pick<import("../src/cache.js").StateCache, "entries" | "set" | "save">;
+
+    await processAllPluginsSequentially(plugins, state, [discord, slack]);
+
+    expect(discord.notify).not.toHaveBeenCalled();
+    expect(slack.notify).toHaveBeenCalledTimes(1);
+    expect(state.set).toHaveBeenCalledWith(expect.objectContaining({ destinations: ["discord", "slack"] }));
+  });
 });
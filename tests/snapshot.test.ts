@@ -0,0 +1,62 @@
+// CHANGE: Validate snapshot creation and offline reads.
+// WHY: Offline runs must see exactly the inputs captured by the snapshot.
+// QUOTE(TЗ): "a `plugins snapshot` command that downloads the current indices and plugin files into a versioned directory, so notify/dry-run can run entirely against the snapshot."
+// REF: REQ-22
+// SOURCE: user request
+
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchIndex, getFile, setOfflineDirectory } from "../src/api.js";
+import { createSnapshot, loadSnapshotSources, resolveSnapshotDirectory } from "../src/snapshot.js";
+import * as http from "../src/utils/http.js";
+
+const rawUrl = "https://raw.githubusercontent.com/owner/repo/main/Alpha.cs";
+
+describe("snapshots", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-snapshot-"));
+    await fs.writeJson(path.join(dir, "index.json"), {
+      items: [
+        { plugin_name: "Alpha", file: { raw_url: rawUrl, path: "Alpha.cs" }, repository: { full_name: "owner/repo" } },
+        { plugin_name: "Readme", file: { raw_url: "https://example.com/readme.md" } }
+      ]
+    });
+    vi.spyOn(http, "getBinary").mockResolvedValue({ data: Buffer.from("class Alpha {}"), headers: {}, status: 200 });
+  });
+
+  afterEach(async () => {
+    setOfflineDirectory();
+    vi.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  it("captures indices and plugin files and serves them offline", async () => {
+    const location = path.join(dir, "index.json");
+    const root = path.join(dir, "snapshots");
+    const { directory, manifest } = await createSnapshot(root, {
+      indices: [{ name: "local", location, priority: 0 }],
+      deleted: null
+    });
+
+    expect(manifest).toMatchObject({ indices: [{ name: "local", count: 2 }], deleted: null, files: 1, missing: [] });
+    expect(resolveSnapshotDirectory(root)).toBe(directory);
+    expect(loadSnapshotSources(directory).indices.map(source => source.location)).toEqual([location]);
+
+    await fs.remove(location);
+    vi.mocked(http.getBinary).mockClear();
+    setOfflineDirectory(directory);
+
+    expect((await fetchIndex(location)).items).toHaveLength(2);
+    expect((await getFile(rawUrl)).toString()).toBe("class Alpha {}");
+    await expect(getFile("https://example.com/other.cs")).rejects.toThrow(/has no copy/);
+    expect(http.getBinary).not.toHaveBeenCalled();
+  });
+
+  it("rejects directories without a snapshot", () => {
+    expect(() => resolveSnapshotDirectory(dir)).toThrow(/No snapshot found/);
+  });
+});
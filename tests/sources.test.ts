@@ -0,0 +1,46 @@
+// CHANGE: Validate sources config parsing and priority ordering.
+// WHY: Misconfigured sources must fail loudly and merge in a predictable order.
+// QUOTE(TЗ): "We want a sources config listing any number of indices (remote URLs or local file paths), each with a priority for `mergeIndices`, so we can add our own curated index or test against a local mirror."
+// REF: REQ-21
+// SOURCE: user request
+
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SOURCES, loadSourcesConfig, parseSourcesConfig } from "../src/sources.js";
+
+describe("sources config", () => {
+  it("sorts indices by priority and resolves local paths against the config directory", () => {
+    const config = parseSourcesConfig(
+      {
+        indices: [
+          { name: "curated", location: "./curated.json", priority: 20 },
+          { name: "oxide", location: "https://example.com/oxide.json", priority: 0 },
+          { name: "mirror", location: "/srv/mirror.json", priority: 0 }
+        ],
+        deleted: null
+      },
+      "sources.json",
+      "/etc/plugins"
+    );
+
+    expect(config.indices.map(source => source.name)).toEqual(["oxide", "mirror", "curated"]);
+    expect(config.indices[2].location).toBe(path.resolve("/etc/plugins", "curated.json"));
+    expect(config.indices[0].location).toBe("https://example.com/oxide.json");
+    expect(config.deleted).toBeNull();
+  });
+
+  it("rejects empty or duplicate indices", () => {
+    expect(() => parseSourcesConfig({ indices: [] }, "sources.json")).toThrow(/non-empty "indices"/);
+    expect(() =>
+      parseSourcesConfig(
+        { indices: [{ name: "a", location: "a.json" }, { name: "a", location: "b.json" }] },
+        "sources.json"
+      )
+    ).toThrow(/duplicate index "a"/);
+  });
+
+  it("falls back to the upstream oxide and crawled indices", () => {
+    expect(loadSourcesConfig("")).toBe(DEFAULT_SOURCES);
+    expect(DEFAULT_SOURCES.indices.map(source => source.name)).toEqual(["oxide", "crawled"]);
+  });
+});
@@ -0,0 +1,48 @@
+// CHANGE: Validate state lookups, date filtering and grouping.
+// WHY: Diagnosing missed posts relies on these queries returning the right entries.
+// QUOTE(TЗ): "look up a plugin by key or raw URL, list entries notified in a date range, group counts by repository/author/day, find entries missing content hashes, and output as table or JSON."
+// REF: REQ-20
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { filterStateEntries, findStateEntry, groupStateEntries, parseQueryDate } from "../src/state/query.js";
+import { CachedEntry } from "../src/types.js";
+
+const entries: CachedEntry[] = [
+  {
+    key: "https://raw.githubusercontent.com/owner/repo/main/My%20Plugin.cs",
+    notifiedAt: "2024-01-03T10:00:00Z",
+    repository: "owner/repo",
+    pluginAuthor: "alice",
+    contentHash: "abc"
+  },
+  { key: "owner/repo::b.cs", notifiedAt: "2024-01-01T10:00:00Z", repository: "owner/repo", pluginAuthor: "bob" },
+  { key: "other/repo::c.cs", notifiedAt: "2024-01-03T12:00:00Z", repository: "other/repo", pluginAuthor: "alice" }
+];
+
+describe("state query", () => {
+  it("finds entries by exact key or decoded raw URL", () => {
+    expect(findStateEntry(entries, "owner/repo::b.cs")?.pluginAuthor).toBe("bob");
+    expect(findStateEntry(entries, "https://raw.githubusercontent.com/owner/repo/main/my plugin.cs")?.pluginAuthor).toBe("alice");
+    expect(findStateEntry(entries, "missing")).toBeUndefined();
+  });
+
+  it("filters by inclusive date range and missing hashes in notification order", () => {
+    const ranged = filterStateEntries(entries, { since: parseQueryDate("2024-01-01", "--since"), until: parseQueryDate("2024-01-03T11:00:00Z", "--until") });
+    expect(ranged.map(entry => entry.key)).toEqual(["owner/repo::b.cs", entries[0].key]);
+    expect(filterStateEntries(entries, { missingHashes: true }).map(entry => entry.key)).toEqual(["owner/repo::b.cs", "other/repo::c.cs"]);
+    expect(() => parseQueryDate("yesterday", "--since")).toThrow(/Invalid --since date/);
+  });
+
+  it("groups counts by repository, author and day", () => {
+    expect(groupStateEntries(entries, "repository")).toEqual([
+      { group: "owner/repo", count: 2 },
+      { group: "other/repo", count: 1 }
+    ]);
+    expect(groupStateEntries(entries, "author")[0]).toEqual({ group: "alice", count: 2 });
+    expect(groupStateEntries(entries, "day")).toEqual([
+      { group: "2024-01-01", count: 1 },
+      { group: "2024-01-03", count: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+// CHANGE: Validate state export formats and merge semantics.
+// WHY: Consolidated state must keep every delivery so no plugin is announced twice.
+// QUOTE(TЗ): "Please add `plugins state export`/`import`/`merge` subcommands that serialise the `StateFile` entries (JSON and CSV), merge two states by key preferring the latest `notifiedAt`, and report conflicts"
+// REF: REQ-19
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { mergeStates, parseState, resolveStateFormat, serializeState } from "../src/state/transfer.js";
+import { CachedEntry } from "../src/types.js";
+
+const entry: CachedEntry = {
+  key: "https://raw.githubusercontent.com/owner/repo/main/a.cs",
+  notifiedAt: "2024-01-01T00:00:00.000Z",
+  fileSha: "sha-1",
+  fileSize: 120,
+  pluginName: "Alpha, \"quoted\"",
+  destinations: ["discord"],
+  receipts: { discord: { messageId: "1" } },
+  repository: "owner/repo",
+  aliases: ["https://raw.githubusercontent.com/fork/repo/main/a.cs"],
+  riskScore: 5,
+  riskFindings: ["network", "file-io"]
+};
+
+describe("state transfer", () => {
+  it("round-trips entries through JSON and CSV", () => {
+    expect(parseState(serializeState([entry], "json"), "json")).toEqual([entry]);
+    expect(parseState(serializeState([entry], "csv"), "csv")).toEqual([entry]);
+  });
+
+  it("migrates older JSON state files on parse", () => {
+    const legacy = JSON.stringify({ entries: { [entry.key]: { key: entry.key, notifiedAt: entry.notifiedAt } }, version: 1, updatedAt: "" });
+    expect(parseState(legacy, "json")[0]).toMatchObject({ destinations: ["discord"], repository: "owner/repo" });
+  });
+
+  it("infers the format from the extension and rejects unknown ones", () => {
+    expect(resolveStateFormat("state.CSV")).toBe("csv");
+    expect(resolveStateFormat("state.json")).toBe("json");
+    expect(() => resolveStateFormat("state.json", "xml")).toThrow(/Unsupported state format/);
+  });
+
+  it("prefers the latest notifiedAt, unites destinations and reports conflicts", () => {
+    const newer: CachedEntry = {
+      ...entry,
+      notifiedAt: "2024-02-01T00:00:00.000Z",
+      fileSha: "sha-2",
+      destinations: ["slack"],
+      receipts: { slack: {} }
+    };
+    const other: CachedEntry = { key: "b", notifiedAt: "2024-01-01T00:00:00.000Z" };
+    const { entries, conflicts } = mergeStates([entry], [newer, other]);
+
+    expect(entries.map(item => item.key)).toEqual([entry.key, "b"]);
+    expect(entries[0]).toMatchObject({
+      fileSha: "sha-2",
+      destinations: ["discord", "slack"],
+      receipts: { discord: { messageId: "1" }, slack: {} }
+    });
+    expect(conflicts).toEqual([{ key: entry.key, kept: "right", fields: ["fileSha"] }]);
+  });
+});
@@ -0,0 +1,56 @@
+// CHANGE: Validate problem collection and strict/lenient handling of index items.
+// WHY: A bad upstream item must be reported precisely and skipped unless strict mode is requested.
+// QUOTE(TЗ): "We want a validation mode that collects all problems per item (path, field, expected type), skips only invalid items in lenient mode, fails in strict mode"
+// REF: REQ-25
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { toPluginIndex } from "../src/api.js";
+import { JsonValue } from "../src/types.js";
+import { formatProblem, validatePluginIndex } from "../src/validation.js";
+
+const document = {
+  items: [
+    {
+      plugin_name: "Good",
+      plugin_author: null,
+      file: { raw_url: "https://example.com/good.cs" },
+      repository: { full_name: "owner/good" }
+    },
+    {
+      plugin_name: 42,
+      categories: ["Admin", 7],
+      file: { raw_url: "https://example.com/typed.cs", size: "12" },
+      repository: { stargazers_count: "many" }
+    },
+    { plugin_name: "NoFile" },
+    "garbage"
+  ]
+} satisfies JsonValue;
+
+describe("validatePluginIndex", () => {
+  it("collects every problem and rejects only structurally invalid items", () => {
+    const { index, problems, rejected } = validatePluginIndex(document, "index.json");
+
+    expect(index.items.map(item => item.file.raw_url)).toEqual(["https://example.com/good.cs", "https://example.com/typed.cs"]);
+    expect(index.items[1]).toMatchObject({ plugin_name: undefined, categories: ["Admin"], file: { size: undefined } });
+    expect(rejected).toBe(2);
+    expect(problems.map(({ path, field, expected, actual, rejected: dropped }) => [path, field, expected, actual, dropped])).toEqual([
+      ["items[1]", "plugin_name", "string", "number", false],
+      ["items[1].categories", "1", "string", "number", false],
+      ["items[1].file", "size", "number", "string", false],
+      ["items[1].repository", "stargazers_count", "number", "string", false],
+      ["items[2]", "file", "object", "undefined", true],
+      ["items", "3", "object", "string", true]
+    ]);
+    expect(formatProblem(problems[0])).toBe(
+      "items[1].plugin_name: expected string, got number [https://example.com/typed.cs]"
+    );
+  });
+
+  it("skips invalid items in lenient mode and fails in strict mode", () => {
+    expect(toPluginIndex(document, "index.json", "lenient").items).toHaveLength(2);
+    expect(() => toPluginIndex(document, "index.json", "strict")).toThrow(/failed strict validation with 6 problems/);
+    expect(() => validatePluginIndex({ entries: [] }, "index.json")).toThrow(/Malformed index/);
+  });
+});
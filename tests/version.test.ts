@@ -0,0 +1,44 @@
+// CHANGE: Validate version parsing and classification of version transitions.
+// WHY: Update announcements label releases as major/minor/patch bumps or downgrades.
+// QUOTE(TЗ): "parse versions (semver and the common Oxide `1.2.3`/`1.2.3.4` forms), classify as major/minor/patch/downgrade"
+// REF: REQ-29
+// SOURCE: user request
+
+import { describe, expect, it } from "vitest";
+import { classifyVersionChange, compareVersions, parseVersion } from "../src/utils/version.js";
+
+describe("parseVersion", () => {
+  it("accepts semver and Oxide forms", () => {
+    expect(parseVersion("v1.2.3-beta.1+build.5")).toEqual({ numbers: [1, 2, 3, 0], prerelease: ["beta", "1"] });
+    expect(parseVersion("1.2.3.4")).toEqual({ numbers: [1, 2, 3, 4], prerelease: [] });
+    expect(parseVersion("2.0")).toEqual({ numbers: [2, 0, 0, 0], prerelease: [] });
+    expect(parseVersion("latest")).toBeUndefined();
+    expect(parseVersion(undefined)).toBeUndefined();
+  });
+
+  it("orders prereleases before releases", () => {
+    const compare = (left: string, right: string): number =>
+      Math.sign(compareVersions(parseVersion(left)!, parseVersion(right)!));
+    expect(compare("1.0.0-alpha", "1.0.0")).toBe(-1);
+    expect(compare("1.0.0-alpha.2", "1.0.0-alpha.10")).toBe(-1);
+    expect(compare("1.0.0-beta", "1.0.0-alpha.1")).toBe(1);
+    expect(compare("1.0", "1.0.0.0")).toBe(0);
+  });
+});
+
+describe("classifyVersionChange", () => {
+  it("reports the most significant increased component", () => {
+    expect(classifyVersionChange("1.2.3", "2.0.0")).toBe("major");
+    expect(classifyVersionChange("1.2.3", "1.3.0")).toBe("minor");
+    expect(classifyVersionChange("1.2.3", "1.2.4")).toBe("patch");
+    expect(classifyVersionChange("1.2.3.4", "1.2.3.5")).toBe("build");
+    expect(classifyVersionChange("1.2.3-rc.1", "1.2.3")).toBe("prerelease");
+  });
+
+  it("detects downgrades, unchanged and unparsable versions", () => {
+    expect(classifyVersionChange("1.2.3", "1.2.2")).toBe("downgrade");
+    expect(classifyVersionChange("1.2", "1.2.0")).toBe("unchanged");
+    expect(classifyVersionChange("dev", "dev")).toBe("unchanged");
+    expect(classifyVersionChange(undefined, "1.0.0")).toBe("unknown");
+  });
+});
@@ -0,0 +1,190 @@
+// CHANGE: Validate change-aware announcements driven by computeDelta results.
+// WHY: Confirms updated plugins are re-announced only when content changed and markers are persisted.
+// QUOTE(TЗ): "We need a notify mode that re-announces plugins whose content actually changed, using `computeDelta` plus a sha256 check when `requiresContentHashCheck` is set"
+// REF: REQ-11
+// SOURCE: user request
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/config.js", () => ({
+  DISCORD: { WEBHOOK_URL: "https://discord.example/webhook", MAX_ATTACHMENT_BYTES: 1024 },
+  FLAGS: { ONLY_CS_ATTACHMENTS: true },
+  NOTIFIERS: { SINKS: ["discord"] },
+  SOURCES: {
+    OXIDE: "",
+    CRAWLED: "",
+    DELETED: ""
+  },
+  STATE: { PATH: "plugins-state.json", VERSION: 1 },
+  NET: { TIMEOUT: 1000, CONCURRENCY: 2 },
+  CONTENT: { DIR: "" }
+}));
+
+const getFileMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../src/api.js", () => ({
+  fetchIndex: vi.fn(),
+  fetchDeleted: vi.fn(),
+  filterDeleted: (items: unknown) => items,
+  headMeta: vi.fn(),
+  getFile: getFileMock
+}));
+
+const sendPluginWebhookMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../src/webhook.js", () => ({
+  sendPluginWebhook: sendPluginWebhookMock
+}));
+
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { processDeltaSequentially } from "../src/cli.js";
+import { DiffItem } from "../src/diff.js";
+import { storeContent } from "../src/utils/content-store.js";
+import { sha256 } from "../src/utils/hashing.js";
+import { IndexedPlugin } from "../src/types.js";
+
+const plugin: IndexedPlugin = {
+  plugin_name: "Alpha",
+  plugin_version: "1.1.0",
+  file: { raw_url: "https://example.com/alpha.cs", path: "alpha.cs" },
+  repository: { full_name: "owner/alpha" }
+};
+
+function createState() {
+  return {
+    set: vi.fn(),
+    save: vi.fn().mockResolvedValue(undefined)
+  } satisfies Pick<import("../src/cache.js").StateCache, "set" | "save">;
+}
+
+describe("processDeltaSequentially", () => {
+  afterEach(() => {
+    getFileMock.mockReset();
+    sendPluginWebhookMock.mockReset();
+  });
+
+  it("announces updated plugins with previous version and persists HTTP markers", async () => {
+    getFileMock.mockResolvedValue(Buffer.from("class Alpha {}"));
+    const items: DiffItem[] = [
+      {
+        plugin,
+        reason: "updated",
+        cacheKey: "https://example.com/alpha.cs",
+        metadata: { etag: "etag-2", lastModified: "Tue, 02 Jan 2024 00:00:00 GMT", requiresContentHashCheck: false },
+        previous: { key: "https://example.com/alpha.cs", pluginVersion: "1.0.0", notifiedAt: "2024-01-01T00:00:00Z" }
+      }
+    ];
+    const state = createState();
+
+    await processDeltaSequentially(items, state);
+
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(1);
+    expect(sendPluginWebhookMock.mock.calls[0]?.[2]).toEqual({ reason: "updated", previousVersion: "1.0.0", versionChange: "minor" });
+    expect(state.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        key: "https://example.com/alpha.cs",
+        etag: "etag-2",
+        lastModified: "Tue, 02 Jan 2024 00:00:00 GMT",
+        pluginVersion: "1.1.0"
+      })
+    );
+    expect(state.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("summarises the source diff against the retained previous content", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-content-"));
+    const contentPath = await storeContent(directory, Buffer.from("class Alpha {\n  void Init() { Puts(\"a\"); }\n}\n"));
+    getFileMock.mockResolvedValue(Buffer.from("class Alpha {\n  void Init() { Puts(\"b\"); }\n  void Unload() { }\n}\n"));
+    const items: DiffItem[] = [
+      {
+        plugin: { ...plugin, plugin_version: "1.0.1" },
+        reason: "updated",
+        cacheKey: "https://example.com/alpha.cs",
+        metadata: { requiresContentHashCheck: false },
+        previous: { key: "https://example.com/alpha.cs", pluginVersion: "1.0.0", contentPath, notifiedAt: "2024-01-01T00:00:00Z" }
+      }
+    ];
+    const state = createState();
+
+    await processDeltaSequentially(items, state);
+
+    expect(sendPluginWebhookMock.mock.calls[0]?.[2]).toEqual({
+      reason: "updated",
+      previousVersion: "1.0.0",
+      versionChange: "patch",
+      changes: { added: 2, removed: 1, methods: { added: ["Unload"], removed: [], changed: ["Init"] } }
+    });
+    expect(state.set).toHaveBeenCalledWith(expect.objectContaining({ contentPath }));
+    await fs.remove(directory);
+  });
+
+  it("keeps fields of the previous entry when re-announcing", async () => {
+    getFileMock.mockResolvedValue(Buffer.from("class Alpha {}"));
+    const items: DiffItem[] = [
+      {
+        plugin,
+        reason: "updated",
+        cacheKey: "https://example.com/alpha.cs",
+        metadata: { requiresContentHashCheck: false },
+        previous: {
+          key: "https://example.com/alpha.cs",
+          pluginVersion: "1.0.0",
+          notifiedAt: "2024-01-01T00:00:00Z",
+          aliases: ["https://example.com/fork/alpha.cs"]
+        }
+      }
+    ];
+    const state = createState();
+
+    await processDeltaSequentially(items, state);
+
+    expect(state.set).toHaveBeenCalledWith(
+      expect.objectContaining({ aliases: ["https://example.com/fork/alpha.cs"], pluginVersion: "1.1.0" })
+    );
+  });
+
+  it("skips updates whose content hash matches the cached entry but stores the new HTTP markers", async () => {
+    const buffer = Buffer.from("class Alpha {}");
+    getFileMock.mockResolvedValue(buffer);
+    const previous = { key: "https://example.com/alpha.cs", contentHash: sha256(buffer), etag: "etag-1", notifiedAt: "2024-01-01T00:00:00Z" };
+    const items: DiffItem[] = [
+      {
+        plugin,
+        reason: "updated",
+        cacheKey: "https://example.com/alpha.cs",
+        metadata: { etag: "etag-2", requiresContentHashCheck: true },
+        previous
+      }
+    ];
+    const state = createState();
+
+    await processDeltaSequentially(items, state);
+
+    expect(sendPluginWebhookMock).not.toHaveBeenCalled();
+    expect(state.set).toHaveBeenCalledWith({ ...previous, etag: "etag-2", lastModified: undefined });
+    expect(state.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops before the next plugin once a shutdown is requested", async () => {
+    getFileMock.mockResolvedValue(Buffer.from("class Alpha {}"));
+    const shutdown = { requested: false };
+    sendPluginWebhookMock.mockImplementation(async () => {
+      shutdown.requested = true;
+    });
+    const items: DiffItem[] = ["alpha", "beta"].map(name => ({
+      plugin: { ...plugin, file: { raw_url: `https://example.com/${name}.cs`, path: `${name}.cs` } },
+      reason: "new",
+      cacheKey: `https://example.com/${name}.cs`,
+      metadata: { requiresContentHashCheck: false }
+    }));
+    const state = createState();
+
+    await processDeltaSequentially(items, state, undefined, { shutdown });
+
+    expect(sendPluginWebhookMock).toHaveBeenCalledTimes(1);
+    expect(state.set).toHaveBeenCalledWith(expect.objectContaining({ key: "https://example.com/alpha.cs" }));
+    expect(state.save).toHaveBeenCalledTimes(1);
+  });
+});
@@ -8,13 +8,13 @@ import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 vi.mock("../src/config.js", () => ({
-  DISCORD: { WEBHOOK_URL: "https://discord.example/webhook", MAX_ATTACHMENT_BYTES: 1024 },
+  DISCORD: { WEBHOOK_URL: "https://discord.example/webhook", MAX_ATTACHMENT_BYTES: 1024, FORUM_THREADS: false },
   FLAGS: { ONLY_CS_ATTACHMENTS: true },
   NET: { TIMEOUT: 1000, CONCURRENCY: 2 },
   STATE: { PATH: "plugins-state.json", VERSION: 1 }
 }));
 
-import { sendPluginWebhook } from "../src/webhook.js";
+import { buildEmbed, deletePluginWebhookMessage, editPluginWebhook, sendPluginWebhook } from "../src/webhook.js";
 import { httpClient } from "../src/utils/http.js";
 import { IndexedPlugin } from "../src/types.js";
 
@@ -43,7 +43,7 @@ describe("sendPluginWebhook", () => {
     const calls = vi.mocked(httpClient.post).mock.calls;
     expect(calls).toHaveLength(1);
     const [url, payload] = calls[0] ?? [];
-    expect(url).toBe("https://discord.example/webhook");
+    expect(url).toBe("https://discord.example/webhook?wait=true");
     expect(typeof payload).toBe("object");
   });
 
@@ -82,4 +82,55 @@ describe("sendPluginWebhook", () => {
 
     expect(postSpy).toHaveBeenCalledTimes(2);
   });
+
+  // CHANGE: Verify updated plugins render a distinct embed with version transition.
+  // WHY: Re-announcements must be distinguishable from first-time announcements.
+  // QUOTE(TЗ): "Updated plugins should get a visibly different embed ("Updated" with previous vs current version) from `buildEmbed`."
+  // REF: REQ-11
+  // SOURCE: user request
+  it("renders updated embed with previous and current version", () => {
+    const embed = buildEmbed({ ...plugin, plugin_version: "1.1.0" }, { reason: "updated", previousVersion: "1.0.0" });
+    expect(embed.title).toBe("🔄 Updated: Test");
+    expect(embed.fields).toContainEqual({ name: "🏷 Version", value: "1.0.0 → 1.1.0", inline: true });
+  });
+
+  // CHANGE: Verify forum posts are created once per plugin and updates reply in the thread.
+  // WHY: Discord response must be parsed to record the thread id.
+  // QUOTE(TЗ): "create one forum post per plugin (named after `plugin_name`), record the returned message/thread id in `CachedEntry`, and post subsequent updates of the same plugin as replies in that thread"
+  // REF: REQ-14
+  // SOURCE: user request
+  it("creates forum thread on first delivery and replies in it afterwards", async () => {
+    const postSpy = vi.mocked(httpClient.post);
+    postSpy.mockResolvedValueOnce({ data: { id: "m1", channel_id: "t1" } } as AxiosResponse);
+    postSpy.mockResolvedValueOnce({ data: { id: "m2", channel_id: "t1" } } as AxiosResponse);
+    const forum = { url: "https://discord.example/forum", forum: true };
+
+    const first = await sendPluginWebhook(plugin, undefined, undefined, forum);
+    const second = await sendPluginWebhook(plugin, undefined, { reason: "updated" }, forum, first);
+
+    expect(first).toEqual({ messageId: "m1", threadId: "t1" });
+    expect(second).toEqual({ messageId: "m2", threadId: "t1" });
+    expect(postSpy.mock.calls[0]?.[0]).toBe("https://discord.example/forum?wait=true");
+    expect(postSpy.mock.calls[0]?.[1]).toMatchObject({ thread_name: "Test" });
+    expect(postSpy.mock.calls[1]?.[0]).toBe("https://discord.example/forum?wait=true&thread_id=t1");
+    expect(postSpy.mock.calls[1]?.[1]).not.toHaveProperty("thread_name");
+  });
+
+  // CHANGE: Verify message edits and deletions target the recorded message id.
+  // WHY: Announcements are updated in place instead of reposted.
+  // QUOTE(TЗ): "add a mode that PATCHes `/webhooks/{id}/{token}/messages/{message_id}` with a refreshed embed and attachment"
+  // REF: REQ-15
+  // SOURCE: user request
+  it("edits and deletes messages by recorded id inside their thread", async () => {
+    const patchSpy = vi.spyOn(httpClient, "patch").mockResolvedValue({} as AxiosResponse);
+    const deleteSpy = vi.spyOn(httpClient, "delete").mockResolvedValue({} as AxiosResponse);
+    const destination = { url: "https://discord.example/api/webhooks/1/token" };
+    const receipt = { messageId: "m1", threadId: "t1" };
+
+    await editPluginWebhook(plugin, { name: "plugin.cs", buffer: Buffer.alloc(64) }, destination, receipt);
+    await deletePluginWebhookMessage(destination, receipt);
+
+    expect(patchSpy.mock.calls[0]?.[0]).toBe("https://discord.example/api/webhooks/1/token/messages/m1?thread_id=t1");
+    expect(deleteSpy.mock.calls[0]?.[0]).toBe("https://discord.example/api/webhooks/1/token/messages/m1?thread_id=t1");
+  });
 });